@@ -0,0 +1,323 @@
+/**
+ * LHI Directory Monitor - Alerts
+ *
+ * Alert rules are stored per directory in its registry.json entry as
+ * "alertRules": [{ id, name, kind, path, metric, threshold, enabled }]
+ *   kind "created" | "modified" | "deleted" | "renamed" | "changed" | "any" -
+ *       change events of that kind whose path matches the `path` glob
+ *       (exclude-pattern semantics: "*.pem" at any depth, "/.env" at the
+ *       root). threshold: matching events needed in one check (default 1)
+ *   kind "growth" - the `metric` rollup ("fileCount" or "totalSize") of the
+ *       directory `path` ("" = the whole tree) grew by more than threshold
+ *       percent from one manifest to the next
+ *
+ * Alerts and the checking progress are kept in a state file next to
+ * registry.json:
+ *   { "directories": { "<watchPath>": { alerts, since, seen, baselines, manifestMtime } } }
+ * An alert is open, then acknowledged, then resolved. A rule firing again
+ * while its alert is still open or acknowledged adds to that alert (count,
+ * paths, lastAt) instead of raising another. The newest resolved alerts are
+ * kept for reference.
+ */
+
+import fs from "fs/promises"
+import path from "path"
+import crypto from "crypto"
+import { createMatcher, compilePattern } from "../shared/excludeMatcher.js"
+
+export const ALERT_STATES = ["open", "acknowledged", "resolved"]
+export const EVENT_KINDS = ["created", "modified", "deleted", "renamed", "changed", "any"]
+export const RULE_KINDS = [...EVENT_KINDS, "growth"]
+export const GROWTH_METRICS = ["fileCount", "totalSize"]
+export const MAX_RULES = 50
+// Resolved alerts kept per directory
+export const RESOLVED_KEPT = 100
+// Example paths kept on an alert
+const MAX_ALERT_PATHS = 20
+
+/**
+ * Error with an HTTP status, thrown for an invalid rule or alert update
+ */
+export class AlertError extends Error {
+  constructor(message, status = 400) {
+    super(message)
+    this.name = "AlertError"
+    this.status = status
+  }
+}
+
+// Helper: Check one rule from a request; returns it complete (defaults filled in) or throws AlertError
+function validateRule(input, index) {
+  const where = `alertRules[${index}]`
+  if (!input || typeof input !== "object" || Array.isArray(input)) {
+    throw new AlertError(`${where} must be an object`)
+  }
+  const { id, name, kind, path: rulePath = "", metric, threshold, enabled = true } = input
+
+  if (!RULE_KINDS.includes(kind)) {
+    throw new AlertError(`${where}.kind must be one of: ${RULE_KINDS.join(", ")}`)
+  }
+  if (typeof rulePath !== "string") throw new AlertError(`${where}.path must be a string`)
+  if (typeof enabled !== "boolean") throw new AlertError(`${where}.enabled must be true or false`)
+  if (id !== undefined && (typeof id !== "string" || !/^[\w-]{1,64}$/.test(id))) {
+    throw new AlertError(`${where}.id must be up to 64 letters, digits, - or _`)
+  }
+  if (name !== undefined && (typeof name !== "string" || name.length > 200)) {
+    throw new AlertError(`${where}.name must be a string of at most 200 characters`)
+  }
+
+  const rule = { id: id || crypto.randomUUID(), name: name?.trim() || "", kind, path: rulePath.trim(), enabled }
+
+  if (kind === "growth") {
+    if (/^\/|(^|\/)\.\.(\/|$)|[*?[]/.test(rule.path)) {
+      throw new AlertError(`${where}.path must be a directory relative to the watched one ("" for all of it)`)
+    }
+    rule.path = rule.path.replace(/\/+$/, "")
+    rule.metric = metric ?? "fileCount"
+    if (!GROWTH_METRICS.includes(rule.metric)) {
+      throw new AlertError(`${where}.metric must be one of: ${GROWTH_METRICS.join(", ")}`)
+    }
+    if (typeof threshold !== "number" || !(threshold > 0 && threshold <= 10000)) {
+      throw new AlertError(`${where}.threshold must be a percentage above 0 (up to 10000)`)
+    }
+    rule.threshold = threshold
+  } else {
+    if (!rule.path || !compilePattern(rule.path)) {
+      throw new AlertError(`${where}.path must be a glob such as *.pem or /.env`)
+    }
+    rule.threshold = threshold ?? 1
+    if (!Number.isInteger(rule.threshold) || rule.threshold < 1 || rule.threshold > 100000) {
+      throw new AlertError(`${where}.threshold must be a whole number of events from 1 to 100000`)
+    }
+  }
+
+  if (!rule.name) rule.name = describeRule(rule)
+  return rule
+}
+
+/**
+ * Human description of a rule, e.g. "*.pem created" or "fileCount of src grows > 20%"
+ */
+export function describeRule(rule) {
+  if (rule.kind === "growth") {
+    return `${rule.metric} of ${rule.path || "the whole tree"} grows > ${rule.threshold}%`
+  }
+  const times = rule.threshold > 1 ? ` (${rule.threshold}+ times)` : ""
+  return `${rule.path} ${rule.kind === "any" ? "changes" : rule.kind}${times}`
+}
+
+/**
+ * Validate a directory's complete rule list from a request
+ * Returns the rules with ids and defaults filled in; throws AlertError
+ */
+export function validateRules(input) {
+  if (!Array.isArray(input)) throw new AlertError("alertRules must be an array")
+  if (input.length > MAX_RULES) throw new AlertError(`At most ${MAX_RULES} alert rules per directory`)
+  const rules = input.map(validateRule)
+  if (new Set(rules.map((r) => r.id)).size !== rules.length) {
+    throw new AlertError("Alert rule ids must be unique")
+  }
+  return rules
+}
+
+/**
+ * Rules from a registry entry - any that aren't valid (e.g. hand-edited registry.json) are left out
+ */
+export function resolveRules(stored) {
+  if (!Array.isArray(stored)) return []
+  return stored.flatMap((rule, index) => {
+    try {
+      return [validateRule(rule, index)]
+    } catch {
+      return []
+    }
+  })
+}
+
+/**
+ * Event rules that fire for a batch of change events (from changelog.js)
+ * Returns [{ rule, count, paths, message }]
+ */
+export function matchEventRules(rules, events) {
+  const fired = []
+  for (const rule of rules) {
+    if (!rule.enabled || rule.kind === "growth") continue
+    const matcher = createMatcher([rule.path])
+    const matching = events.filter(
+      (event) =>
+        (rule.kind === "any" || event.kind === rule.kind) && matcher.match(event.path, event.isDirectory).excluded
+    )
+    if (matching.length < rule.threshold) continue
+
+    const paths = [...new Set(matching.map((event) => event.path))]
+    fired.push({
+      rule,
+      count: matching.length,
+      paths: paths.slice(0, MAX_ALERT_PATHS),
+      message: `${rule.name}: ${paths.length === 1 ? paths[0] : `${paths.length} paths`}`,
+    })
+  }
+  return fired
+}
+
+/**
+ * Whether a growth rule fires for a rollup going from `before` to `after`
+ * Returns { rule, count, paths, message } or null
+ */
+export function checkGrowth(rule, before, after) {
+  if (!(before > 0) || after == null) return null
+  const growth = ((after - before) / before) * 100
+  if (growth <= rule.threshold) return null
+  return {
+    rule,
+    count: 1,
+    paths: rule.path ? [rule.path] : [],
+    message: `${rule.name}: ${before.toLocaleString()} → ${after.toLocaleString()} (+${Math.round(growth)}%)`,
+  }
+}
+
+/**
+ * Create the alert store backed by `stateFile`
+ * onChange(directory) is called whenever a directory's alerts change
+ */
+export function createAlertStore({ stateFile, onChange = () => {} }) {
+  // State file updates run one at a time
+  let updating = Promise.resolve()
+
+  const readState = async () => {
+    try {
+      const state = JSON.parse(await fs.readFile(stateFile, "utf-8"))
+      return { directories: state.directories || {} }
+    } catch (error) {
+      if (error.code === "ENOENT") return { directories: {} }
+      throw error
+    }
+  }
+
+  // Helper: Apply fn to the state and save it (atomically, like registry.json)
+  const updateState = (fn) => {
+    const run = updating.then(async () => {
+      const state = await readState()
+      const result = await fn(state.directories)
+      await fs.mkdir(path.dirname(stateFile), { recursive: true })
+      const temp = `${stateFile}.${process.pid}.tmp`
+      await fs.writeFile(temp, JSON.stringify(state, null, 2))
+      await fs.rename(temp, stateFile)
+      return result
+    })
+    updating = run.catch(() => {})
+    return run
+  }
+
+  const entryFor = (directories, directory) => {
+    if (!directories[directory]) {
+      directories[directory] = { alerts: [], since: null, seen: [], baselines: {}, manifestMtime: null }
+    }
+    return directories[directory]
+  }
+
+  // Helper: Drop all but the newest RESOLVED_KEPT resolved alerts
+  const pruneResolved = (entry) => {
+    const resolved = entry.alerts.filter((a) => a.state === "resolved")
+    if (resolved.length <= RESOLVED_KEPT) return
+    const drop = new Set(resolved.sort((a, b) => b.lastAt - a.lastAt).slice(RESOLVED_KEPT))
+    entry.alerts = entry.alerts.filter((a) => !drop.has(a))
+  }
+
+  return {
+    // Alerts for a directory, newest activity first
+    async list(directory) {
+      const { directories } = await readState()
+      return [...(directories[directory]?.alerts ?? [])].sort((a, b) => b.lastAt - a.lastAt)
+    },
+
+    // Open and acknowledged alert counts of every directory that has any: { [directory]: { open, acknowledged } }
+    async counts() {
+      const { directories } = await readState()
+      const counts = {}
+      for (const [directory, entry] of Object.entries(directories)) {
+        const open = entry.alerts.filter((a) => a.state === "open").length
+        const acknowledged = entry.alerts.filter((a) => a.state === "acknowledged").length
+        if (open || acknowledged) counts[directory] = { open, acknowledged }
+      }
+      return counts
+    },
+
+    // Where checking left off for a directory: { since, seen, baselines, manifestMtime }, or null before the first check
+    async checkpoint(directory) {
+      const { directories } = await readState()
+      const entry = directories[directory]
+      return entry ? { since: entry.since, seen: entry.seen, baselines: entry.baselines, manifestMtime: entry.manifestMtime } : null
+    },
+
+    /**
+     * Save a check's outcome: the new checkpoint, and alerts for the rules
+     * that fired ([{ rule, count, paths, message }], see matchEventRules / checkGrowth)
+     */
+    async record(directory, checkpoint, fired = []) {
+      await updateState((directories) => {
+        const entry = entryFor(directories, directory)
+        Object.assign(entry, checkpoint)
+
+        const now = Date.now()
+        for (const { rule, count, paths, message } of fired) {
+          const active = entry.alerts.find((a) => a.ruleId === rule.id && a.state !== "resolved")
+          if (active) {
+            active.count += count
+            active.paths = [...new Set([...paths, ...active.paths])].slice(0, MAX_ALERT_PATHS)
+            active.message = message
+            active.lastAt = now
+          } else {
+            entry.alerts.push({
+              id: crypto.randomUUID(),
+              ruleId: rule.id,
+              ruleName: rule.name,
+              kind: rule.kind,
+              state: "open",
+              message,
+              paths,
+              count,
+              firstAt: now,
+              lastAt: now,
+              acknowledgedAt: null,
+              resolvedAt: null,
+            })
+          }
+        }
+      })
+      if (fired.length > 0) onChange(directory)
+    },
+
+    /**
+     * Acknowledge or resolve an alert
+     * Returns the updated alert; throws AlertError (404 for an unknown alert)
+     */
+    async setState(directory, id, state) {
+      if (state !== "acknowledged" && state !== "resolved") {
+        throw new AlertError('state must be "acknowledged" or "resolved"')
+      }
+      const alert = await updateState((directories) => {
+        const entry = directories[directory]
+        const alert = entry?.alerts.find((a) => a.id === id)
+        if (!alert) throw new AlertError(`No such alert: ${id}`, 404)
+        if (alert.state === "resolved") throw new AlertError("The alert is already resolved", 409)
+
+        alert.state = state
+        if (state === "acknowledged") alert.acknowledgedAt = Date.now()
+        if (state === "resolved") alert.resolvedAt = Date.now()
+        pruneResolved(entry)
+        return alert
+      })
+      onChange(directory)
+      return alert
+    },
+
+    // Drop everything kept for a directory (e.g. it was unregistered)
+    async forget(directory) {
+      await updateState((directories) => {
+        delete directories[directory]
+      })
+      onChange(directory)
+    },
+  }
+}
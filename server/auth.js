@@ -0,0 +1,92 @@
+/**
+ * LHI Directory Monitor - API Authentication
+ *
+ * Bearer tokens, each with a role:
+ *   viewer   - GET requests only (browse manifests, history, status)
+ *   operator - everything, including start/stop/refresh and registry or
+ *              exclude edits
+ *
+ * Tokens come from LHI_API_TOKENS: comma-separated "token:role" entries (a
+ * token without a role is an operator). With no tokens configured the API is
+ * open and every caller is an operator, as before.
+ *
+ * Requests send "Authorization: Bearer <token>". EventSource can't set
+ * headers, so GET requests may pass ?access_token=<token> instead.
+ */
+
+import crypto from "crypto"
+
+export const ROLES = ["viewer", "operator"]
+
+// Methods a viewer may use
+const READ_METHODS = new Set(["GET", "HEAD"])
+
+// Helper: Fixed-length digest, so tokens compare in constant time whatever their length
+const digest = (token) => crypto.createHash("sha256").update(token).digest()
+
+/**
+ * Parse LHI_API_TOKENS ("token:role,token:role")
+ * Returns [{ role, digest }]; throws on an unknown role or an empty token
+ */
+export function parseTokens(value) {
+  return String(value || "")
+    .split(",")
+    .map((entry) => entry.trim())
+    .filter(Boolean)
+    .map((entry) => {
+      const separator = entry.lastIndexOf(":")
+      const token = separator === -1 ? entry : entry.slice(0, separator)
+      const role = separator === -1 ? "operator" : entry.slice(separator + 1)
+      if (!token) throw new Error("LHI_API_TOKENS has an entry without a token")
+      if (!ROLES.includes(role)) {
+        throw new Error(`LHI_API_TOKENS: unknown role "${role}" (expected ${ROLES.join(" or ")})`)
+      }
+      return { role, digest: digest(token) }
+    })
+}
+
+/**
+ * Create the authenticator for a token list (from parseTokens)
+ */
+export function createAuth({ tokens }) {
+  const required = tokens.length > 0
+
+  // Role for the request's token, or null if it has none (or an unknown one)
+  const identify = (req) => {
+    if (!required) return "operator"
+    const header = req.get("authorization") || ""
+    const bearer = header.match(/^Bearer\s+(.+)$/i)?.[1]
+    const token = bearer ?? (READ_METHODS.has(req.method) ? req.query.access_token : undefined)
+    if (typeof token !== "string" || !token) return null
+
+    const presented = digest(token)
+    // Check every token, so timing doesn't reveal which one (if any) matched
+    let role = null
+    for (const entry of tokens) {
+      if (crypto.timingSafeEqual(entry.digest, presented)) role ??= entry.role
+    }
+    return role
+  }
+
+  return {
+    required,
+    identify,
+
+    /**
+     * Middleware: 401 without a valid token, 403 when a viewer tries to change something.
+     * Sets req.role for the routes.
+     */
+    authenticate(req, res, next) {
+      const role = identify(req)
+      if (!role) {
+        res.set("WWW-Authenticate", 'Bearer realm="lhi-directory-monitor"')
+        return res.status(401).json({ error: "Authentication required - send a valid API token" })
+      }
+      if (role !== "operator" && !READ_METHODS.has(req.method)) {
+        return res.status(403).json({ error: "This API token is read-only (viewer role)" })
+      }
+      req.role = role
+      next()
+    },
+  }
+}
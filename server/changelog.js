@@ -0,0 +1,289 @@
+/**
+ * LHI Directory Monitor - Change History
+ *
+ * Reads change events from every monitor log for a watch path (each .log
+ * file in its MONITOR_DIR/logs/ldm_<name>... directories), not just the
+ * newest one, and serves them newest first with cursor pagination and filters.
+ * The native watcher's log directory carries a hash of the full path; the
+ * script's only carry the directory name, so events for paths outside the
+ * watch path (another directory with the same name) are dropped as well.
+ * Lines are parsed into typed events by ./logParsers.js (fswatch or inotifywait).
+ *
+ * Parsed log files are cached by mtime and size (the most recently used
+ * 100), so polling the history (or the recent-changes endpoint) only
+ * re-reads logs that grew. Exports
+ * read the logs as a stream instead (streamChangeEvents).
+ */
+
+import fs from "fs/promises"
+import { createReadStream } from "fs"
+import path from "path"
+import readline from "readline"
+import crypto from "crypto"
+import { createMatcher } from "../shared/excludeMatcher.js"
+import { parseChangeLines, streamChangeLines } from "./logParsers.js"
+
+export const DEFAULT_PAGE_SIZE = 50
+export const MAX_PAGE_SIZE = 500
+
+// Log file path -> { mtimeMs, size, events }, least recently used first
+const parsedLogs = new Map()
+// Parsed log files kept; beyond this the least recently used is dropped
+const MAX_PARSED_LOGS = 100
+
+// Helper: Parse a log timestamp to epoch ms (null if unrecognized)
+function parseTimestamp(timestamp) {
+  const ms = Date.parse(timestamp.replace(" ", "T"))
+  if (!Number.isNaN(ms)) return ms
+  const fallback = Date.parse(timestamp)
+  return Number.isNaN(fallback) ? null : fallback
+}
+
+// Native log directory names: ldm_<name>_native_<hash>
+const NATIVE_LOG_DIR = /^ldm_.*_native_[0-9a-f]{8}$/
+
+// Helper: Directory name as it appears in log directory names (same naming as the monitor script)
+function logDirName(watchPath) {
+  return path.basename(watchPath).toLowerCase().replace(/[^a-z0-9]/g, "_")
+}
+
+/**
+ * The native watcher's log directory name for a watch path: ldm_<name>_native_<hash>
+ * The hash of the full path tells apart directories that share a name
+ */
+export function nativeLogDirName(watchPath) {
+  const hash = crypto.createHash("sha1").update(watchPath).digest("hex").slice(0, 8)
+  return `ldm_${logDirName(watchPath)}_native_${hash}`
+}
+
+// Helper: Whether a log directory belongs to a watch path - the native watcher's by its exact
+// name, the script's (ldm_<name> or ldm_<name>_<suffix>) by the directory name
+function isLogDirFor(dirName, watchPath) {
+  if (NATIVE_LOG_DIR.test(dirName)) return dirName === nativeLogDirName(watchPath)
+  const prefix = `ldm_${logDirName(watchPath)}`
+  return dirName === prefix || dirName.startsWith(`${prefix}_`)
+}
+
+// Helper: Log files of the directories that belong to a watch path
+async function findLogFiles(logsDir, watchPath) {
+  let logDirs
+  try {
+    logDirs = await fs.readdir(logsDir)
+  } catch (error) {
+    if (error.code === "ENOENT") return []
+    throw error
+  }
+
+  const files = []
+  for (const d of logDirs) {
+    if (!isLogDirFor(d, watchPath)) continue
+    const logDirPath = path.join(logsDir, d)
+    let entries
+    try {
+      entries = await fs.readdir(logDirPath)
+    } catch {
+      continue // Not a directory, or removed while we looked
+    }
+    for (const f of entries) {
+      if (f.endsWith(".log")) files.push(path.join(logDirPath, f))
+    }
+  }
+  return files
+}
+
+// Helper: Change events from one log file (cached until the file changes)
+async function readLogEvents(logPath) {
+  const stats = await fs.stat(logPath)
+  const cached = parsedLogs.get(logPath)
+  if (cached && cached.mtimeMs === stats.mtimeMs && cached.size === stats.size) {
+    // Move it to the most recently used end
+    parsedLogs.delete(logPath)
+    parsedLogs.set(logPath, cached)
+    return cached.events
+  }
+
+  const content = await fs.readFile(logPath, "utf-8")
+  const events = parseChangeLines(content.split("\n")).map(logEvent(logPath))
+
+  parsedLogs.delete(logPath)
+  parsedLogs.set(logPath, { mtimeMs: stats.mtimeMs, size: stats.size, events })
+  while (parsedLogs.size > MAX_PARSED_LOGS) {
+    parsedLogs.delete(parsedLogs.keys().next().value)
+  }
+  return events
+}
+
+// Helper: Change events from one log file as it is read, in log order (not cached)
+async function* streamLogEvents(logPath) {
+  const input = createReadStream(logPath, { encoding: "utf-8" })
+  const lines = readline.createInterface({ input, crlfDelay: Infinity })
+  const toEvent = logEvent(logPath)
+  try {
+    for await (const event of streamChangeLines(lines)) {
+      yield toEvent(event)
+    }
+  } finally {
+    lines.close()
+    input.destroy()
+  }
+}
+
+// Helper: Maps a parsed line of the log file to its event, with an id and the time in epoch ms
+function logEvent(logPath) {
+  const logName = `${path.basename(path.dirname(logPath))}/${path.basename(logPath)}`
+  return ({ line, ...event }) => ({
+    id: `${logName}:${line}`,
+    time: parseTimestamp(event.timestamp),
+    ...event,
+  })
+}
+
+// Helper: Newest first; ties (and unparseable times) fall back to log position
+function compareEvents(a, b) {
+  const timeA = a.time ?? -Infinity
+  const timeB = b.time ?? -Infinity
+  if (timeA !== timeB) return timeB - timeA
+  return b.id.localeCompare(a.id, undefined, { numeric: true })
+}
+
+function encodeCursor(event) {
+  return Buffer.from(JSON.stringify([event.time, event.id])).toString("base64url")
+}
+
+function decodeCursor(cursor) {
+  try {
+    const [time, id] = JSON.parse(Buffer.from(cursor, "base64url").toString("utf-8"))
+    if (typeof id !== "string") return null
+    return { time, id }
+  } catch {
+    return null
+  }
+}
+
+/**
+ * Path relative to the watched directory, for glob filtering and display
+ * Returns null for a path outside it
+ */
+export function relativeTo(watchPath, file) {
+  if (file === watchPath) return ""
+  return file.startsWith(`${watchPath}/`) ? file.slice(watchPath.length + 1) : null
+}
+
+// Helper: The filters of readChangeEvents as a function - returns the event with its
+// relative `path`, or null if it is filtered out
+function eventFilter(watchPath, options) {
+  const glob = options.path ? createMatcher([options.path]) : null
+  const kinds = options.kinds?.length ? new Set(options.kinds) : null
+  const hasRange = options.since != null || options.until != null
+
+  return (event) => {
+    if (kinds && !kinds.has(event.kind)) return null
+    if (hasRange) {
+      if (event.time == null) return null
+      if (options.since != null && event.time < options.since) return null
+      if (options.until != null && event.time > options.until) return null
+    }
+    const relPath = relativeTo(watchPath, event.file)
+    if (relPath === null) return null
+    if (glob && !glob.match(relPath).excluded) return null
+    return { ...event, path: relPath }
+  }
+}
+
+/**
+ * Every change event for a watch path that passes the filters, newest first
+ *
+ * Options:
+ *   since / until - epoch ms bounds (inclusive)
+ *   path   - glob matched against the path relative to the watch path, with
+ *            exclude-pattern semantics ("*.ts" at any depth, "src" or "src/**"
+ *            for everything under src)
+ *   kinds  - event kinds to include
+ *
+ * Events carry `path`, relative to the watch path; events for files outside
+ * it are left out
+ */
+export async function readChangeEvents(logsDir, watchPath, options = {}) {
+  const filter = eventFilter(watchPath, options)
+  const logFiles = await findLogFiles(logsDir, watchPath)
+  const perFile = await Promise.all(logFiles.map(readLogEvents))
+
+  const events = []
+  for (const fileEvents of perFile) {
+    for (const event of fileEvents) {
+      const filtered = filter(event)
+      if (filtered) events.push(filtered)
+    }
+  }
+  events.sort(compareEvents)
+  return events
+}
+
+/**
+ * The events of readChangeEvents (same options), oldest first, read from the
+ * logs while they are consumed - for exporting a whole history without
+ * holding it. Each log is read in order and the logs are merged by time, so
+ * only the next event of each log is in memory
+ */
+export async function* streamChangeEvents(logsDir, watchPath, options = {}) {
+  const filter = eventFilter(watchPath, options)
+  const streams = (await findLogFiles(logsDir, watchPath)).map(streamLogEvents)
+
+  try {
+    // Log stream -> its next event
+    const heads = new Map()
+    for (const stream of streams) {
+      const { value, done } = await stream.next()
+      if (!done) heads.set(stream, value)
+    }
+
+    while (heads.size > 0) {
+      let oldest = null
+      for (const [stream, event] of heads) {
+        if (!oldest || compareEvents(event, oldest.event) > 0) oldest = { stream, event }
+      }
+
+      const { value, done } = await oldest.stream.next()
+      if (done) heads.delete(oldest.stream)
+      else heads.set(oldest.stream, value)
+
+      const event = filter(oldest.event)
+      if (event) yield event
+    }
+  } finally {
+    // Closes the files when the consumer stops early (e.g. the download was cancelled)
+    await Promise.all(streams.map((stream) => stream.return()))
+  }
+}
+
+/**
+ * Read change history for a watch path, a page at a time
+ *
+ * Options: the filters of readChangeEvents, plus
+ *   cursor - from a previous page's nextCursor
+ *   limit  - page size (default 50, max 500)
+ *
+ * Returns { events, nextCursor, total } - total counts all matches, not just this page
+ */
+export async function readChangeHistory(logsDir, watchPath, options = {}) {
+  const limit = Math.min(Math.max(parseInt(options.limit, 10) || DEFAULT_PAGE_SIZE, 1), MAX_PAGE_SIZE)
+  const events = await readChangeEvents(logsDir, watchPath, options)
+
+  // Resume strictly after the cursor's position in the sort order
+  let start = 0
+  if (options.cursor) {
+    const cursor = decodeCursor(options.cursor)
+    if (cursor) {
+      start = events.findIndex((e) => compareEvents(cursor, e) < 0)
+      if (start === -1) start = events.length
+    }
+  }
+
+  const page = events.slice(start, start + limit)
+  const hasMore = start + limit < events.length
+  return {
+    events: page,
+    nextCursor: hasMore ? encodeCursor(page[page.length - 1]) : null,
+    total: events.length,
+  }
+}
@@ -0,0 +1,78 @@
+/**
+ * LHI Directory Monitor - Directory Browser
+ *
+ * Subdirectory listings for the Add Directory picker (GET /api/browse).
+ * Callers confine the directory to the allowed roots first (paths.js); this
+ * only lists what is in it. Symlinks to directories are listed like
+ * directories - browsing into one is checked against the roots again.
+ */
+
+import fs from "fs/promises"
+import path from "path"
+import { PathError, isWithin } from "./paths.js"
+
+// Most entries returned for one directory
+export const MAX_BROWSE_ENTRIES = 500
+
+/**
+ * Subdirectories of `dir`, sorted by name
+ * query: case-insensitive name prefix (type-ahead); includeHidden: list dot directories too
+ * Returns { entries: [{ name, path, symlink }], truncated }
+ */
+export async function listSubdirectories(dir, { query = "", includeHidden = false } = {}) {
+  let dirents
+  try {
+    dirents = await fs.readdir(dir, { withFileTypes: true })
+  } catch (error) {
+    if (error.code === "ENOENT") throw new PathError(`Directory does not exist: ${dir}`)
+    if (error.code === "ENOTDIR") throw new PathError(`Not a directory: ${dir}`)
+    if (error.code === "EACCES" || error.code === "EPERM") {
+      throw new PathError(`Directory is not readable: ${dir}`)
+    }
+    throw error
+  }
+
+  const prefix = query.toLowerCase()
+  const candidates = dirents.filter(
+    (d) =>
+      (d.isDirectory() || d.isSymbolicLink()) &&
+      (includeHidden || !d.name.startsWith(".") || prefix.startsWith(".")) &&
+      d.name.toLowerCase().startsWith(prefix)
+  )
+
+  const entries = []
+  for (const dirent of candidates) {
+    const entryPath = path.join(dir, dirent.name)
+    if (dirent.isSymbolicLink()) {
+      try {
+        if (!(await fs.stat(entryPath)).isDirectory()) continue
+      } catch {
+        continue // Dangling link
+      }
+    }
+    entries.push({ name: dirent.name, path: entryPath, symlink: dirent.isSymbolicLink() })
+  }
+  entries.sort((a, b) => a.name.localeCompare(b.name))
+
+  return {
+    entries: entries.slice(0, MAX_BROWSE_ENTRIES),
+    truncated: entries.length > MAX_BROWSE_ENTRIES,
+  }
+}
+
+/**
+ * Breadcrumbs from the allowed root containing `dir` down to `dir`
+ * Returns [{ name, path }] - just `dir` itself if no root contains it lexically
+ */
+export function breadcrumbsFor(dir, roots) {
+  const root = roots.filter((r) => isWithin(dir, r)).sort((a, b) => b.length - a.length)[0]
+  if (!root) return [{ name: dir, path: dir }]
+
+  const crumbs = [{ name: root, path: root }]
+  let current = root
+  for (const segment of path.relative(root, dir).split(path.sep).filter(Boolean)) {
+    current = path.join(current, segment)
+    crumbs.push({ name: segment, path: current })
+  }
+  return crumbs
+}
@@ -0,0 +1,185 @@
+/**
+ * LHI Directory Monitor - Live Event Stream
+ *
+ * Server-Sent Events hub behind GET /api/events. While at least one client
+ * is connected, every registered directory is polled once per interval on
+ * the server and only the differences are pushed:
+ * - status    - monitor started/stopped, its health changed or manifest
+ *               timestamp moved
+ * - changes   - change-log entries that appeared since the last poll
+ * - manifest  - .lhi_manifest was rewritten
+ * - registry  - directories were added to or removed from the registry
+ * - job       - a background job (e.g. a refresh) changed state; sent by
+ *               whoever runs the job, through publish()
+ * - alerts    - a directory's alerts changed (raised, acknowledged, resolved),
+ *               with every directory's counts; sent by the alert store
+ *
+ * Polling stops again when the last client disconnects.
+ */
+
+const DEFAULT_INTERVAL = 2000
+const HEARTBEAT_INTERVAL = 15000
+
+// Helper: Stable identity for a change-log entry - with the kind, so a delete and a
+// re-create of the same file within one second are two changes
+function changeKey(change) {
+  return `${change.timestamp}|${change.kind}|${change.file}`
+}
+
+// Helper: Write one SSE frame
+function send(res, event, data) {
+  res.write(`event: ${event}\ndata: ${JSON.stringify(data)}\n\n`)
+}
+
+/**
+ * Create the event stream hub
+ *
+ * All data access is injected so the hub shares the exact same status,
+ * change-log and manifest logic as the REST endpoints.
+ */
+export function createEventStream({
+  listDirectories,
+  getStatuses,
+  getRecentChanges,
+  getManifestMtime,
+  interval = DEFAULT_INTERVAL,
+}) {
+  const clients = new Set()
+  // directory -> { running, pid, health, restarts, lastManifestUpdate, manifestMtime, changeKeys }
+  const snapshots = new Map()
+  let registryKey = null
+  let resendStatus = false
+  let timer = null
+  let polling = false
+
+  function broadcast(event, data) {
+    for (const res of clients) {
+      send(res, event, data)
+    }
+  }
+
+  async function pollDirectory(directory, status, forceStatus) {
+    const [changes, manifestMtime] = await Promise.all([
+      getRecentChanges(directory),
+      getManifestMtime(directory),
+    ])
+    const previous = snapshots.get(directory)
+
+    snapshots.set(directory, {
+      running: status.running,
+      pid: status.pid,
+      health: status.health,
+      restarts: status.restarts,
+      lastManifestUpdate: status.lastManifestUpdate,
+      manifestMtime,
+      changeKeys: new Set(changes.map(changeKey)),
+    })
+
+    // Status is always sent on the first poll so new clients get a baseline
+    if (
+      !previous ||
+      forceStatus ||
+      previous.running !== status.running ||
+      previous.pid !== status.pid ||
+      previous.health !== status.health ||
+      previous.restarts !== status.restarts ||
+      previous.lastManifestUpdate !== status.lastManifestUpdate
+    ) {
+      broadcast("status", { directory, status })
+    }
+
+    if (!previous) return
+
+    // Changes are newest first - only push the ones we haven't seen yet
+    const newChanges = changes.filter((c) => !previous.changeKeys.has(changeKey(c)))
+    if (newChanges.length > 0) {
+      broadcast("changes", { directory, changes: newChanges })
+    }
+
+    if (manifestMtime && manifestMtime !== previous.manifestMtime) {
+      broadcast("manifest", { directory, lastModified: manifestMtime })
+    }
+  }
+
+  async function poll() {
+    // Skip this tick if the previous poll is still running (slow process scan, big logs)
+    if (polling) return
+    polling = true
+    const forceStatus = resendStatus
+    resendStatus = false
+    try {
+      const directories = await listDirectories()
+
+      const key = directories.join("\n")
+      if (registryKey !== null && key !== registryKey) {
+        broadcast("registry", { directories })
+      }
+      registryKey = key
+
+      // Forget directories that were removed from the registry
+      for (const directory of snapshots.keys()) {
+        if (!directories.includes(directory)) snapshots.delete(directory)
+      }
+
+      // Every directory's status at once (one process scan), then the rest per directory
+      const statuses = await getStatuses(directories)
+      for (const directory of directories) {
+        try {
+          await pollDirectory(directory, statuses.get(directory), forceStatus)
+        } catch (error) {
+          console.error(`Event stream poll error (${directory}):`, error.message)
+        }
+      }
+    } catch (error) {
+      console.error("Event stream poll error:", error)
+    } finally {
+      polling = false
+    }
+  }
+
+  function start() {
+    if (timer) return
+    poll()
+    timer = setInterval(poll, interval)
+  }
+
+  function stop() {
+    clearInterval(timer)
+    timer = null
+    snapshots.clear()
+    registryKey = null
+  }
+
+  /**
+   * Attach an HTTP response as an SSE client
+   */
+  function subscribe(req, res) {
+    res.writeHead(200, {
+      "Content-Type": "text/event-stream",
+      "Cache-Control": "no-cache, no-transform",
+      Connection: "keep-alive",
+      // Disable nginx response buffering for the /api/directory-monitor proxy
+      "X-Accel-Buffering": "no",
+    })
+    // Tell EventSource how long to wait before reconnecting
+    res.write("retry: 3000\n\n")
+    send(res, "ready", { interval })
+
+    // New clients need a full status baseline, so re-send status on the next poll
+    resendStatus = true
+
+    clients.add(res)
+    start()
+
+    // Comment frames keep idle proxies from closing the connection
+    const heartbeat = setInterval(() => res.write(": ping\n\n"), HEARTBEAT_INTERVAL)
+
+    req.on("close", () => {
+      clearInterval(heartbeat)
+      clients.delete(res)
+      if (clients.size === 0) stop()
+    })
+  }
+
+  return { subscribe, publish: broadcast }
+}
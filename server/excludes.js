@@ -0,0 +1,383 @@
+/**
+ * LHI Directory Monitor - Exclude File Management
+ *
+ * Reads and edits .lhi_excludes while keeping its comments and blank lines.
+ * The file is held as an ordered list of lines:
+ *   { type: "pattern", text }  - an exclude pattern
+ *   { type: "comment", text }  - a "# ..." line (text includes the "#")
+ *   { type: "blank" }          - an empty line
+ *
+ * PRIORITY ORDER (matches lhi_directory_monitor_utils.sh):
+ * 1. .lhi_excludes - Single source of truth for all LHI tools including Mutagen
+ * 2. .gitignore - Standard git ignore (fallback, read-only here)
+ */
+
+import fs from "fs/promises"
+import path from "path"
+import crypto from "crypto"
+import { createMatcher } from "../shared/excludeMatcher.js"
+
+export const EXCLUDES_FILE = ".lhi_excludes"
+export const GITIGNORE_FILE = ".gitignore"
+
+/**
+ * Error with an HTTP status, thrown by the edit operations below
+ */
+export class ExcludesError extends Error {
+  constructor(message, status = 400) {
+    super(message)
+    this.name = "ExcludesError"
+    this.status = status
+  }
+}
+
+// Per-directory write queue so concurrent edits apply one after another
+const writeQueues = new Map()
+
+// Helper: Split file content into typed lines
+export function parseExcludeLines(content) {
+  const lines = content.split("\n")
+  // A trailing newline produces one empty element that isn't a real line
+  if (lines.length > 0 && lines[lines.length - 1] === "") lines.pop()
+
+  return lines.map((line) => {
+    const trimmed = line.trim()
+    if (!trimmed) return { type: "blank" }
+    if (trimmed.startsWith("#")) return { type: "comment", text: line }
+    return { type: "pattern", text: trimmed }
+  })
+}
+
+// Helper: Join typed lines back into file content
+export function serializeExcludeLines(lines) {
+  if (lines.length === 0) return ""
+  return lines.map((line) => (line.type === "blank" ? "" : line.text)).join("\n") + "\n"
+}
+
+// Helper: Parse exclude patterns
+// A comment line directly above a pattern is attached to it as its description
+export function parseExcludes(content) {
+  const patterns = []
+  let comment
+
+  for (const line of parseExcludeLines(content)) {
+    if (line.type === "comment") {
+      comment = line.text.trim().replace(/^#+\s*/, "") || undefined
+      continue
+    }
+    if (line.type === "pattern") {
+      patterns.push({
+        pattern: line.text,
+        isDirectory: line.text.endsWith("/"),
+        ...(comment ? { comment } : {}),
+      })
+    }
+    comment = undefined
+  }
+
+  return patterns
+}
+
+// Helper: Validate a single pattern coming from the API
+function validatePattern(pattern) {
+  if (typeof pattern !== "string" || !pattern.trim()) {
+    throw new ExcludesError("Pattern must be a non-empty string")
+  }
+  const trimmed = pattern.trim()
+  if (/[\r\n]/.test(trimmed)) {
+    throw new ExcludesError("Pattern must be a single line")
+  }
+  if (trimmed.startsWith("#")) {
+    throw new ExcludesError("Pattern cannot start with '#' (that would make it a comment)")
+  }
+  return trimmed
+}
+
+async function readIfExists(filePath) {
+  try {
+    return await fs.readFile(filePath, "utf-8")
+  } catch (error) {
+    if (error.code === "ENOENT") return null
+    throw error
+  }
+}
+
+/**
+ * Read the effective exclude patterns for a directory
+ * Returns { patterns, source } where source is ".lhi_excludes", ".gitignore" or null
+ */
+export async function readExcludes(watchPath) {
+  const excludes = await readIfExists(path.join(watchPath, EXCLUDES_FILE))
+  if (excludes !== null) {
+    return { patterns: parseExcludes(excludes), source: EXCLUDES_FILE }
+  }
+
+  const gitignore = await readIfExists(path.join(watchPath, GITIGNORE_FILE))
+  if (gitignore !== null) {
+    return { patterns: parseExcludes(gitignore), source: GITIGNORE_FILE }
+  }
+
+  return { patterns: [], source: null }
+}
+
+// Helper: Write a file atomically (temp file in the same directory + rename)
+async function writeAtomic(filePath, content) {
+  const tmpPath = `${filePath}.tmp-${process.pid}-${crypto.randomBytes(4).toString("hex")}`
+  let mode
+  try {
+    mode = (await fs.stat(filePath)).mode
+  } catch {
+    // New file - default mode
+  }
+
+  try {
+    await fs.writeFile(tmpPath, content, { encoding: "utf-8", mode })
+    await fs.rename(tmpPath, filePath)
+  } catch (error) {
+    await fs.rm(tmpPath, { force: true })
+    throw error
+  }
+}
+
+/**
+ * Apply an edit to .lhi_excludes
+ *
+ * `edit` receives the current lines and returns the new lines. Edits for the
+ * same directory are queued so read-modify-write cycles never interleave.
+ * Refuses to create .lhi_excludes when only a .gitignore exists, since the new
+ * file would silently replace the .gitignore patterns - use createFromGitignore.
+ */
+function editExcludes(watchPath, edit) {
+  return enqueue(watchPath, async () => {
+    const excludePath = path.join(watchPath, EXCLUDES_FILE)
+    let content = await readIfExists(excludePath)
+
+    if (content === null) {
+      const gitignore = await readIfExists(path.join(watchPath, GITIGNORE_FILE))
+      if (gitignore !== null) {
+        throw new ExcludesError(
+          `No ${EXCLUDES_FILE} yet - create it from ${GITIGNORE_FILE} before editing`,
+          409
+        )
+      }
+      content = ""
+    }
+
+    const lines = edit(parseExcludeLines(content))
+    const newContent = serializeExcludeLines(lines)
+    await writeAtomic(excludePath, newContent)
+    return { patterns: parseExcludes(newContent), source: EXCLUDES_FILE }
+  })
+}
+
+// Helper: Run a task after any pending writes for the same directory
+function enqueue(watchPath, task) {
+  const previous = writeQueues.get(watchPath) || Promise.resolve()
+  const result = previous.catch(() => {}).then(task)
+  writeQueues.set(watchPath, result)
+  result
+    .finally(() => {
+      if (writeQueues.get(watchPath) === result) writeQueues.delete(watchPath)
+    })
+    .catch(() => {})
+  return result
+}
+
+// Helper: Indexes of the pattern lines within the full line list
+function patternLineIndexes(lines) {
+  return lines.flatMap((line, i) => (line.type === "pattern" ? [i] : []))
+}
+
+// Helper: Whether the line at i is a comment describing the pattern right below it
+function isAttachedComment(lines, i) {
+  return lines[i]?.type === "comment" && lines[i + 1]?.type === "pattern"
+}
+
+/**
+ * Add a pattern, before the pattern at `index` (appended if omitted)
+ */
+export async function addExclude(watchPath, pattern, index) {
+  const text = validatePattern(pattern)
+
+  return editExcludes(watchPath, (lines) => {
+    const slots = patternLineIndexes(lines)
+    if (slots.some((i) => lines[i].text === text)) {
+      throw new ExcludesError(`Pattern already exists: ${text}`, 409)
+    }
+
+    const next = [...lines]
+    if (index === undefined || index === null || index >= slots.length) {
+      next.push({ type: "pattern", text })
+    } else if (Number.isInteger(index) && index >= 0) {
+      // Insert above the target's comment so the comment stays with its pattern
+      const at = isAttachedComment(lines, slots[index] - 1) ? slots[index] - 1 : slots[index]
+      next.splice(at, 0, { type: "pattern", text })
+    } else {
+      throw new ExcludesError("Index must be a non-negative integer")
+    }
+    return next
+  })
+}
+
+/**
+ * Remove the pattern at `index`
+ * `expected` guards against the file having changed since the client read it
+ */
+export async function removeExclude(watchPath, index, expected) {
+  if (!Number.isInteger(index) || index < 0) {
+    throw new ExcludesError("Index must be a non-negative integer")
+  }
+
+  return editExcludes(watchPath, (lines) => {
+    const slots = patternLineIndexes(lines)
+    if (index >= slots.length) {
+      throw new ExcludesError(`No pattern at index ${index}`, 404)
+    }
+    if (expected !== undefined && lines[slots[index]].text !== expected) {
+      throw new ExcludesError(`${EXCLUDES_FILE} changed on disk - reload and try again`, 409)
+    }
+    return lines.filter((_, i) => i !== slots[index])
+  })
+}
+
+/**
+ * Replace all patterns (used for reordering and inline edits)
+ * Blank lines and free-standing comments stay where they are; the new
+ * patterns fill the existing pattern positions in order. A comment directly
+ * above a pattern moves with that pattern when it is reordered; a pattern
+ * edited in place (its old text is gone) keeps the comment of its position.
+ * Extra patterns are appended, and left-over positions are dropped.
+ */
+export async function replaceExcludes(watchPath, patterns) {
+  if (!Array.isArray(patterns)) {
+    throw new ExcludesError("Patterns must be an array of strings")
+  }
+  const texts = patterns.map(validatePattern)
+  const duplicate = texts.find((t, i) => texts.indexOf(t) !== i)
+  if (duplicate) {
+    throw new ExcludesError(`Duplicate pattern: ${duplicate}`)
+  }
+
+  return editExcludes(watchPath, (lines) => {
+    // Old patterns in order, each with the comment line describing it (if any)
+    const old = []
+    lines.forEach((line, i) => {
+      if (line.type !== "pattern") return
+      old.push({ text: line.text, comment: isAttachedComment(lines, i - 1) ? lines[i - 1] : null })
+    })
+    const kept = new Set(texts)
+
+    // A pattern that is still there brings its own comment; a new one takes
+    // the comment of the position it fills, unless that pattern moved elsewhere
+    const commentFor = (text, position) => {
+      const same = old.find((p) => p.text === text)
+      if (same) return same.comment
+      const replaced = old[position]
+      return replaced && !kept.has(replaced.text) ? replaced.comment : null
+    }
+
+    const next = []
+    let n = 0
+    const pushPattern = () => {
+      const text = texts[n]
+      const comment = commentFor(text, n)
+      n++
+      if (comment) next.push(comment)
+      next.push({ type: "pattern", text })
+    }
+
+    lines.forEach((line, i) => {
+      if (line.type === "pattern") {
+        if (n < texts.length) pushPattern()
+      } else if (!isAttachedComment(lines, i)) {
+        next.push(line)
+      }
+    })
+    while (n < texts.length) {
+      pushPattern()
+    }
+    return next
+  })
+}
+
+/**
+ * Create .lhi_excludes as a copy of .gitignore (comments and all)
+ */
+export function createFromGitignore(watchPath) {
+  return enqueue(watchPath, async () => {
+    const excludePath = path.join(watchPath, EXCLUDES_FILE)
+    if ((await readIfExists(excludePath)) !== null) {
+      throw new ExcludesError(`${EXCLUDES_FILE} already exists`, 409)
+    }
+
+    const gitignore = await readIfExists(path.join(watchPath, GITIGNORE_FILE))
+    if (gitignore === null) {
+      throw new ExcludesError(`No ${GITIGNORE_FILE} found to copy from`, 404)
+    }
+
+    const header = [
+      `# ${EXCLUDES_FILE} - created from ${GITIGNORE_FILE} by LHI Directory Monitor`,
+      `# Single source of truth for exclude patterns (used by all LHI tools including Mutagen)`,
+      "",
+    ].join("\n")
+    const content = header + serializeExcludeLines(parseExcludeLines(gitignore))
+    await writeAtomic(excludePath, content)
+    return { patterns: parseExcludes(content), source: EXCLUDES_FILE }
+  })
+}
+
+/**
+ * Dry-run a candidate pattern list against a parsed manifest tree
+ *
+ * Returns every entry the candidate patterns would hide (shallowest first,
+ * capped at `limit`), flagged with whether the current patterns already hide
+ * it, plus totals over all hidden entries and over the newly hidden ones.
+ */
+export function previewExcludes(tree, candidatePatterns, currentPatterns = [], limit = 5000) {
+  const candidate = createMatcher(candidatePatterns)
+  const current = createMatcher(currentPatterns)
+  const max = Number.isInteger(limit) && limit > 0 ? limit : 5000
+
+  const matches = []
+  const total = { files: 0, directories: 0, bytes: 0 }
+  const added = { files: 0, directories: 0, bytes: 0 }
+
+  // Level-order walk so a truncated list still covers the top of the tree
+  let level = tree || []
+  while (level.length > 0) {
+    const next = []
+    for (const entry of level) {
+      const isDirectory = entry.type === "directory"
+      const result = candidate.match(entry.path, isDirectory)
+
+      if (result.excluded) {
+        const alreadyExcluded = current.match(entry.path, isDirectory).excluded
+        const bytes = isDirectory ? 0 : entry.size || 0
+        for (const totals of alreadyExcluded ? [total] : [total, added]) {
+          totals[isDirectory ? "directories" : "files"]++
+          totals.bytes += bytes
+        }
+
+        if (matches.length < max) {
+          matches.push({
+            path: entry.path,
+            type: entry.type,
+            ...(isDirectory ? {} : { size: entry.size }),
+            pattern: result.pattern,
+            alreadyExcluded,
+          })
+        }
+      }
+
+      if (entry.children) next.push(...entry.children)
+    }
+    level = next
+  }
+
+  return {
+    matches,
+    truncated: matches.length < total.files + total.directories,
+    total,
+    added,
+  }
+}
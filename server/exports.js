@@ -0,0 +1,197 @@
+/**
+ * LHI Directory Monitor - Exports
+ *
+ * Manifest and change history downloads as JSON, CSV or NDJSON. Each export
+ * is an async generator of text chunks that the route pipes into the
+ * response, so a large export is written as it is produced - nothing builds
+ * the whole document (or a filtered copy of the tree) in memory.
+ *
+ * Manifest shapes:
+ *   flat   - one row per file: path, size, modified
+ *   nested - the tree: JSON nests children in their directory; CSV and
+ *            NDJSON list directories and files depth-first with a depth column
+ * Directory rows carry the manifest's fileCount / dirCount / totalSize
+ * rollups, which count everything in the directory, filtered out or not.
+ */
+
+import { relativeTo } from "./changelog.js"
+
+export const EXPORT_FORMATS = ["json", "csv", "ndjson"]
+export const EXPORT_SHAPES = ["flat", "nested"]
+
+export const CONTENT_TYPES = {
+  json: "application/json; charset=utf-8",
+  csv: "text/csv; charset=utf-8",
+  ndjson: "application/x-ndjson; charset=utf-8",
+}
+
+// Rows collected into one chunk before it is handed to the response
+const CHUNK_ROWS = 500
+
+const FLAT_COLUMNS = ["path", "size", "modified"]
+const NESTED_COLUMNS = ["path", "type", "depth", "size", "modified", "fileCount", "dirCount", "totalSize"]
+const HISTORY_COLUMNS = ["timestamp", "time", "kind", "path", "oldPath", "isDirectory"]
+
+// Helper: One CSV field - quoted when it contains a delimiter, quote or line break
+function csvField(value) {
+  if (value === null || value === undefined) return ""
+  const text = String(value)
+  return /[",\r\n]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text
+}
+
+// Helper: Format a stream of row objects as the requested format, in chunks
+async function* formatRows(rows, format, columns) {
+  let chunk = []
+  let first = true
+
+  if (format === "csv") yield `${columns.join(",")}\n`
+  if (format === "json") yield "["
+
+  for await (const row of rows) {
+    if (format === "csv") {
+      chunk.push(`${columns.map((c) => csvField(row[c])).join(",")}\n`)
+    } else if (format === "ndjson") {
+      chunk.push(`${JSON.stringify(row)}\n`)
+    } else {
+      chunk.push(`${first ? "" : ","}\n${JSON.stringify(row)}`)
+      first = false
+    }
+    if (chunk.length >= CHUNK_ROWS) {
+      yield chunk.join("")
+      chunk = []
+    }
+  }
+
+  if (chunk.length > 0) yield chunk.join("")
+  if (format === "json") yield first ? "]\n" : "\n]\n"
+}
+
+// Helper: Directories (by path) with at least one included file below them
+function directoriesWithFiles(files, include) {
+  const directories = new Set()
+  for (const file of files) {
+    if (!include(file)) continue
+    let slash = file.path.lastIndexOf("/")
+    while (slash > 0) {
+      const dir = file.path.slice(0, slash)
+      if (directories.has(dir)) break
+      directories.add(dir)
+      slash = dir.lastIndexOf("/")
+    }
+  }
+  return directories
+}
+
+// Helper: Export fields of a tree entry at `depth`
+function entryRow(entry, depth) {
+  return entry.type === "directory"
+    ? {
+        path: entry.path,
+        type: "directory",
+        depth,
+        fileCount: entry.fileCount,
+        dirCount: entry.dirCount,
+        totalSize: entry.totalSize,
+      }
+    : { path: entry.path, type: "file", depth, size: entry.size, modified: entry.modified }
+}
+
+// Helper: Tree entries depth-first, skipping files that aren't included and
+// directories without any included file
+function* walkTree(entries, include, keep, depth = 0) {
+  for (const entry of entries) {
+    if (entry.type === "directory") {
+      if (keep && !keep.has(entry.path)) continue
+      yield entryRow(entry, depth)
+      yield* walkTree(entry.children || [], include, keep, depth + 1)
+    } else if (include(entry)) {
+      yield entryRow(entry, depth)
+    }
+  }
+}
+
+// Helper: Nested JSON for a tree level, children inside their directory
+function* nestedJson(entries, include, keep, indent = "") {
+  let first = true
+  for (const entry of entries) {
+    if (entry.type === "directory" ? keep && !keep.has(entry.path) : !include(entry)) continue
+
+    const { depth: _depth, ...row } = entryRow(entry, 0)
+    const fields = JSON.stringify(row)
+    yield `${first ? "" : ","}\n${indent}  `
+    first = false
+    if (entry.type === "directory") {
+      yield `${fields.slice(0, -1)},"children":[`
+      yield* nestedJson(entry.children || [], include, keep, `${indent}  `)
+      yield "]}"
+    } else {
+      yield fields
+    }
+  }
+  if (!first) yield `\n${indent}`
+}
+
+// Helper: Batch many small strings into larger chunks
+async function* batched(strings) {
+  let chunk = []
+  for await (const text of strings) {
+    chunk.push(text)
+    if (chunk.length >= CHUNK_ROWS) {
+      yield chunk.join("")
+      chunk = []
+    }
+  }
+  if (chunk.length > 0) yield chunk.join("")
+}
+
+/**
+ * Export a parsed manifest
+ * include(file) decides which files are exported (search and exclude filters);
+ * `filtered` says whether it can leave anything out, so directories without
+ * included files are only looked for when needed.
+ * Returns an async iterable of text chunks
+ */
+export function exportManifest(parsed, { format, shape, include = () => true, filtered = false }) {
+  if (shape === "flat") {
+    const rows = (function* () {
+      for (const file of parsed.files) {
+        if (include(file)) yield { path: file.path, size: file.size, modified: file.modified }
+      }
+    })()
+    return formatRows(rows, format, FLAT_COLUMNS)
+  }
+
+  const keep = filtered ? directoriesWithFiles(parsed.files, include) : null
+  if (format === "json") {
+    return batched(
+      (function* () {
+        yield "["
+        yield* nestedJson(parsed.tree, include, keep)
+        yield "]\n"
+      })()
+    )
+  }
+  return formatRows(walkTree(parsed.tree, include, keep), format, NESTED_COLUMNS)
+}
+
+/**
+ * Export change events (from streamChangeEvents) of the directory `watchPath`, in their order
+ * path and oldPath are relative to the directory (oldPath stays absolute if it was outside it)
+ * Returns an async iterable of text chunks
+ */
+export function exportChangeHistory(events, { format, watchPath, include = () => true }) {
+  const rows = (async function* () {
+    for await (const event of events) {
+      if (!include(event)) continue
+      yield {
+        timestamp: event.timestamp,
+        time: event.time,
+        kind: event.kind,
+        path: event.path,
+        oldPath: event.oldPath == null ? null : (relativeTo(watchPath, event.oldPath) ?? event.oldPath),
+        isDirectory: event.isDirectory ?? false,
+      }
+    }
+  })()
+  return formatRows(rows, format, HISTORY_COLUMNS)
+}
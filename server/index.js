@@ -5,19 +5,70 @@
  * - Monitor daemon control (start/stop/status)
  * - Manifest file reading
  * - Exclude pattern management
+ * - Live updates over Server-Sent Events
  *
  * Port: 7014
  */
 
 import express from "express"
 import cors from "cors"
-import { spawn, exec } from "child_process"
+import { execFile } from "child_process"
 import { promisify } from "util"
+import { Readable } from "stream"
+import { pipeline } from "stream/promises"
 import fs from "fs/promises"
 import path from "path"
 import { fileURLToPath } from "url"
-
-const execAsync = promisify(exec)
+import { createEventStream } from "./events.js"
+import {
+  readExcludes,
+  addExclude,
+  removeExclude,
+  replaceExcludes,
+  createFromGitignore,
+  previewExcludes,
+  ExcludesError,
+} from "./excludes.js"
+import { createMatcher } from "../shared/excludeMatcher.js"
+import { createSnapshotStore, DEFAULT_RETENTION } from "./snapshots.js"
+import { readChangeHistory, readChangeEvents, streamChangeEvents } from "./changelog.js"
+import { queryManifest, createFileFilter } from "./manifestQuery.js"
+import {
+  exportManifest,
+  exportChangeHistory,
+  EXPORT_FORMATS,
+  EXPORT_SHAPES,
+  CONTENT_TYPES,
+} from "./exports.js"
+import { manifestUsage } from "./manifestUsage.js"
+import { parseManifest } from "./manifestFormat.js"
+import { createWatcherBackends, BACKEND_NAMES, BackendError } from "./watcherBackends.js"
+import { createSupervisor } from "./supervisor.js"
+import { createWatchdog } from "./watchdog.js"
+import { resolveSettings, validateSettings, SettingsError } from "./monitorSettings.js"
+import { parseTokens, createAuth } from "./auth.js"
+import {
+  createAlertStore,
+  validateRules,
+  resolveRules,
+  matchEventRules,
+  checkGrowth,
+  ALERT_STATES,
+  AlertError,
+} from "./alerts.js"
+import { createJobRunner, DEFAULT_JOB_TIMEOUT } from "./jobs.js"
+import {
+  PathError,
+  validateDirectoryPath,
+  directoryFromParam,
+  parseRoots,
+  createPathSandbox,
+  checkNewDirectory,
+} from "./paths.js"
+import { listSubdirectories, breadcrumbsFor } from "./directoryBrowser.js"
+
+// External programs always get an argument vector - never a shell command line
+const execFileAsync = promisify(execFile)
 
 const __filename = fileURLToPath(import.meta.url)
 const __dirname = path.dirname(__filename)
@@ -26,13 +77,13 @@ const app = express()
 const PORT = process.env.PORT || 7014
 
 // Paths
-const MONITOR_DIR = path.resolve(
-  __dirname,
-  "../../lhi_node_modules/lhi_directory_monitor"
-)
-const DAEMON_SCRIPT = path.join(MONITOR_DIR, "src/lhi_directory_monitor_daemon.sh")
+// LHI_MONITOR_DIR overrides where the core module's scripts are (the tests point it at stand-ins)
+const MONITOR_DIR = process.env.LHI_MONITOR_DIR
+  ? path.resolve(process.env.LHI_MONITOR_DIR)
+  : path.resolve(__dirname, "../../lhi_node_modules/lhi_directory_monitor")
 const STATUS_SCRIPT = path.join(MONITOR_DIR, "src/lhi_directory_monitor_status.sh")
 const REGISTRY_SCRIPT = path.join(MONITOR_DIR, "src/lhi_directory_monitor_registry.sh")
+const LOGS_DIR = path.join(MONITOR_DIR, "logs")
 
 // Registry file location - cross-platform
 // macOS: ~/Library/Application Support/LHI/DirectoryMonitor/registry.json
@@ -48,18 +99,113 @@ const REGISTRY_FILE = path.join(
 // No hardcoded paths - path independence is mandatory
 const DEFAULT_WATCHED_PATH = process.env.LHI_SCRIPTS_ROOT || null
 
-app.use(cors())
+// Directories the backend may read from or run monitors on
+// LHI_ALLOWED_ROOTS: ":"-separated list of roots (default: LHI_SCRIPTS_ROOT)
+const pathSandbox = createPathSandbox({
+  roots: parseRoots(process.env.LHI_ALLOWED_ROOTS ?? DEFAULT_WATCHED_PATH),
+})
+
+// API tokens - LHI_API_TOKENS: comma-separated "token:role" (viewer or operator); unset = open API
+const auth = createAuth({ tokens: parseTokens(process.env.LHI_API_TOKENS) })
+
+// Origins browsers may call the API from - LHI_CORS_ORIGINS: comma-separated, "*" for any
+// (default: the standalone UI's dev server, see src/config/ports.ts; the nginx proxy is same-origin)
+const CORS_ORIGINS = (process.env.LHI_CORS_ORIGINS ?? "http://localhost:7015,http://127.0.0.1:7015")
+  .split(",")
+  .map((origin) => origin.trim())
+  .filter(Boolean)
+
+// Monitor processes started by this backend (PID + process group per directory) - next to the registry file
+// Monitors that exit on their own are handed to the watchdog
+const supervisor = createSupervisor({
+  stateFile: path.join(path.dirname(REGISTRY_FILE), "supervisor.json"),
+  onExit: (watchPath, exit) => watchdog.exited(watchPath, exit),
+})
+// How often monitors started before this backend did are checked for having exited
+const WATCHDOG_INTERVAL = 10000
+
+// Watcher backends ("script" or the built-in "native"), chosen per directory in the registry
+const watcherBackends = createWatcherBackends({ monitorDir: MONITOR_DIR, logsDir: LOGS_DIR, supervisor })
+
+// Restarts crashed monitors with backoff and tracks each directory's health
+const watchdog = createWatchdog({
+  restart: async (watchPath) => {
+    // Unregistered since it crashed - leave it stopped
+    if (!(await readRegistry()).some((m) => m.directory === watchPath)) return false
+    const backend = await backendFor(watchPath)
+    if (!(await backend.status(watchPath)).running) {
+      await backend.start(watchPath, await settingsFor(watchPath))
+    }
+  },
+})
+
+// Parsed manifests by watch path: { mtimeMs, size, parsed } (see readManifest)
+const manifestCache = new Map()
+
+// Most tree levels one /api/manifest-children request may ask for
+const MAX_CHILDREN_DIRS = 500
+
+// Manifest snapshot history - stored next to the registry file
+// LHI_SNAPSHOT_RETENTION: snapshots kept per directory
+const snapshotStore = createSnapshotStore({
+  baseDir: path.join(path.dirname(REGISTRY_FILE), "snapshots"),
+  retention: parseInt(process.env.LHI_SNAPSHOT_RETENTION, 10) || DEFAULT_RETENTION,
+})
+// How often registered directories are checked for a new manifest to snapshot
+const SNAPSHOT_INTERVAL = 60000
+
+// Live updates for GET /api/events (shares the helpers used by the REST endpoints)
+const eventStream = createEventStream({
+  listDirectories: async () => (await readRegistry()).map((m) => m.directory),
+  getStatuses: getDirectoryStatuses,
+  getRecentChanges: readRecentChanges,
+  getManifestMtime,
+})
+
+// Manifest refreshes run as background jobs, reported over the event stream
+// LHI_REFRESH_TIMEOUT: seconds a refresh may run before it is stopped (default 600)
+const jobRunner = createJobRunner({
+  timeout: parseInt(process.env.LHI_REFRESH_TIMEOUT, 10) * 1000 || DEFAULT_JOB_TIMEOUT,
+  onUpdate: (job) => eventStream.publish("job", job),
+})
+
+// Alerts raised by each directory's alert rules (see alerts.js) - stored next to the registry file
+// Every change is pushed over the event stream with the new counts, for the directory tabs
+const alertStore = createAlertStore({
+  stateFile: path.join(path.dirname(REGISTRY_FILE), "alerts.json"),
+  onChange: (watchPath) => {
+    alertStore
+      .counts()
+      .then((counts) => eventStream.publish("alerts", { directory: watchPath, counts }))
+      .catch((error) => console.error("Alert counts error:", error.message))
+  },
+})
+// How often alert rules are checked against new change events and manifests
+const ALERT_INTERVAL = 5000
+
+app.use(cors({ origin: CORS_ORIGINS.includes("*") ? true : CORS_ORIGINS }))
 app.use(express.json())
 
-// Helper: Normalize path from URL parameter
-// nginx proxy may decode %2F to / and strip leading /, so we need to handle both cases
-function normalizePathParam(encodedPath) {
-  let watchPath = decodeURIComponent(encodedPath)
-  // Ensure absolute path (nginx proxy may strip leading /)
-  if (!watchPath.startsWith("/")) {
-    watchPath = "/" + watchPath
+// Per-directory routes (/api/<endpoint>/<directory>): the directory must be a valid path
+// (see paths.js), inside the allowed roots and registered. The route gets it as req.watchPath.
+async function requireDirectory(req, res, next) {
+  try {
+    req.watchPath = await registeredDirectory(directoryFromParam(req.params[0]), await readRegistry())
+    next()
+  } catch (error) {
+    sendPathError(res, error, "Directory check error")
   }
-  return watchPath
+}
+
+// Helper: A validated directory path as registered - throws a 403 PathError when it is outside
+// the allowed roots or not in `registry`. Returns the registry's spelling, so lookups by directory match.
+async function registeredDirectory(watchPath, registry) {
+  await pathSandbox.check(watchPath)
+  const entry = registry.find((m) => path.resolve(m.directory) === watchPath)
+  if (!entry) {
+    throw new PathError(`Access denied: ${watchPath} is not a registered directory`, 403)
+  }
+  return entry.directory
 }
 
 // Health check (both paths for direct access and nginx proxy)
@@ -71,6 +217,14 @@ app.get("/health", (req, res) => {
   res.json({ status: "ok", service: "lhi-directory-monitor-backend", port: PORT })
 })
 
+// Whether the API needs a token, and the role of the one sent (null if none or unknown)
+app.get("/api/auth", (req, res) => {
+  res.json({ authRequired: auth.required, role: auth.identify(req) })
+})
+
+// Everything below needs a token (when tokens are configured); viewers can only GET
+app.use("/api", auth.authenticate)
+
 // ============================================================
 // REGISTRY API ENDPOINTS
 // ============================================================
@@ -79,24 +233,8 @@ app.get("/health", (req, res) => {
 app.get("/api/registry", async (req, res) => {
   try {
     // Read registry file directly (faster than calling bash script)
-    try {
-      await fs.access(REGISTRY_FILE)
-      const content = await fs.readFile(REGISTRY_FILE, "utf-8")
-      const registry = JSON.parse(content)
-
-      // Convert to array format for easier UI consumption
-      const monitors = Object.entries(registry.monitors || {}).map(([dir, data]) => ({
-        directory: dir,
-        manifest: data.manifest,
-        lastUpdate: data.last_update,
-        lastUpdateEst: data.last_update_est,
-      }))
-
-      res.json({ monitors })
-    } catch {
-      // Registry doesn't exist yet
-      res.json({ monitors: [] })
-    }
+    const monitors = await readRegistry()
+    res.json({ monitors })
   } catch (error) {
     console.error("Registry read error:", error)
     res.status(500).json({ error: error.message })
@@ -106,24 +244,16 @@ app.get("/api/registry", async (req, res) => {
 // Add a directory to registry
 app.post("/api/registry/add", async (req, res) => {
   try {
-    const { directory } = req.body
+    const directory = validateDirectoryPath(req.body?.directory)
+    await pathSandbox.check(directory)
 
-    if (!directory) {
-      return res.status(400).json({ error: "Directory path is required" })
-    }
-
-    // Verify directory exists
-    try {
-      await fs.access(directory)
-    } catch {
-      return res.status(400).json({ error: `Directory does not exist: ${directory}` })
-    }
+    // A readable directory, not registered and not overlapping a registered one
+    await checkNewDirectory(directory, (await readRegistry()).map((m) => m.directory))
 
     // Call the registry script to add the directory
-    const { stdout, stderr } = await execAsync(
-      `bash "${REGISTRY_SCRIPT}" add "${directory}"`,
-      { cwd: MONITOR_DIR }
-    )
+    const { stdout } = await execFileAsync("bash", [REGISTRY_SCRIPT, "add", directory], {
+      cwd: MONITOR_DIR,
+    })
 
     res.json({
       success: true,
@@ -131,25 +261,68 @@ app.post("/api/registry/add", async (req, res) => {
       output: stdout
     })
   } catch (error) {
-    console.error("Registry add error:", error)
-    res.status(500).json({ error: error.message })
+    sendPathError(res, error, "Registry add error")
+  }
+})
+
+// Subdirectories for the Add Directory picker: ?path=<dir>&q=<name prefix>&hidden=1
+// Without a path, lists the allowed roots. Paths are confined to the roots like everywhere else.
+app.get("/api/browse", async (req, res) => {
+  try {
+    const registered = new Set((await readRegistry()).map((m) => m.directory))
+    if (!req.query.path) {
+      return res.json({
+        path: null,
+        parent: null,
+        breadcrumbs: [],
+        entries: pathSandbox.roots.map((root) => ({
+          name: root,
+          path: root,
+          symlink: false,
+          registered: registered.has(root),
+        })),
+        truncated: false,
+      })
+    }
+
+    const dir = validateDirectoryPath(req.query.path)
+    await pathSandbox.check(dir)
+    const { entries, truncated } = await listSubdirectories(dir, {
+      query: typeof req.query.q === "string" ? req.query.q : "",
+      includeHidden: req.query.hidden === "1",
+    })
+    const breadcrumbs = breadcrumbsFor(dir, pathSandbox.roots)
+
+    res.json({
+      path: dir,
+      // Up stops at the root
+      parent: breadcrumbs.length > 1 ? breadcrumbs.at(-2).path : null,
+      breadcrumbs,
+      entries: entries.map((entry) => ({ ...entry, registered: registered.has(entry.path) })),
+      truncated,
+    })
+  } catch (error) {
+    sendPathError(res, error, "Browse error")
   }
 })
 
 // Remove a directory from registry
 app.post("/api/registry/remove", async (req, res) => {
   try {
-    const { directory } = req.body
+    const directory = validateDirectoryPath(req.body?.directory)
 
-    if (!directory) {
-      return res.status(400).json({ error: "Directory path is required" })
-    }
+    // Stop its monitor and refresh jobs first - once it is unregistered, the watchdog and
+    // the status views no longer know about them
+    jobRunner.cancel(directory)
+    await stopMonitor(directory)
 
     // Call the registry script to remove the directory
-    const { stdout, stderr } = await execAsync(
-      `bash "${REGISTRY_SCRIPT}" remove-direct "${directory}"`,
-      { cwd: MONITOR_DIR }
-    )
+    const { stdout } = await execFileAsync("bash", [REGISTRY_SCRIPT, "remove-direct", directory], {
+      cwd: MONITOR_DIR,
+    })
+    manifestCache.delete(directory)
+    watchdog.forget(directory)
+    await alertStore.forget(directory)
 
     res.json({
       success: true,
@@ -157,22 +330,94 @@ app.post("/api/registry/remove", async (req, res) => {
       output: stdout
     })
   } catch (error) {
-    console.error("Registry remove error:", error)
+    sendPathError(res, error, "Registry remove error")
+  }
+})
+
+// Update a registered directory's settings
+// Body: { backend?: "script" | "native", autostart?: boolean, settings?: { ... }, alertRules?: [...] } -
+// switching backends requires the monitor to be stopped; settings (see monitorSettings.js) are merged
+// into the stored ones and apply from the next start - on the script backend only verbose is accepted; alertRules (see alerts.js) replace the stored ones
+app.patch("/api/registry/*", requireDirectory, async (req, res) => {
+  try {
+    const watchPath = req.watchPath
+    const { backend, autostart, settings, alertRules } = req.body || {}
+    const changes = {}
+    if (backend !== undefined) {
+      if (!BACKEND_NAMES.includes(backend)) {
+        return res.status(400).json({ error: `backend must be one of: ${BACKEND_NAMES.join(", ")}` })
+      }
+      changes.backend = backend
+    }
+    if (autostart !== undefined) {
+      if (typeof autostart !== "boolean") {
+        return res.status(400).json({ error: "autostart must be true or false" })
+      }
+      changes.autostart = autostart
+    }
+    if (settings !== undefined) {
+      const backendName = changes.backend ?? (await backendFor(watchPath)).name
+      changes.settings = { ...(await settingsFor(watchPath)), ...validateSettings(settings, backendName) }
+    }
+    if (alertRules !== undefined) {
+      changes.alertRules = validateRules(alertRules)
+    }
+    if (Object.keys(changes).length === 0) {
+      return res.status(400).json({ error: "Nothing to change - send backend, autostart, settings and/or alertRules" })
+    }
+
+    if (changes.backend && (await getDirectoryStatus(watchPath)).running) {
+      return res.status(409).json({ error: "Stop the monitor before switching backends" })
+    }
+    if (!(await updateRegistryEntry(watchPath, changes))) {
+      return res.status(404).json({ error: `Directory is not registered: ${watchPath}` })
+    }
+
+    const described = [
+      changes.backend && `uses the ${changes.backend} backend`,
+      changes.autostart !== undefined && `${changes.autostart ? "starts" : "doesn't start"} with the backend`,
+      changes.settings && "has new monitor settings (applied on the next start)",
+      changes.alertRules &&
+        `has ${changes.alertRules.length} alert rule${changes.alertRules.length === 1 ? "" : "s"}`,
+    ].filter(Boolean)
+    res.json({ success: true, message: `${watchPath} now ${described.join(" and ")}`, alertRules: changes.alertRules })
+  } catch (error) {
+    if (error instanceof SettingsError || error instanceof AlertError) {
+      return res.status(error.status).json({ error: error.message })
+    }
+    console.error("Registry update error:", error)
+    res.status(500).json({ error: error.message })
+  }
+})
+
+// Outcome of starting the autostart directories when the backend came up (null until it has run)
+app.get("/api/autostart", (req, res) => {
+  res.json(autostartReport)
+})
+
+// List watcher backends and whether each can run here
+app.get("/api/backends", async (req, res) => {
+  try {
+    res.json({ backends: await watcherBackends.list(), default: await watcherBackends.defaultName() })
+  } catch (error) {
+    console.error("Backend list error:", error)
     res.status(500).json({ error: error.message })
   }
 })
 
 // Get manifest for a specific directory (dynamic path)
 // Uses wildcard (*) to capture the entire path including slashes when nginx decodes them
-app.get("/api/manifest/*", async (req, res) => {
+app.get("/api/manifest/*", requireDirectory, async (req, res) => {
   try {
-    const watchPath = normalizePathParam(req.params[0])
-    const manifestPath = path.join(watchPath, ".lhi_manifest")
+    const watchPath = req.watchPath
 
-    // Check if manifest exists
-    try {
-      await fs.access(manifestPath)
-    } catch {
+    // Check if manifest exists (and whether the client already has this version)
+    const stats = await statManifest(watchPath)
+    if (stats && manifestNotModified(req, res, stats)) {
+      return res.status(304).end()
+    }
+    const parsed = stats && (await readManifest(watchPath, stats))
+    if (!parsed) {
       return res.json({
         directory: watchPath,
         timestamp: null,
@@ -183,260 +428,537 @@ app.get("/api/manifest/*", async (req, res) => {
       })
     }
 
-    const content = await fs.readFile(manifestPath, "utf-8")
-    const parsed = parseTextManifest(content)
+    // Record a history snapshot if this manifest is new (don't hold up the response)
+    recordSnapshot(watchPath, parsed).catch((error) => {
+      console.error("Snapshot error:", error.message)
+    })
 
-    res.json({
+    const summary = {
       directory: parsed.directory || watchPath,
+      format: parsed.format,
+      version: parsed.version,
       timestamp: parsed.timestamp || new Date().toISOString(),
       total_files: parsed.total_files || 0,
       total_directories: parsed.total_directories || 0,
-      tree: parsed.tree || [],
-    })
+    }
+    // ?tree=false skips the full tree (the UI loads it a level at a time from /manifest-children)
+    res.json(req.query.tree === "false" ? summary : { ...summary, tree: parsed.tree || [] })
   } catch (error) {
     console.error("Manifest read error:", error)
     res.status(500).json({ error: error.message })
   }
 })
 
-// Get excludes for a specific directory
-// PRIORITY ORDER (matches lhi_directory_monitor_utils.sh):
-// 1. .lhi_excludes - Single source of truth for all LHI tools including Mutagen
-// 2. .gitignore - Standard git ignore (fallback)
-app.get("/api/excludes/*", async (req, res) => {
+// One level of the manifest tree, for lazily loaded tree views
+// Query: ?dir=<path relative to the watch path> - repeatable; omitted or "" = top level
+// Returns { timestamp, children: { [dir]: entries } } - entries keep their
+// fileCount/dirCount/totalSize rollups but not their own children; unknown dirs are left out
+app.get("/api/manifest-children/*", requireDirectory, async (req, res) => {
   try {
-    const watchPath = normalizePathParam(req.params[0])
+    const watchPath = req.watchPath
+    const dirs = req.query.dir === undefined ? [""] : [].concat(req.query.dir).map(String)
+    if (dirs.length > MAX_CHILDREN_DIRS) {
+      return res.status(400).json({ error: `At most ${MAX_CHILDREN_DIRS} directories per request` })
+    }
 
-    // PRIORITY 1: .lhi_excludes - Single source of truth (Mutagen-aligned patterns)
-    const excludePath = path.join(watchPath, ".lhi_excludes")
-    try {
-      await fs.access(excludePath)
-      const content = await fs.readFile(excludePath, "utf-8")
-      return res.json({ patterns: parseExcludes(content), source: ".lhi_excludes" })
-    } catch {
-      // Not found, try next priority
+    const stats = await statManifest(watchPath)
+    if (stats && manifestNotModified(req, res, stats)) {
+      return res.status(304).end()
+    }
+    const parsed = stats && (await readManifest(watchPath, stats))
+    if (!parsed) {
+      return res.status(404).json({ error: "No manifest file found. Click Refresh to generate one." })
     }
 
-    // PRIORITY 2: Standard .gitignore (fallback)
-    const gitignorePath = path.join(watchPath, ".gitignore")
-    try {
-      await fs.access(gitignorePath)
-      const content = await fs.readFile(gitignorePath, "utf-8")
-      return res.json({ patterns: parseExcludes(content), source: ".gitignore" })
-    } catch {
-      return res.json({ patterns: [], source: null })
+    const children = {}
+    for (const dir of dirs) {
+      const level = findTreeLevel(parsed.tree, dir)
+      if (level) {
+        children[dir] = level.map(({ children: _children, ...entry }) => entry)
+      }
     }
+    res.json({ timestamp: parsed.timestamp, children })
   } catch (error) {
-    console.error("Excludes read error:", error)
+    console.error("Manifest children error:", error)
     res.status(500).json({ error: error.message })
   }
 })
 
-// Refresh manifest for a specific directory
-app.post("/api/refresh/*", async (req, res) => {
+// Disk usage of a directory in the manifest (see server/manifestUsage.js)
+// Query: ?dir=<path relative to the watch path> (omitted or "" = the whole tree)&depth=&top=
+app.get("/api/manifest-usage/*", requireDirectory, async (req, res) => {
   try {
-    const watchPath = normalizePathParam(req.params[0])
-    const monitorScript = path.join(MONITOR_DIR, "src/lhi_directory_monitor.sh")
+    const watchPath = req.watchPath
+    const dir = req.query.dir ? String(req.query.dir) : ""
 
-    const child = spawn("bash", [monitorScript, "-d", watchPath], {
-      cwd: MONITOR_DIR,
-      detached: true,
-      stdio: "ignore",
+    const stats = await statManifest(watchPath)
+    if (stats && manifestNotModified(req, res, stats)) {
+      return res.status(304).end()
+    }
+    const parsed = stats && (await readManifest(watchPath, stats))
+    if (!parsed) {
+      return res.status(404).json({ error: "No manifest file found. Click Refresh to generate one." })
+    }
+
+    const level = findTreeLevel(parsed.tree, dir)
+    if (!level) {
+      return res.status(404).json({ error: `Not a directory in the manifest: ${dir}` })
+    }
+    res.json({
+      timestamp: parsed.timestamp,
+      dir,
+      ...manifestUsage(level, { depth: req.query.depth, top: req.query.top }),
     })
+  } catch (error) {
+    console.error("Manifest usage error:", error)
+    res.status(500).json({ error: error.message })
+  }
+})
 
-    // Wait for the manifest to be generated
-    await new Promise((resolve) => setTimeout(resolve, 5000))
+// Search the manifest by name and facets (see server/manifestQuery.js)
+// Query: ?q=<substring or glob>&ext=ts,tsx&minSize=&maxSize=&since=&until=&limit=
+app.get("/api/manifest-search/*", requireDirectory, async (req, res) => {
+  try {
+    const watchPath = req.watchPath
+    const { options, error } = parseSearchQuery(req.query)
+    if (error) {
+      return res.status(400).json({ error })
+    }
 
-    // Kill the monitor since we only wanted the initial manifest
-    try {
-      process.kill(-child.pid, "SIGTERM")
-    } catch (e) {
-      // Process may have already exited
+    const stats = await statManifest(watchPath)
+    if (stats && manifestNotModified(req, res, stats)) {
+      return res.status(304).end()
+    }
+    const parsed = stats && (await readManifest(watchPath, stats))
+    if (!parsed) {
+      return res.status(404).json({ error: "No manifest file found. Click Refresh to generate one." })
     }
 
-    res.json({ success: true, message: "Manifest refreshed" })
+    res.json(queryManifest(parsed.files, { ...options, limit: req.query.limit }))
   } catch (error) {
-    console.error("Refresh error:", error)
+    console.error("Manifest search error:", error)
     res.status(500).json({ error: error.message })
   }
 })
 
-// Get monitor status for a specific directory
-app.get("/api/status/*", async (req, res) => {
+// Download the manifest as JSON, CSV or NDJSON (see server/exports.js), streamed
+// Query: ?format=json|csv|ndjson&shape=flat|nested, the /manifest-search filters
+// (q, ext, minSize, maxSize, since, until), and excluded=1 to keep entries the
+// directory's exclude patterns leave out
+app.get("/api/manifest-export/*", requireDirectory, async (req, res) => {
   try {
-    const watchPath = normalizePathParam(req.params[0])
+    const watchPath = req.watchPath
+    const format = req.query.format ? String(req.query.format) : "json"
+    const shape = req.query.shape ? String(req.query.shape) : "flat"
+    if (!EXPORT_FORMATS.includes(format)) {
+      return res.status(400).json({ error: `format must be one of: ${EXPORT_FORMATS.join(", ")}` })
+    }
+    if (!EXPORT_SHAPES.includes(shape)) {
+      return res.status(400).json({ error: `shape must be one of: ${EXPORT_SHAPES.join(", ")}` })
+    }
+    const { options, error } = parseSearchQuery(req.query)
+    if (error) {
+      return res.status(400).json({ error })
+    }
+
+    const parsed = await readManifest(watchPath)
+    if (!parsed) {
+      return res.status(404).json({ error: "No manifest file found. Click Refresh to generate one." })
+    }
+
+    const excluded = req.query.excluded === "1" ? null : await excludeMatcherFor(watchPath)
+    const searching = SEARCH_PARAMS.some((name) => req.query[name] !== undefined)
+    const testFile = createFileFilter(options)
+    const include = (file) => !excluded?.match(file.path).excluded && testFile(file) !== false
 
-    // Check if directory monitor is running (cross-platform: fswatch on macOS, inotifywait on Linux)
-    // Also check for the daemon script directly
-    const watchTool = process.platform === "darwin" ? "fswatch" : "inotifywait"
-    const { stdout } = await execAsync(
-      `pgrep -f "(${watchTool}.*${watchPath}|lhi_directory_monitor.*${watchPath})" || true`
+    await sendExport(
+      res,
+      exportManifest(parsed, { format, shape, include, filtered: Boolean(excluded) || searching }),
+      format,
+      `${exportName(watchPath)}-manifest`
     )
-    const pids = stdout.trim().split("\n").filter(Boolean)
-    const running = pids.length > 0
+  } catch (error) {
+    console.error("Manifest export error:", error)
+    if (res.headersSent) return res.destroy()
+    res.status(500).json({ error: error.message })
+  }
+})
 
-    let uptime = null
-    if (running && pids[0]) {
-      try {
-        const { stdout: psOut } = await execAsync(`ps -p ${pids[0]} -o etime= || true`)
-        uptime = psOut.trim()
-      } catch (e) {
-        // Ignore
-      }
+// List manifest history snapshots for a directory (newest first)
+app.get("/api/snapshots/*", requireDirectory, async (req, res) => {
+  try {
+    const watchPath = req.watchPath
+    res.json({ snapshots: await snapshotStore.list(watchPath) })
+  } catch (error) {
+    console.error("Snapshot list error:", error)
+    res.status(500).json({ error: error.message })
+  }
+})
+
+// Diff two manifest snapshots: added, removed, modified and resized files
+// Query: ?from=<snapshot id>&to=<snapshot id>
+app.get("/api/snapshot-diff/*", requireDirectory, async (req, res) => {
+  try {
+    const watchPath = req.watchPath
+    const { from, to } = req.query
+    if (!from || !to) {
+      return res.status(400).json({ error: "from and to snapshot ids are required" })
     }
 
-    // Get manifest last modified time
-    const manifestPath = path.join(watchPath, ".lhi_manifest")
-    let lastManifestUpdate = null
-    try {
-      const stats = await fs.stat(manifestPath)
-      lastManifestUpdate = stats.mtime.toISOString()
-    } catch {
-      // No manifest
+    const diff = await snapshotStore.diff(watchPath, from, to)
+    if (!diff) {
+      return res.status(404).json({ error: "Snapshot not found" })
     }
+    res.json(diff)
+  } catch (error) {
+    console.error("Snapshot diff error:", error)
+    res.status(500).json({ error: error.message })
+  }
+})
+
+// Get excludes for a specific directory
+// PRIORITY ORDER (matches lhi_directory_monitor_utils.sh):
+// 1. .lhi_excludes - Single source of truth for all LHI tools including Mutagen
+// 2. .gitignore - Standard git ignore (fallback)
+app.get("/api/excludes/*", requireDirectory, async (req, res) => {
+  try {
+    const watchPath = req.watchPath
+    res.json(await readExcludes(watchPath))
+  } catch (error) {
+    console.error("Excludes read error:", error)
+    res.status(500).json({ error: error.message })
+  }
+})
+
+// Add an exclude pattern to .lhi_excludes
+// Body: { pattern: string, index?: number } - inserted before the pattern at index (default: append)
+app.post("/api/excludes/*", requireDirectory, async (req, res) => {
+  try {
+    const watchPath = req.watchPath
+    const { pattern, index } = req.body || {}
+    res.json(await addExclude(watchPath, pattern, index))
+  } catch (error) {
+    sendExcludesError(res, error)
+  }
+})
+
+// Replace all exclude patterns in .lhi_excludes (reorder / inline edit)
+// Body: { patterns: string[] } - comments and blank lines are kept in place
+app.put("/api/excludes/*", requireDirectory, async (req, res) => {
+  try {
+    const watchPath = req.watchPath
+    res.json(await replaceExcludes(watchPath, req.body?.patterns))
+  } catch (error) {
+    sendExcludesError(res, error)
+  }
+})
 
+// Remove an exclude pattern from .lhi_excludes
+// Body: { index: number, pattern?: string } - pattern guards against concurrent edits
+app.delete("/api/excludes/*", requireDirectory, async (req, res) => {
+  try {
+    const watchPath = req.watchPath
+    const { index, pattern } = req.body || {}
+    res.json(await removeExclude(watchPath, index, pattern))
+  } catch (error) {
+    sendExcludesError(res, error)
+  }
+})
+
+// Create .lhi_excludes from the directory's .gitignore
+app.post("/api/excludes-init/*", requireDirectory, async (req, res) => {
+  try {
+    const watchPath = req.watchPath
+    res.json(await createFromGitignore(watchPath))
+  } catch (error) {
+    sendExcludesError(res, error)
+  }
+})
+
+// Dry-run a candidate pattern list against the current manifest
+// Body: { patterns: string[], limit?: number } - nothing is written
+app.post("/api/excludes-preview/*", requireDirectory, async (req, res) => {
+  try {
+    const watchPath = req.watchPath
+    const { patterns, limit } = req.body || {}
+    if (!Array.isArray(patterns) || patterns.some((p) => typeof p !== "string")) {
+      return res.status(400).json({ error: "Patterns must be an array of strings" })
+    }
+
+    const parsed = await readManifest(watchPath)
+    if (!parsed) {
+      return res.status(404).json({ error: "No manifest file found. Click Refresh to generate one." })
+    }
+
+    const current = await readExcludes(watchPath)
+    res.json(previewExcludes(parsed.tree, patterns, current.patterns.map((p) => p.pattern), limit))
+  } catch (error) {
+    console.error("Exclude preview error:", error)
+    res.status(500).json({ error: error.message })
+  }
+})
+
+// Check whether a path is excluded, and by which pattern (like `git check-ignore -v`)
+// Query: ?path=relative/path&type=file|directory
+app.get("/api/check-exclude/*", requireDirectory, async (req, res) => {
+  try {
+    const watchPath = req.watchPath
+    const relPath = String(req.query.path || "")
+    if (!relPath) {
+      return res.status(400).json({ error: "path query parameter is required" })
+    }
+
+    const { patterns, source } = await readExcludes(watchPath)
+    const matcher = createMatcher(patterns.map((p) => p.pattern))
     res.json({
-      running,
-      pid: running ? parseInt(pids[0]) : null,
-      watchedPath: watchPath,
-      uptime,
-      lastManifestUpdate,
+      path: relPath,
+      source,
+      ...matcher.match(relPath, req.query.type === "directory"),
+    })
+  } catch (error) {
+    console.error("Exclude check error:", error)
+    res.status(500).json({ error: error.message })
+  }
+})
+
+// Refresh manifest for a specific directory
+// Starts a refresh job (202) - or returns the one already running - and reports it; see jobs.js
+app.post("/api/refresh/*", requireDirectory, async (req, res) => {
+  try {
+    const { job, existing } = await submitRefresh(req.watchPath)
+
+    res.status(202).json({
+      success: true,
+      message: existing ? "A refresh is already in progress" : "Refresh started",
+      job,
     })
+  } catch (error) {
+    console.error("Refresh error:", error)
+    res.status(500).json({ error: error.message })
+  }
+})
+
+// Background jobs, newest first (?directory= for one directory's)
+app.get("/api/jobs", (req, res) => {
+  const directory = typeof req.query.directory === "string" ? req.query.directory : undefined
+  res.json({ jobs: jobRunner.list({ key: directory }) })
+})
+
+// One background job: state, progress, error and captured stderr
+app.get("/api/jobs/:id", (req, res) => {
+  const job = jobRunner.get(req.params.id)
+  if (!job) {
+    return res.status(404).json({ error: `No such job: ${req.params.id}` })
+  }
+  res.json(job)
+})
+
+// Status of every registered directory's monitor, from one process scan
+app.get("/api/statuses", async (req, res) => {
+  try {
+    const directories = (await readRegistry()).map((m) => m.directory)
+    res.json({ statuses: Object.fromEntries(await getDirectoryStatuses(directories)) })
+  } catch (error) {
+    console.error("Statuses error:", error)
+    res.status(500).json({ error: error.message })
+  }
+})
+
+// Start, stop or refresh several directories: { directories?: string[] } (default: all registered)
+// Every directory is checked first (400 / 403 as for the per-directory routes, and nothing is
+// done); then each is acted on and gets its own result
+app.post("/api/bulk/:action", async (req, res) => {
+  const actions = { start: startMonitor, stop: stopMonitor, refresh: submitRefresh }
+  const act = actions[req.params.action]
+  if (!act) {
+    return res.status(404).json({
+      error: `Unknown bulk action: ${req.params.action} (expected start, stop or refresh)`,
+    })
+  }
+
+  try {
+    const registry = await readRegistry()
+    const requested = req.body?.directories
+    if (requested !== undefined && !Array.isArray(requested)) {
+      throw new PathError("directories must be an array of directory paths")
+    }
+    const directories = requested === undefined
+      ? registry.map((m) => m.directory)
+      : await Promise.all(requested.map((dir) => registeredDirectory(validateDirectoryPath(dir), registry)))
+
+    const results = await Promise.all(
+      [...new Set(directories)].map(async (directory) => {
+        try {
+          return { directory, success: true, ...(await act(directory)) }
+        } catch (error) {
+          return { directory, success: false, error: error.message }
+        }
+      })
+    )
+    res.json({ action: req.params.action, results })
+  } catch (error) {
+    sendPathError(res, error, "Bulk action error")
+  }
+})
+
+// Get monitor status for a specific directory
+app.get("/api/status/*", requireDirectory, async (req, res) => {
+  try {
+    const watchPath = req.watchPath
+    res.json(await getDirectoryStatus(watchPath))
   } catch (error) {
     console.error("Status check error:", error)
     res.json({
       running: false,
       pid: null,
-      watchedPath: normalizePathParam(req.params[0]),
+      watchedPath: req.watchPath,
       error: error.message,
     })
   }
 })
 
 // Get recent file changes for a directory (reads from log files or manifest mtime)
-app.get("/api/changes/*", async (req, res) => {
+app.get("/api/changes/*", requireDirectory, async (req, res) => {
   try {
-    const watchPath = normalizePathParam(req.params[0])
-    const logsDir = path.join(MONITOR_DIR, "logs")
-
-    // Get directory short name for log file matching
-    const dirName = path.basename(watchPath)
+    const watchPath = req.watchPath
 
-    // Find the most recent log directory for this watch path
-    let recentChanges = []
+    res.json({
+      recentChanges: await readRecentChanges(watchPath),
+      // Also return manifest modification time as a fallback indicator
+      manifestLastModified: await getManifestMtime(watchPath),
+    })
+  } catch (error) {
+    console.error("Changes read error:", error)
+    res.status(500).json({ error: error.message })
+  }
+})
 
-    try {
-      const logDirs = await fs.readdir(logsDir)
-
-      // Find log directories that match this directory name
-      const matchingDirs = logDirs.filter(d =>
-        d.startsWith("ldm_") && d.includes(dirName.toLowerCase().replace(/[^a-z0-9]/g, "_"))
-      )
-
-      if (matchingDirs.length > 0) {
-        // Sort by directory modification time to get most recent
-        const dirsWithStats = await Promise.all(
-          matchingDirs.map(async (d) => {
-            const stats = await fs.stat(path.join(logsDir, d))
-            return { name: d, mtime: stats.mtime }
-          })
-        )
-        dirsWithStats.sort((a, b) => b.mtime - a.mtime)
-        const latestDir = dirsWithStats[0].name
-        const logDirPath = path.join(logsDir, latestDir)
-
-        // Find log files in this directory
-        const logFiles = await fs.readdir(logDirPath)
-        const logFile = logFiles.find(f => f.endsWith(".log"))
-
-        if (logFile) {
-          const logContent = await fs.readFile(path.join(logDirPath, logFile), "utf-8")
-
-          // Extract change lines: [timestamp][fswatch] Change detected: filename
-          const lines = logContent.split("\n")
-          const changeLines = lines.filter(line =>
-            line.includes("[fswatch] Change detected:")
-          )
-
-          // Get last 5 changes
-          recentChanges = changeLines.slice(-5).map(line => {
-            const match = line.match(/\[([^\]]+)\]\[fswatch\] Change detected: (.+)/)
-            if (match) {
-              return {
-                timestamp: match[1],
-                file: match[2],
-              }
-            }
-            return null
-          }).filter(Boolean).reverse()
-        }
-      }
-    } catch (logError) {
-      console.log("Could not read logs:", logError.message)
+// Full change history across all of a directory's monitor logs, newest first
+// Query: ?cursor=&limit=50&since=&until=&path=<glob>&kind=a,b
+// since/until accept ISO dates or epoch ms
+app.get("/api/history/*", requireDirectory, async (req, res) => {
+  try {
+    const watchPath = req.watchPath
+    const { cursor, limit } = req.query
+    const { options, error } = parseHistoryQuery(req.query)
+    if (error) {
+      return res.status(400).json({ error })
     }
 
-    // Also get manifest modification time as a fallback indicator
-    const manifestPath = path.join(watchPath, ".lhi_manifest")
-    let manifestMtime = null
-    try {
-      const stats = await fs.stat(manifestPath)
-      manifestMtime = stats.mtime.toISOString()
-    } catch {
-      // No manifest
+    res.json(
+      await readChangeHistory(LOGS_DIR, watchPath, {
+        ...options,
+        cursor: cursor ? String(cursor) : null,
+        limit,
+      })
+    )
+  } catch (error) {
+    console.error("History read error:", error)
+    res.status(500).json({ error: error.message })
+  }
+})
+
+// Download the change history as JSON, CSV or NDJSON (see server/exports.js), oldest first,
+// streamed from the logs. Query: ?format=json|csv|ndjson, the /history filters (since, until, path, kind),
+// and excluded=1 to keep changes to paths the exclude patterns leave out
+app.get("/api/history-export/*", requireDirectory, async (req, res) => {
+  try {
+    const watchPath = req.watchPath
+    const format = req.query.format ? String(req.query.format) : "json"
+    if (!EXPORT_FORMATS.includes(format)) {
+      return res.status(400).json({ error: `format must be one of: ${EXPORT_FORMATS.join(", ")}` })
+    }
+    const { options, error } = parseHistoryQuery(req.query)
+    if (error) {
+      return res.status(400).json({ error })
     }
 
-    res.json({
-      recentChanges,
-      manifestLastModified: manifestMtime,
-    })
+    const events = streamChangeEvents(LOGS_DIR, watchPath, options)
+    const excluded = req.query.excluded === "1" ? null : await excludeMatcherFor(watchPath)
+    const include = (event) => !excluded?.match(event.path, event.isDirectory).excluded
+
+    await sendExport(
+      res,
+      exportChangeHistory(events, { format, watchPath, include }),
+      format,
+      `${exportName(watchPath)}-history`
+    )
   } catch (error) {
-    console.error("Changes read error:", error)
+    console.error("History export error:", error)
+    if (res.headersSent) return res.destroy()
     res.status(500).json({ error: error.message })
   }
 })
 
-// Start monitor for a specific directory
-app.post("/api/start/*", async (req, res) => {
+// Open and acknowledged alert counts of every directory that has any
+app.get("/api/alerts", async (req, res) => {
   try {
-    const watchPath = normalizePathParam(req.params[0])
+    res.json({ counts: await alertStore.counts() })
+  } catch (error) {
+    console.error("Alerts read error:", error)
+    res.status(500).json({ error: error.message })
+  }
+})
 
-    // Check if already running for this directory
-    const { stdout } = await execAsync(`pgrep -f "fswatch.*${watchPath}" || true`)
-    if (stdout.trim()) {
-      return res.json({ success: true, message: "Monitor already running for this directory" })
+// A directory's alerts, newest activity first
+// Query: ?state=open|acknowledged|resolved (default: all of them)
+app.get("/api/alerts/*", requireDirectory, async (req, res) => {
+  try {
+    const watchPath = req.watchPath
+    const { state } = req.query
+    if (state !== undefined && !ALERT_STATES.includes(state)) {
+      return res.status(400).json({ error: `state must be one of: ${ALERT_STATES.join(", ")}` })
     }
+    const alerts = await alertStore.list(watchPath)
+    res.json({ directory: watchPath, alerts: state ? alerts.filter((a) => a.state === state) : alerts })
+  } catch (error) {
+    console.error("Alerts read error:", error)
+    res.status(500).json({ error: error.message })
+  }
+})
 
-    // Start the monitor for this specific directory
-    const monitorScript = path.join(MONITOR_DIR, "src/lhi_directory_monitor.sh")
-    const child = spawn("bash", [monitorScript, "-d", watchPath, "--verbose"], {
-      detached: true,
-      stdio: "ignore",
-      cwd: MONITOR_DIR,
-    })
-    child.unref()
+// Acknowledge or resolve one of a directory's alerts
+// Body: { id, state: "acknowledged" | "resolved" }
+app.patch("/api/alerts/*", requireDirectory, async (req, res) => {
+  try {
+    const { id, state } = req.body || {}
+    if (typeof id !== "string" || !id) {
+      return res.status(400).json({ error: "id is required" })
+    }
+    const alert = await alertStore.setState(req.watchPath, id, state)
+    res.json({ success: true, alert })
+  } catch (error) {
+    if (error instanceof AlertError) {
+      return res.status(error.status).json({ error: error.message })
+    }
+    console.error("Alert update error:", error)
+    res.status(500).json({ error: error.message })
+  }
+})
 
-    // Wait a moment for process to start
-    await new Promise((resolve) => setTimeout(resolve, 2000))
+// Stream live status, change and manifest updates for all registered directories
+// Server-Sent Events - the UI falls back to polling if this connection drops
+app.get("/api/events", (req, res) => {
+  eventStream.subscribe(req, res)
+})
 
-    res.json({ success: true, message: `Monitor started for ${watchPath}` })
+// Start monitor for a specific directory
+app.post("/api/start/*", requireDirectory, async (req, res) => {
+  try {
+    res.json({ success: true, ...(await startMonitor(req.watchPath)) })
   } catch (error) {
+    if (error instanceof BackendError) {
+      return res.status(error.status).json({ error: error.message })
+    }
     console.error("Start error:", error)
     res.status(500).json({ error: error.message })
   }
 })
 
 // Stop monitor for a specific directory
-app.post("/api/stop/*", async (req, res) => {
+app.post("/api/stop/*", requireDirectory, async (req, res) => {
   try {
-    const watchPath = normalizePathParam(req.params[0])
-
-    // Kill fswatch processes monitoring this specific directory
-    await execAsync(`pkill -f "fswatch.*${watchPath}" || true`)
-
-    // Also kill any lhi_directory_monitor processes for this directory
-    await execAsync(`pkill -f "lhi_directory_monitor.*${watchPath}" || true`)
-
-    res.json({ success: true, message: `Monitor stopped for ${watchPath}` })
+    res.json({ success: true, ...(await stopMonitor(req.watchPath)) })
   } catch (error) {
     console.error("Stop error:", error)
     res.status(500).json({ error: error.message })
@@ -447,31 +969,13 @@ app.post("/api/stop/*", async (req, res) => {
 // LEGACY API ENDPOINTS (for backward compatibility)
 // ============================================================
 
-// Get monitor status
+// Get monitor status (of the default directory, LHI_SCRIPTS_ROOT)
 app.get("/api/status", async (req, res) => {
   try {
-    // Check if daemon process is running
-    const { stdout } = await execAsync("pgrep -f 'lhi_directory_monitor_daemon.sh' || true")
-    const pids = stdout.trim().split("\n").filter(Boolean)
-    const running = pids.length > 0
-
-    let uptime = null
-    if (running && pids[0]) {
-      try {
-        const { stdout: psOut } = await execAsync(`ps -p ${pids[0]} -o etime= || true`)
-        uptime = psOut.trim()
-      } catch (e) {
-        // Ignore
-      }
-    }
-
-    res.json({
-      running,
-      pid: running ? parseInt(pids[0]) : null,
-      watchedPath: DEFAULT_WATCHED_PATH,
-      uptime,
-      lastUpdate: new Date().toISOString(),
-    })
+    const status = DEFAULT_WATCHED_PATH
+      ? await getDirectoryStatus(DEFAULT_WATCHED_PATH)
+      : { running: false, pid: null, watchedPath: null, uptime: null }
+    res.json({ ...status, lastUpdate: new Date().toISOString() })
   } catch (error) {
     console.error("Status check error:", error)
     res.json({
@@ -486,12 +990,8 @@ app.get("/api/status", async (req, res) => {
 // Get manifest data
 app.get("/api/manifest", async (req, res) => {
   try {
-    const manifestPath = path.join(DEFAULT_WATCHED_PATH, ".lhi_manifest")
-
-    // Check if manifest exists
-    try {
-      await fs.access(manifestPath)
-    } catch {
+    const parsed = await readManifest(DEFAULT_WATCHED_PATH)
+    if (!parsed) {
       return res.json({
         directory: DEFAULT_WATCHED_PATH,
         timestamp: null,
@@ -502,13 +1002,10 @@ app.get("/api/manifest", async (req, res) => {
       })
     }
 
-    const content = await fs.readFile(manifestPath, "utf-8")
-
-    // Parse the text-based manifest format
-    const parsed = parseTextManifest(content)
-
     res.json({
       directory: parsed.directory || DEFAULT_WATCHED_PATH,
+      format: parsed.format,
+      version: parsed.version,
       timestamp: parsed.timestamp || new Date().toISOString(),
       total_files: parsed.total_files || 0,
       total_directories: parsed.total_directories || 0,
@@ -526,228 +1023,529 @@ app.get("/api/manifest", async (req, res) => {
 // 2. .gitignore - Standard git ignore (fallback)
 app.get("/api/excludes", async (req, res) => {
   try {
-    // PRIORITY 1: .lhi_excludes - Single source of truth
-    const excludePath = path.join(DEFAULT_WATCHED_PATH, ".lhi_excludes")
-    try {
-      await fs.access(excludePath)
-      const content = await fs.readFile(excludePath, "utf-8")
-      return res.json({ patterns: parseExcludes(content), source: ".lhi_excludes" })
-    } catch {
-      // Not found, try next priority
-    }
-
-    // PRIORITY 2: .gitignore fallback
-    const gitignorePath = path.join(DEFAULT_WATCHED_PATH, ".gitignore")
-    try {
-      await fs.access(gitignorePath)
-      const content = await fs.readFile(gitignorePath, "utf-8")
-      return res.json({ patterns: parseExcludes(content), source: ".gitignore" })
-    } catch {
-      return res.json({ patterns: [], source: null })
-    }
+    res.json(await readExcludes(DEFAULT_WATCHED_PATH))
   } catch (error) {
     console.error("Excludes read error:", error)
     res.status(500).json({ error: error.message })
   }
 })
 
-// Start monitor
+// Start monitor (body: { path? }, default LHI_SCRIPTS_ROOT) - same as /api/start/*, but the
+// directory only has to be inside the allowed roots
 app.post("/api/start", async (req, res) => {
   try {
-    const watchPath = req.body.path || DEFAULT_WATCHED_PATH
+    const watchPath = validateDirectoryPath(req.body?.path || DEFAULT_WATCHED_PATH)
+    await pathSandbox.check(watchPath)
 
-    // Check if already running
-    const { stdout } = await execAsync("pgrep -f 'lhi_directory_monitor_daemon.sh' || true")
-    if (stdout.trim()) {
-      return res.json({ success: true, message: "Monitor already running" })
+    res.json({ success: true, ...(await startMonitor(watchPath)) })
+  } catch (error) {
+    if (error instanceof BackendError) {
+      return res.status(error.status).json({ error: error.message })
     }
+    sendPathError(res, error, "Start error")
+  }
+})
 
-    // Start the daemon
-    const child = spawn("bash", [DAEMON_SCRIPT, "start", watchPath], {
-      detached: true,
-      stdio: "ignore",
-      cwd: MONITOR_DIR,
-    })
-    child.unref()
-
-    // Wait a moment for process to start
-    await new Promise((resolve) => setTimeout(resolve, 1000))
+// Stop monitor (body: { path? }, default LHI_SCRIPTS_ROOT) - same as /api/stop/*
+app.post("/api/stop", async (req, res) => {
+  try {
+    const watchPath = validateDirectoryPath(req.body?.path || DEFAULT_WATCHED_PATH)
+    await pathSandbox.check(watchPath)
 
-    res.json({ success: true, message: "Monitor started" })
+    res.json({ success: true, ...(await stopMonitor(watchPath)) })
   } catch (error) {
-    console.error("Start error:", error)
-    res.status(500).json({ error: error.message })
+    sendPathError(res, error, "Stop error")
   }
 })
 
-// Stop monitor
-app.post("/api/stop", async (req, res) => {
+// Refresh manifest (body: { path? }, default LHI_SCRIPTS_ROOT) - starts a refresh job (202)
+// or returns the one already running, as /api/refresh/* does
+app.post("/api/refresh", async (req, res) => {
   try {
-    // Kill all related processes
-    await execAsync("pkill -f 'lhi_directory_monitor' || true")
-    await execAsync("pkill -f 'fswatch.*lhi_scripts' || true")
+    const watchPath = validateDirectoryPath(req.body?.path || DEFAULT_WATCHED_PATH)
+    await pathSandbox.check(watchPath)
+    const { job, existing } = await submitRefresh(watchPath)
 
-    res.json({ success: true, message: "Monitor stopped" })
+    res.status(202).json({
+      success: true,
+      message: existing ? "A refresh is already in progress" : "Refresh started",
+      job,
+    })
   } catch (error) {
-    console.error("Stop error:", error)
-    res.status(500).json({ error: error.message })
+    sendPathError(res, error, "Refresh error")
   }
 })
 
-// Refresh manifest - triggers a one-time scan of the directory
-app.post("/api/refresh", async (req, res) => {
+// Helper: Read registered directories from the registry file
+// Returns an empty list if the registry doesn't exist yet
+async function readRegistry() {
+  let registry
   try {
-    const watchPath = req.body.path || DEFAULT_WATCHED_PATH
+    registry = JSON.parse(await fs.readFile(REGISTRY_FILE, "utf-8"))
+  } catch {
+    return []
+  }
 
-    // Run the monitor script briefly to generate fresh manifest
-    // The script will create/update .lhi_manifest in the watched directory
-    const monitorScript = path.join(MONITOR_DIR, "src/lhi_directory_monitor.sh")
+  // Directories without a backend of their own use the default
+  const defaultBackend = await watcherBackends.defaultName()
+
+  // Convert to array format for easier UI consumption
+  return Object.entries(registry.monitors || {}).map(([dir, data]) => ({
+    directory: dir,
+    manifest: data.manifest,
+    lastUpdate: data.last_update,
+    lastUpdateEst: data.last_update_est,
+    backend: BACKEND_NAMES.includes(data.backend) ? data.backend : defaultBackend,
+    autostart: data.autostart === true,
+    settings: resolveSettings(data.settings),
+    alertRules: resolveRules(data.alertRules),
+  }))
+}
 
-    // Start the monitor script which generates the manifest
-    // We run it in a subshell and let it create the manifest, then it will be killed
-    const child = spawn("bash", [monitorScript, "-d", watchPath], {
-      cwd: MONITOR_DIR,
-      detached: true,
-      stdio: "ignore",
-    })
+// registry.json edits from this process run one at a time (see updateRegistryEntry)
+let registryWrites = Promise.resolve()
+
+// Helper: Merge `changes` into a registered directory's registry.json entry
+// Returns false if the directory isn't registered
+function updateRegistryEntry(directory, changes) {
+  const run = registryWrites.then(async () => {
+    const registry = JSON.parse(await fs.readFile(REGISTRY_FILE, "utf-8"))
+    if (!registry.monitors?.[directory]) return false
+
+    Object.assign(registry.monitors[directory], changes)
+    // Replace the file in one step so the monitor scripts never read half of it
+    const temp = `${REGISTRY_FILE}.${process.pid}.tmp`
+    await fs.writeFile(temp, JSON.stringify(registry, null, 2))
+    await fs.rename(temp, REGISTRY_FILE)
+    return true
+  })
+  registryWrites = run.catch(() => {})
+  return run
+}
 
-    // Wait for the manifest to be generated (initial scan takes a few seconds)
-    await new Promise((resolve) => setTimeout(resolve, 5000))
+// Helper: Get monitor process status for a directory (from its watcher backend)
+async function getDirectoryStatus(watchPath) {
+  return (await getDirectoryStatuses([watchPath])).get(watchPath)
+}
 
-    // Kill the monitor since we only wanted the initial manifest
-    try {
-      process.kill(-child.pid, "SIGTERM")
-    } catch (e) {
-      // Process may have already exited
+// Helper: Monitor status for many directories - each backend is asked once, for all of its
+// directories (so the script backend scans processes once). Returns a Map of directory -> status
+async function getDirectoryStatuses(watchPaths) {
+  const registry = await readRegistry()
+  const defaultName = await watcherBackends.defaultName()
+
+  // Backend name -> its directories
+  const byBackend = new Map()
+  for (const watchPath of watchPaths) {
+    const name = registry.find((m) => m.directory === watchPath)?.backend ?? defaultName
+    byBackend.set(name, [...(byBackend.get(name) || []), watchPath])
+  }
+
+  const statuses = new Map()
+  for (const [name, paths] of byBackend) {
+    const backend = watcherBackends.get(name)
+    const found = await backend.statuses(paths)
+    for (const watchPath of paths) {
+      const { running, pid, uptime } = found.get(watchPath)
+      statuses.set(watchPath, {
+        running,
+        pid: running ? pid : null,
+        watchedPath: watchPath,
+        uptime,
+        backend: backend.name,
+        lastManifestUpdate: await getManifestMtime(watchPath),
+        // health, restarts, lastExit, nextRestartAt
+        ...watchdog.health(watchPath, running),
+      })
     }
+  }
+  // In the order asked for
+  return new Map(watchPaths.map((watchPath) => [watchPath, statuses.get(watchPath)]))
+}
+
+// Helper: Start a directory's monitor with its backend (no-op if it is running)
+// Returns { message }; throws BackendError if the backend can't run here
+async function startMonitor(watchPath) {
+  const backend = await backendFor(watchPath)
+
+  // Check if already running for this directory
+  if ((await backend.status(watchPath)).running) {
+    return { message: "Monitor already running for this directory" }
+  }
+  if (!(await backend.available())) {
+    throw new BackendError(
+      `The ${backend.name} backend is not available on this machine - choose another backend`
+    )
+  }
+
+  // Start the monitor for this specific directory (a fresh start for the watchdog, so
+  // an exit during startup already counts)
+  watchdog.started(watchPath)
+  await backend.start(watchPath, await settingsFor(watchPath))
+  return { message: `Monitor started for ${watchPath} (${backend.name} backend)` }
+}
+
+// Helper: Stop a directory's monitor. Returns { message }
+async function stopMonitor(watchPath) {
+  const backend = await backendFor(watchPath)
+  // First, so a pending restart can't bring it back
+  watchdog.stopped(watchPath)
+  await backend.stop(watchPath)
+  return { message: `Monitor stopped for ${watchPath}` }
+}
+
+// Helper: Drop supervisor entries for monitors that have exited unseen (while the backend
+// was down, or started by an earlier run of it) and have the watchdog restart registered ones
+async function reapMonitors() {
+  const stale = await supervisor.cleanup()
+  if (stale.length === 0) return stale
+
+  const registered = new Set((await readRegistry()).map((m) => m.directory))
+  for (const watchPath of stale) {
+    if (registered.has(watchPath)) watchdog.exited(watchPath)
+  }
+  return stale
+}
+
+// Result of autostartMonitors(): { finishedAt, started: [directory], failed: [{ directory, error }] }
+let autostartReport = null
+
+// Helper: Start every autostart directory whose monitor isn't running
+async function autostartMonitors() {
+  const registry = await readRegistry()
+  const started = []
+  const failed = []
+  await Promise.all(
+    registry
+      .filter((m) => m.autostart)
+      .map(async ({ directory }) => {
+        try {
+          await pathSandbox.check(directory)
+          if ((await getDirectoryStatus(directory)).running) return
+          await startMonitor(directory)
+          started.push(directory)
+        } catch (error) {
+          failed.push({ directory, error: error.message })
+        }
+      })
+  )
+  autostartReport = { finishedAt: Date.now(), started, failed }
+  return autostartReport
+}
+
+// Helper: Queue a manifest refresh job for a directory (see jobs.js)
+// Returns { job, existing } - existing when a refresh was already in progress
+async function submitRefresh(watchPath) {
+  const backend = await backendFor(watchPath)
+  const settings = await settingsFor(watchPath)
+  return jobRunner.submit({
+    type: "refresh",
+    key: watchPath,
+    run: (context) => backend.refresh(watchPath, { ...context, settings }),
+  })
+}
+
+// Helper: Watcher backend for a directory (the default one if it isn't registered)
+async function backendFor(watchPath) {
+  const entry = (await readRegistry()).find((m) => m.directory === watchPath)
+  return watcherBackends.get(entry?.backend ?? (await watcherBackends.defaultName()))
+}
 
-    res.json({ success: true, message: "Manifest refreshed" })
+// Helper: Monitor settings for a directory (the defaults if it isn't registered)
+async function settingsFor(watchPath) {
+  const entry = (await readRegistry()).find((m) => m.directory === watchPath)
+  return entry?.settings ?? resolveSettings(null)
+}
+
+// Helper: Stats of a directory's .lhi_manifest, or null if it has none
+async function statManifest(watchPath) {
+  try {
+    return await fs.stat(path.join(watchPath, ".lhi_manifest"))
   } catch (error) {
-    console.error("Refresh error:", error)
-    res.status(500).json({ error: error.message })
+    if (error.code === "ENOENT") return null
+    throw error
   }
-})
+}
 
-// Helper: Parse the text-based manifest format
-// Format:
-// ======================================================================
-// LHI Directory Monitor - MANIFEST
-// ======================================================================
-// Monitor PID: 2113
-// Generated by: LifeHack Innovations Directory Monitor v1.1
-// Timestamp: 2026-01-19 04:10:57 PM EST
-// Directory: /Users/patrickwatson/lhi_scripts
-// ...
-// File Listing:
-// -------------
-// ".claude/PLAN.md" (4422 bytes) - Modified: 2025-08-06 13:58:55
-// ...
-// Summary:
-// --------
-// Total Files: 123
-// Total Directories: 45
-function parseTextManifest(content) {
-  const lines = content.split("\n")
-  const result = {
-    directory: null,
-    timestamp: null,
-    total_files: 0,
-    total_directories: 0,
-    tree: [],
-  }
-
-  const files = []
-  let inFileListing = false
-  let inSummary = false
-
-  for (const line of lines) {
-    // Parse header info
-    if (line.startsWith("Timestamp:")) {
-      result.timestamp = line.replace("Timestamp:", "").trim()
-    } else if (line.startsWith("Directory:")) {
-      result.directory = line.replace("Directory:", "").trim()
-    } else if (line.startsWith("File Listing:")) {
-      inFileListing = true
-      inSummary = false
-      continue
-    } else if (line.startsWith("Summary:")) {
-      inFileListing = false
-      inSummary = true
-      continue
-    } else if (line.startsWith("-------------") || line.startsWith("--------")) {
-      continue
-    }
-
-    // Parse summary section (takes precedence for counts)
-    if (inSummary && line.trim()) {
-      const filesMatch = line.match(/^Total Files:\s*(\d+)/)
-      const dirsMatch = line.match(/^Total Directories:\s*(\d+)/)
-      if (filesMatch) {
-        result.total_files = parseInt(filesMatch[1], 10)
-      }
-      if (dirsMatch) {
-        result.total_directories = parseInt(dirsMatch[1], 10)
-      }
+// Helper: Read and parse .lhi_manifest, or null if the directory has none
+// Parsed manifests are cached until the file's mtime or size changes - callers
+// share the cached object and must not modify it
+async function readManifest(watchPath, stats) {
+  stats = stats ?? (await statManifest(watchPath))
+  if (!stats) {
+    manifestCache.delete(watchPath)
+    return null
+  }
+
+  const cached = manifestCache.get(watchPath)
+  if (cached && cached.mtimeMs === stats.mtimeMs && cached.size === stats.size) {
+    return cached.parsed
+  }
+
+  let content
+  try {
+    content = await fs.readFile(path.join(watchPath, ".lhi_manifest"), "utf-8")
+  } catch (error) {
+    if (error.code === "ENOENT") return null
+    throw error
+  }
+  const parsed = parseManifestContent(content)
+  manifestCache.set(watchPath, { mtimeMs: stats.mtimeMs, size: stats.size, parsed })
+  return parsed
+}
+
+// Helper: Parse .lhi_manifest content in either format (see manifestFormat.js) and build its tree
+function parseManifestContent(content) {
+  const parsed = parseManifest(content)
+  // Directory entries first, so directories without files are in the tree too
+  parsed.tree = buildTreeFromFiles([...parsed.directories, ...parsed.files])
+  return parsed
+}
+
+// Helper: Tag the response with the manifest's ETag (from its mtime and size)
+// Returns true when the client's copy is current - answer with 304 then
+function manifestNotModified(req, res, stats) {
+  res.set("ETag", `W/"${stats.size.toString(16)}-${Math.floor(stats.mtimeMs).toString(16)}"`)
+  // Let browsers keep the response, but always revalidate it
+  res.set("Cache-Control", "no-cache")
+  return req.fresh
+}
+
+// Helper: Snapshot a directory's manifest if it changed since the last snapshot
+// `parsed` can be passed when the caller already read the manifest
+async function recordSnapshot(watchPath, parsed) {
+  const mtime = await getManifestMtime(watchPath)
+  if (!mtime) return null
+  return snapshotStore.capture(watchPath, mtime, async () => parsed || readManifest(watchPath))
+}
+
+// Helper: Snapshot every registered directory (runs periodically so history
+// builds up even when nobody has the UI open)
+async function recordAllSnapshots() {
+  for (const { directory } of await readRegistry()) {
+    try {
+      await recordSnapshot(directory)
+    } catch (error) {
+      console.error(`Snapshot error (${directory}):`, error.message)
     }
+  }
+}
 
-    // Parse file entries
-    if (inFileListing && line.trim() && !line.startsWith("Summary:")) {
-      // Format: "path/to/file.ext" (1234 bytes) - Modified: 2025-08-06 13:58:55
-      const match = line.match(/^"([^"]+)"\s+\((\d+)\s+bytes\)\s+-\s+Modified:\s+(.+)$/)
-      if (match) {
-        const [, filePath, size, modified] = match
-        files.push({
-          path: filePath,
-          type: "file",
-          size: parseInt(size, 10),
-          modified: modified.trim(),
-        })
-      }
+// Helper: A manifest rollup ("fileCount" or "totalSize") of a directory ("" = the whole tree)
+// Returns null if the directory isn't in the manifest
+function manifestRollup(parsed, dirPath, metric) {
+  if (!dirPath) {
+    return metric === "fileCount" ? parsed.files.length : parsed.files.reduce((sum, f) => sum + (f.size || 0), 0)
+  }
+  const level = findTreeLevel(parsed.tree, dirPath.split("/").slice(0, -1).join("/"))
+  const node = level?.find((e) => e.path === dirPath && e.type === "directory")
+  return node?.[metric] ?? null
+}
+
+// Helper: Check a directory's alert rules against the change events logged since the last
+// check and - when the manifest was rewritten - its growth rules against the new rollups.
+// The first check only sets the starting point, so earlier history doesn't raise alerts.
+async function checkAlerts(watchPath, rules) {
+  const checkpoint = await alertStore.checkpoint(watchPath)
+  const manifestMtime = await getManifestMtime(watchPath)
+  const next = {
+    since: checkpoint?.since ?? Date.now(),
+    seen: checkpoint?.seen ?? [],
+    baselines: {},
+    manifestMtime,
+  }
+  const fired = []
+
+  if (checkpoint) {
+    // Events at exactly `since` were seen by the last check unless they're new lines
+    const seen = new Set(checkpoint.seen)
+    const events = (await readChangeEvents(LOGS_DIR, watchPath, { since: checkpoint.since })).filter(
+      (e) => !seen.has(e.id)
+    )
+    if (events.length > 0) {
+      // Newest first - carry on from the newest event's time
+      next.since = events[0].time
+      next.seen = [
+        ...(next.since === checkpoint.since ? checkpoint.seen : []),
+        ...events.filter((e) => e.time === next.since).map((e) => e.id),
+      ]
+      fired.push(...matchEventRules(rules, events))
+    }
+  }
+
+  const growthRules = rules.filter((r) => r.enabled && r.kind === "growth")
+  const baselines = checkpoint?.baselines ?? {}
+  const manifestChanged = manifestMtime !== checkpoint?.manifestMtime
+  if (manifestMtime && (manifestChanged || growthRules.some((r) => baselines[r.id] == null))) {
+    // An unreadable manifest is reported by the manifest routes - the rules wait for a good one
+    const parsed = await readManifest(watchPath).catch(() => null)
+    for (const rule of growthRules) {
+      const value = parsed && manifestRollup(parsed, rule.path, rule.metric)
+      if (value == null) continue
+      const growth = manifestChanged && checkGrowth(rule, baselines[rule.id], value)
+      if (growth) fired.push(growth)
+      next.baselines[rule.id] = value
     }
   }
+  // Rules that weren't measured keep their baseline
+  for (const rule of growthRules) {
+    if (next.baselines[rule.id] == null && baselines[rule.id] != null) next.baselines[rule.id] = baselines[rule.id]
+  }
 
-  // If summary section didn't provide counts, calculate from files
-  if (result.total_files === 0) {
-    result.total_files = files.length
+  if (fired.length > 0 || JSON.stringify(next) !== JSON.stringify(checkpoint)) {
+    await alertStore.record(watchPath, next, fired)
   }
+}
+
+// The running check of every directory's alert rules, if any (see checkAllAlerts)
+let alertCheck = null
 
-  // Count unique directories from file paths if summary didn't provide it
-  if (result.total_directories === 0 && files.length > 0) {
-    const directories = new Set()
-    for (const file of files) {
-      const parts = file.path.split("/")
-      let currentPath = ""
-      for (let i = 0; i < parts.length - 1; i++) {
-        currentPath = currentPath ? `${currentPath}/${parts[i]}` : parts[i]
-        directories.add(currentPath)
+// Helper: Check every registered directory's alert rules - one run at a time, so no event is counted twice
+function checkAllAlerts() {
+  alertCheck ??= (async () => {
+    for (const { directory, alertRules } of await readRegistry()) {
+      try {
+        await checkAlerts(directory, alertRules)
+      } catch (error) {
+        console.error(`Alert check error (${directory}):`, error.message)
       }
     }
-    result.total_directories = directories.size
+  })()
+    .catch((error) => console.error("Alert check error:", error))
+    .finally(() => {
+      alertCheck = null
+    })
+  return alertCheck
+}
+
+// Helper: Get .lhi_manifest modification time (ISO string), or null if there is none
+async function getManifestMtime(watchPath) {
+  try {
+    const stats = await fs.stat(path.join(watchPath, ".lhi_manifest"))
+    return stats.mtime.toISOString()
+  } catch {
+    return null
+  }
+}
+
+// Helper: Read the most recent change entries from the monitor's log files
+// Returns newest first
+async function readRecentChanges(watchPath, limit = 5) {
+  try {
+    const { events } = await readChangeHistory(LOGS_DIR, watchPath, { limit })
+    return events.map(({ timestamp, file, kind, oldPath, isDirectory }) => ({
+      timestamp,
+      file,
+      kind,
+      oldPath,
+      isDirectory,
+    }))
+  } catch (logError) {
+    console.error("Change log read error:", logError)
+    return []
   }
+}
 
-  // Build tree structure
-  result.tree = buildTreeFromFiles(files)
+// Query parameters of a manifest search (see parseSearchQuery)
+const SEARCH_PARAMS = ["q", "ext", "minSize", "maxSize", "since", "until"]
+
+// Helper: Manifest search options (see manifestQuery.js) from the query string
+// Returns { options } or { error } when a value is invalid
+function parseSearchQuery(query) {
+  const since = parseTimeParam(query.since)
+  const until = parseTimeParam(query.until)
+  const minSize = parseSizeParam(query.minSize)
+  const maxSize = parseSizeParam(query.maxSize)
+  if (since === undefined || until === undefined) {
+    return { error: "since and until must be ISO dates or epoch milliseconds" }
+  }
+  if (minSize === undefined || maxSize === undefined) {
+    return { error: "minSize and maxSize must be byte counts" }
+  }
+  return {
+    options: {
+      query: query.q ? String(query.q) : "",
+      // "ext=" alone selects files without an extension
+      extensions:
+        query.ext !== undefined
+          ? String(query.ext).split(",").map((e) => e.trim().replace(/^\./, "").toLowerCase())
+          : null,
+      minSize,
+      maxSize,
+      since,
+      until,
+    },
+  }
+}
 
-  return result
+// Helper: Change history filters (see changelog.js) from the query string
+// Returns { options } or { error } when a value is invalid
+function parseHistoryQuery(query) {
+  const since = parseTimeParam(query.since)
+  const until = parseTimeParam(query.until)
+  if (since === undefined || until === undefined) {
+    return { error: "since/until must be an ISO date or epoch milliseconds" }
+  }
+  return {
+    options: {
+      since,
+      until,
+      path: query.path ? String(query.path) : null,
+      kinds: query.kind ? String(query.kind).split(",").filter(Boolean) : null,
+    },
+  }
 }
 
-// Helper: Parse exclude patterns
-function parseExcludes(content) {
-  const patterns = []
-  const lines = content.split("\n")
+// Helper: Matcher for a directory's current exclude patterns, or null if it has none
+async function excludeMatcherFor(watchPath) {
+  const { patterns } = await readExcludes(watchPath)
+  return patterns.length > 0 ? createMatcher(patterns.map((p) => p.pattern)) : null
+}
 
-  for (const line of lines) {
-    const trimmed = line.trim()
-    if (!trimmed || trimmed.startsWith("#")) continue
+// Helper: Download file name for a directory's exports (no quotes or path characters)
+function exportName(watchPath) {
+  return path.basename(watchPath).replace(/[^\w.-]/g, "_") || "directory"
+}
 
-    const isDirectory = trimmed.endsWith("/")
-    patterns.push({
-      pattern: trimmed,
-      isDirectory,
-    })
+// Helper: Send an export (text chunks) as a download, written as it is produced
+async function sendExport(res, chunks, format, name) {
+  res.set("Content-Type", CONTENT_TYPES[format])
+  res.set("Content-Disposition", `attachment; filename="${name}.${format}"`)
+  await pipeline(Readable.from(chunks), res)
+}
+
+// Helper: Parse a byte-count query value
+// Returns null when absent, undefined when invalid
+function parseSizeParam(value) {
+  if (value === undefined || value === "") return null
+  return /^\d+$/.test(String(value)) ? Number(value) : undefined
+}
+
+// Helper: Parse a since/until query value (ISO date or epoch ms)
+// Returns null when absent, undefined when invalid
+function parseTimeParam(value) {
+  if (value === undefined || value === "") return null
+  const ms = /^\d+$/.test(String(value)) ? Number(value) : Date.parse(String(value))
+  return Number.isNaN(ms) ? undefined : ms
+}
+
+// Helper: Respond to a failed request whose directory path may have been rejected
+// (PathError carries its own status)
+function sendPathError(res, error, context) {
+  if (error instanceof PathError) {
+    return res.status(error.status).json({ error: error.message })
   }
+  console.error(`${context}:`, error)
+  res.status(500).json({ error: error.message })
+}
 
-  return patterns
+// Helper: Respond to a failed exclude edit (ExcludesError carries its own status)
+function sendExcludesError(res, error) {
+  if (error instanceof ExcludesError) {
+    return res.status(error.status).json({ error: error.message })
+  }
+  console.error("Excludes write error:", error)
+  res.status(500).json({ error: error.message })
 }
 
 // Helper: Sort tree entries alphabetically (directories first, then files)
@@ -774,13 +1572,14 @@ function sortTree(entries) {
   return entries
 }
 
-// Helper: Calculate recursive file and directory counts for each directory node
-// Returns { files: number, dirs: number } for the entry
+// Helper: Calculate recursive file and directory counts and byte totals for each directory node
+// Returns { files: number, dirs: number, size: number } for the entry
 function calculateCounts(entries) {
-  if (!entries || entries.length === 0) return { files: 0, dirs: 0 }
+  if (!entries || entries.length === 0) return { files: 0, dirs: 0, size: 0 }
 
   let totalFiles = 0
   let totalDirs = 0
+  let totalSize = 0
 
   for (const entry of entries) {
     if (entry.type === "directory") {
@@ -792,21 +1591,39 @@ function calculateCounts(entries) {
       // Store recursive counts on the directory node
       entry.fileCount = childCounts.files
       entry.dirCount = childCounts.dirs
+      entry.totalSize = childCounts.size
 
       // Add to running totals (include children's counts)
       totalFiles += childCounts.files
       totalDirs += childCounts.dirs
+      totalSize += childCounts.size
     } else {
       totalFiles++ // Count this file
+      totalSize += entry.size || 0
     }
   }
 
-  return { files: totalFiles, dirs: totalDirs }
+  return { files: totalFiles, dirs: totalDirs, size: totalSize }
+}
+
+// Helper: Children of a directory in the tree ("" = top level), or null if it isn't there
+function findTreeLevel(tree, dirPath) {
+  const parts = dirPath.split("/").filter(Boolean)
+  let level = tree
+  let currentPath = ""
+  for (const part of parts) {
+    currentPath = currentPath ? `${currentPath}/${part}` : part
+    const dir = level.find((e) => e.path === currentPath && e.type === "directory")
+    if (!dir) return null
+    level = dir.children || []
+  }
+  return level
 }
 
 // Helper: Build tree from flat file list
 function buildTreeFromFiles(files) {
   const tree = []
+  // Path -> node, so finding an existing node doesn't scan its whole level
   const pathMap = new Map()
 
   for (const file of files) {
@@ -819,7 +1636,7 @@ function buildTreeFromFiles(files) {
       currentPath = currentPath ? `${currentPath}/${part}` : part
       const isLast = i === parts.length - 1
 
-      let existing = currentLevel.find((e) => e.path === currentPath)
+      let existing = pathMap.get(currentPath)
       if (!existing) {
         existing = {
           path: currentPath,
@@ -829,6 +1646,7 @@ function buildTreeFromFiles(files) {
           children: isLast && file.type !== "directory" ? undefined : [],
         }
         currentLevel.push(existing)
+        pathMap.set(currentPath, existing)
       }
 
       if (existing.children) {
@@ -840,7 +1658,7 @@ function buildTreeFromFiles(files) {
   // Sort the tree alphabetically (directories first, then files)
   const sortedTree = sortTree(tree)
 
-  // Calculate recursive file/directory counts for each folder
+  // Calculate recursive file/directory counts and sizes for each folder
   calculateCounts(sortedTree)
 
   return sortedTree
@@ -850,8 +1668,36 @@ app.listen(PORT, () => {
   console.log(`LHI Directory Monitor Backend running on port ${PORT}`)
   console.log(`Registry file: ${REGISTRY_FILE}`)
   console.log(`Monitor scripts: ${MONITOR_DIR}`)
+  console.log(`API tokens: ${auth.required ? "required" : "none configured - the API is open"}`)
+  console.log(`Allowed roots: ${pathSandbox.roots.join(", ") || "(none - set LHI_ALLOWED_ROOTS)"}`)
   console.log(`Platform: ${process.platform}`)
 
+  // Restart monitors that exited while the backend was down, then keep watching the ones
+  // an earlier run started (exits of monitors started by this run are reported directly)
+  reapMonitors()
+    .then((stale) => stale.length > 0 && console.log(`Cleaned up ${stale.length} stale monitor entries`))
+    .catch((error) => console.error("Supervisor cleanup error:", error))
+    // Then start the autostart directories that aren't running
+    .then(autostartMonitors)
+    .then(({ started, failed }) => {
+      if (started.length > 0) console.log(`Autostarted ${started.length} monitor(s): ${started.join(", ")}`)
+      for (const { directory, error } of failed) {
+        console.error(`Autostart failed for ${directory}: ${error}`)
+      }
+    })
+    .catch((error) => console.error("Autostart error:", error))
+  setInterval(() => {
+    reapMonitors().catch((error) => console.error("Supervisor cleanup error:", error))
+  }, WATCHDOG_INTERVAL)
+
+  // Build manifest history in the background
+  recordAllSnapshots()
+  setInterval(recordAllSnapshots, SNAPSHOT_INTERVAL)
+
+  // Check alert rules in the background, whether or not the UI is open
+  checkAllAlerts()
+  setInterval(checkAllAlerts, ALERT_INTERVAL)
+
   if (!process.env.LHI_SCRIPTS_ROOT) {
     console.warn(`WARNING: LHI_SCRIPTS_ROOT environment variable not set!`)
     console.warn(`Path independence requires LHI_SCRIPTS_ROOT to be defined.`)
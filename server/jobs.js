@@ -0,0 +1,170 @@
+/**
+ * LHI Directory Monitor - Background Jobs
+ *
+ * Long-running work (manifest refreshes) runs as a job instead of inside the
+ * HTTP request: the route answers with the job at once and the UI follows it
+ * through GET /api/jobs/:id or the event stream's "job" events.
+ *
+ * A job moves through
+ *   queued -> running -> succeeded | failed | timed-out
+ * or ends "cancelled" when cancel(key) is called while it is active.
+ * At most one job per key (e.g. one refresh per directory) is queued or
+ * running - submitting another returns the active one. Jobs beyond
+ * maxConcurrent wait in "queued". A job that runs past its timeout is
+ * aborted (its AbortSignal fires, so it can stop its process) and marked
+ * "timed-out"; cancelling a running job aborts it the same way. Finished jobs are kept for a while so their outcome and
+ * stderr can still be read.
+ */
+
+import crypto from "crypto"
+
+export const JOB_STATES = ["queued", "running", "succeeded", "failed", "timed-out", "cancelled"]
+export const DEFAULT_JOB_TIMEOUT = 10 * 60 * 1000
+export const DEFAULT_MAX_CONCURRENT = 2
+// Finished jobs kept for GET /api/jobs
+const FINISHED_RETENTION = 100
+// Captured stderr per job (the tail is kept)
+const MAX_STDERR = 16 * 1024
+
+const isActive = (job) => job.state === "queued" || job.state === "running"
+
+// Helper: A job as the API returns it (without its internals)
+function toJSON({ run, controller, cancelled, ...job }) {
+  return job
+}
+
+/**
+ * Create a job runner
+ * onUpdate(job) is called with the public job whenever its state or progress changes
+ */
+export function createJobRunner({
+  timeout = DEFAULT_JOB_TIMEOUT,
+  maxConcurrent = DEFAULT_MAX_CONCURRENT,
+  onUpdate = () => {},
+} = {}) {
+  // id -> job, in submission order
+  const jobs = new Map()
+  let running = 0
+
+  const update = (job, changes) => {
+    Object.assign(job, changes)
+    onUpdate(toJSON(job))
+  }
+
+  // Drop the oldest finished jobs beyond the retention limit
+  const prune = () => {
+    const finished = [...jobs.values()].filter((job) => !isActive(job))
+    for (const job of finished.slice(0, Math.max(0, finished.length - FINISHED_RETENTION))) {
+      jobs.delete(job.id)
+    }
+  }
+
+  const execute = async (job) => {
+    running++
+    update(job, { state: "running", startedAt: Date.now() })
+
+    const timer = setTimeout(() => job.controller.abort(), job.timeout)
+    const context = {
+      signal: job.controller.signal,
+      progress: (message) => update(job, { progress: message }),
+      stderr: (chunk) => {
+        job.stderr = (job.stderr + chunk).slice(-MAX_STDERR)
+      },
+    }
+
+    try {
+      await job.run(context)
+      update(job, { state: "succeeded", finishedAt: Date.now(), progress: null })
+    } catch (error) {
+      const aborted = job.controller.signal.aborted
+      update(job, {
+        state: job.cancelled ? "cancelled" : aborted ? "timed-out" : "failed",
+        finishedAt: Date.now(),
+        progress: null,
+        error: job.cancelled
+          ? "Cancelled"
+          : aborted
+            ? `Timed out after ${Math.round(job.timeout / 1000)}s`
+            : error.message,
+      })
+    } finally {
+      clearTimeout(timer)
+      running--
+      prune()
+      next()
+    }
+  }
+
+  // Start queued jobs while there is room
+  const next = () => {
+    for (const job of jobs.values()) {
+      if (running >= maxConcurrent) return
+      if (job.state === "queued") execute(job)
+    }
+  }
+
+  return {
+    /**
+     * Queue run(context) as a job of `type` for `key`
+     * context: { signal, progress(message), stderr(chunk) }
+     * Returns { job, existing } - existing is true when a job for the key was already active
+     */
+    submit({ type, key, run, timeout: jobTimeout = timeout }) {
+      const active = [...jobs.values()].find((job) => job.type === type && job.key === key && isActive(job))
+      if (active) return { job: toJSON(active), existing: true }
+
+      const job = {
+        id: crypto.randomUUID(),
+        type,
+        key,
+        state: "queued",
+        progress: null,
+        error: null,
+        stderr: "",
+        timeout: jobTimeout,
+        createdAt: Date.now(),
+        startedAt: null,
+        finishedAt: null,
+        run,
+        controller: new AbortController(),
+      }
+      jobs.set(job.id, job)
+      onUpdate(toJSON(job))
+      next()
+      return { job: toJSON(job), existing: false }
+    },
+
+    /**
+     * Cancel the active jobs for `key`: queued ones end at once, running ones are
+     * aborted (their signal fires) and end when they stop. Returns how many there were
+     */
+    cancel(key) {
+      let cancelled = 0
+      for (const job of jobs.values()) {
+        if (job.key !== key || !isActive(job)) continue
+        cancelled++
+        if (job.state === "queued") {
+          update(job, { state: "cancelled", finishedAt: Date.now(), error: "Cancelled" })
+        } else {
+          job.cancelled = true
+          job.controller.abort()
+        }
+      }
+      prune()
+      return cancelled
+    },
+
+    get(id) {
+      const job = jobs.get(id)
+      return job ? toJSON(job) : null
+    },
+
+    // Jobs, newest first (optionally only those for `key`)
+    list({ key } = {}) {
+      return [...jobs.values()]
+        .filter((job) => key === undefined || job.key === key)
+        .reverse()
+        .map(toJSON)
+    },
+  }
+}
@@ -0,0 +1,263 @@
+/**
+ * LHI Directory Monitor - Log Line Parsers
+ *
+ * Turns monitor log lines into typed change events
+ * (created / modified / deleted / renamed). Each watcher's output format has
+ * its own parser; the first parser that recognises a line wins, so support for
+ * another watcher is one more entry in LOG_PARSERS (or registerLogParser).
+ *
+ * A parser's parse(line) returns null or
+ *   { timestamp, file, kind, isDirectory?, oldPath?, move? }
+ * where move marks half of a rename: "from" (old path), "to" (new path) or
+ * "either" (fswatch's Renamed flag, which doesn't say which half it is).
+ * parseChangeLines() pairs the halves into single "renamed" events.
+ */
+
+// Plain fswatch output doesn't say what happened to the file
+const UNKNOWN_KIND = "changed"
+
+// Helper: Optional "[timestamp][tool]" prefix, plus the monitor script's "Change detected:"
+function splitPrefix(line, tool) {
+  const match = line.match(/^\[([^\]]+)\]\[([^\]]+)\]\s*(?:Change detected:\s*)?(.*)$/)
+  if (match) return match[2] === tool ? { timestamp: match[1], rest: match[3] } : null
+  return { timestamp: "", rest: line }
+}
+
+// --- fswatch ---------------------------------------------------------------
+
+// Event flags printed by `fswatch -x` after the path
+const FSWATCH_FLAGS = new Set([
+  "NoOp", "PlatformSpecific", "Created", "Updated", "Removed", "Renamed",
+  "OwnerModified", "AttributeModified", "MovedFrom", "MovedTo",
+  "IsFile", "IsDir", "IsSymLink", "Link", "Overflow", "CloseWrite",
+])
+
+/**
+ * fswatch: [timestamp][fswatch] Change detected: <file> [flags...]
+ * Without -x there are no flags and the kind is unknown ("changed").
+ */
+const fswatchParser = {
+  name: "fswatch",
+  parse(line) {
+    const prefix = splitPrefix(line, "fswatch")
+    if (!prefix || !prefix.timestamp || !prefix.rest) return null
+
+    // Flags are trailing words; everything before them is the path (which may contain spaces)
+    const words = prefix.rest.split(" ")
+    const flags = new Set()
+    while (words.length > 1 && FSWATCH_FLAGS.has(words[words.length - 1])) {
+      flags.add(words.pop())
+    }
+    const event = { timestamp: prefix.timestamp, file: words.join(" "), kind: UNKNOWN_KIND }
+    if (flags.size === 0) return event
+
+    if (flags.has("IsDir")) event.isDirectory = true
+    else if (flags.has("IsFile") || flags.has("IsSymLink")) event.isDirectory = false
+
+    // fswatch coalesces flags, so pick the most significant
+    if (flags.has("MovedFrom")) event.move = "from"
+    else if (flags.has("MovedTo")) event.move = "to"
+    else if (flags.has("Renamed")) event.move = "either"
+    else if (flags.has("Removed")) event.kind = "deleted"
+    else if (flags.has("Created")) event.kind = "created"
+    else if (
+      flags.has("Updated") ||
+      flags.has("CloseWrite") ||
+      flags.has("AttributeModified") ||
+      flags.has("OwnerModified")
+    ) {
+      event.kind = "modified"
+    }
+
+    if (event.move) event.kind = "renamed"
+    return event
+  },
+}
+
+// --- inotifywait -----------------------------------------------------------
+
+const INOTIFY_EVENTS = new Set([
+  "ACCESS", "MODIFY", "ATTRIB", "CLOSE_WRITE", "CLOSE_NOWRITE", "CLOSE", "OPEN",
+  "MOVED_FROM", "MOVED_TO", "MOVE", "MOVE_SELF", "CREATE", "DELETE", "DELETE_SELF",
+  "UNMOUNT", "ISDIR",
+])
+
+// Helper: Comma-separated inotify event list, or null if the word isn't one
+function parseInotifyEvents(word) {
+  const events = word.split(",")
+  return events.every((e) => INOTIFY_EVENTS.has(e)) ? new Set(events) : null
+}
+
+/**
+ * inotifywait, either inside the monitor's log prefix or raw:
+ *   [timestamp][inotifywait] Change detected: <dir>/ <EVENTS> <name>   (default format)
+ *   [timestamp][inotifywait] Change detected: <path> <EVENTS>          (--format '%w%f %e')
+ *   <YYYY-MM-DD HH:MM:SS> <path> <EVENTS>                              (--format '%T %w%f %e')
+ * Read-only events (OPEN, ACCESS, CLOSE_NOWRITE) are not changes and are skipped.
+ */
+const inotifyParser = {
+  name: "inotifywait",
+  parse(line) {
+    const prefix = splitPrefix(line, "inotifywait")
+    if (!prefix) return null
+    let { timestamp, rest } = prefix
+
+    if (!timestamp) {
+      const timed = rest.match(/^(\d{4}-\d{2}-\d{2}[ T]\d{2}:\d{2}:\d{2})\s+(.*)$/)
+      if (timed) [, timestamp, rest] = timed
+    }
+
+    let file
+    let events
+    const defaultFormat = rest.match(/^(\/.*\/) ([A-Z_,]+) (.+)$/)
+    const pathFirst = rest.match(/^(\/.*?) ([A-Z_,]+)$/)
+    if (defaultFormat && (events = parseInotifyEvents(defaultFormat[2]))) {
+      file = defaultFormat[1] + defaultFormat[3]
+    } else if (pathFirst && (events = parseInotifyEvents(pathFirst[2]))) {
+      file = pathFirst[1]
+    } else {
+      return null
+    }
+
+    const event = { timestamp, file, kind: null, isDirectory: events.has("ISDIR") }
+    if (events.has("MOVED_FROM")) event.move = "from"
+    else if (events.has("MOVED_TO")) event.move = "to"
+    else if (events.has("DELETE") || events.has("DELETE_SELF")) event.kind = "deleted"
+    else if (events.has("CREATE")) event.kind = "created"
+    else if (events.has("MODIFY") || events.has("CLOSE_WRITE") || events.has("ATTRIB")) event.kind = "modified"
+
+    if (event.move) event.kind = "renamed"
+    return event.kind ? event : null
+  },
+}
+
+// --- Built-in Node watcher ------------------------------------------------
+
+const NATIVE_KINDS = new Set(["created", "modified", "deleted", "renamed"])
+
+/**
+ * Built-in watcher (nativeWatcher.js), already typed and paired:
+ *   [timestamp][native] {"kind":"renamed","file":"/new","oldPath":"/old","isDirectory":false}
+ */
+const nativeParser = {
+  name: "native",
+  parse(line) {
+    const match = line.match(/^\[([^\]]+)\]\[native\] (\{.*\})$/)
+    if (!match) return null
+    let event
+    try {
+      event = JSON.parse(match[2])
+    } catch {
+      return null
+    }
+    if (!NATIVE_KINDS.has(event.kind) || typeof event.file !== "string") return null
+    return {
+      timestamp: match[1],
+      file: event.file,
+      kind: event.kind,
+      isDirectory: Boolean(event.isDirectory),
+      ...(typeof event.oldPath === "string" && { oldPath: event.oldPath }),
+    }
+  },
+}
+
+export const LOG_PARSERS = [fswatchParser, inotifyParser, nativeParser]
+
+/**
+ * Add a parser for another watcher's output (tried after the built-in ones)
+ */
+export function registerLogParser(parser) {
+  if (typeof parser?.parse !== "function") {
+    throw new TypeError("A log parser needs a parse(line) function")
+  }
+  LOG_PARSERS.push(parser)
+}
+
+/**
+ * Parse one log line with the first parser that recognises it
+ */
+export function parseChangeLine(line) {
+  for (const parser of LOG_PARSERS) {
+    const event = parser.parse(line)
+    if (event) return event
+  }
+  return null
+}
+
+// Helper: Final event shape (drops the move marker)
+function toEvent({ move, ...event }, line) {
+  return { ...event, line }
+}
+
+// Helper: Pairs rename halves across consecutive lines - push(text, line) returns the events
+// that line completes, end() the one still waiting for its other half
+function createLinePairer() {
+  let pendingMove = null
+
+  const flushMove = () => {
+    if (!pendingMove) return []
+    const { event, line } = pendingMove
+    if (event.move === "from") event.kind = "deleted"
+    else if (event.move === "to") event.kind = "created"
+    pendingMove = null
+    return [toEvent(event, line)]
+  }
+
+  return {
+    push(text, line) {
+      const event = parseChangeLine(text)
+      if (!event) return []
+
+      if (pendingMove && event.move) {
+        const first = pendingMove.event.move
+        const pairs =
+          (first === "from" && event.move === "to") || (first === "either" && event.move === "either")
+        if (pairs) {
+          const renamed = toEvent({ ...event, kind: "renamed", oldPath: pendingMove.event.file }, line)
+          pendingMove = null
+          return [renamed]
+        }
+      }
+
+      const flushed = flushMove()
+      if (event.move) {
+        pendingMove = { event, line }
+        return flushed
+      }
+      return [...flushed, toEvent(event, line)]
+    },
+
+    end: flushMove,
+  }
+}
+
+/**
+ * Parse a whole log into change events, pairing rename halves
+ *
+ * A "from" half followed directly by a "to" half (or two consecutive fswatch
+ * Renamed events) becomes one "renamed" event on the new path, with oldPath.
+ * A lone "from" means the file was moved out of the watched tree (deleted);
+ * a lone "to" means it was moved in (created). A lone fswatch Renamed stays
+ * "renamed", since fswatch doesn't say which side it was.
+ *
+ * Each event carries `line` - the 1-based line it came from (for renames,
+ * the line of the new path).
+ */
+export function parseChangeLines(lines) {
+  const pairer = createLinePairer()
+  const events = lines.flatMap((text, i) => pairer.push(text, i + 1))
+  return [...events, ...pairer.end()]
+}
+
+/**
+ * parseChangeLines for an async iterable of lines (e.g. a log read with
+ * readline), yielding each event as soon as its line is read
+ */
+export async function* streamChangeLines(lines) {
+  const pairer = createLinePairer()
+  let line = 0
+  for await (const text of lines) {
+    yield* pairer.push(text, ++line)
+  }
+  yield* pairer.end()
+}
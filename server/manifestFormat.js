@@ -0,0 +1,265 @@
+/**
+ * LHI Directory Monitor - Manifest Formats
+ *
+ * .lhi_manifest comes in two formats, told apart by its first character:
+ *   text - the banner layout written by lhi_directory_monitor.sh (unversioned)
+ *   json - a versioned schema, written by the native watcher:
+ *
+ *   {
+ *     "schema": "lhi-manifest",
+ *     "version": 1,
+ *     "directory": "/abs/watch/path",
+ *     "generated": "2026-01-19T21:10:57.000Z",
+ *     "summary": { "files": 123, "directories": 45 },
+ *     "entries": [
+ *       { "path": "src", "type": "directory", "mtime": "...", "mode": "0755" },
+ *       { "path": "src/a.ts", "type": "file", "size": 1234, "mtime": "...", "mode": "0644", "hash": "sha256:..." }
+ *     ]
+ *   }
+ *
+ * Paths are relative to the directory; mtime is ISO 8601, mode the octal
+ * permission bits, and hash is optional. Both formats parse to the same
+ * shape, with modification times as local "YYYY-MM-DD HH:MM:SS" like the
+ * text format's, so everything downstream reads them alike.
+ */
+
+export const MANIFEST_SCHEMA = "lhi-manifest"
+export const MANIFEST_VERSION = 1
+// JSON schema versions this backend can read
+export const SUPPORTED_VERSIONS = [1]
+
+const pad = (n) => String(n).padStart(2, "0")
+
+// Helper: Local "YYYY-MM-DD HH:MM:SS" (manifest modification times and log timestamps)
+export function formatLocalTime(date) {
+  return (
+    `${date.getFullYear()}-${pad(date.getMonth() + 1)}-${pad(date.getDate())} ` +
+    `${pad(date.getHours())}:${pad(date.getMinutes())}:${pad(date.getSeconds())}`
+  )
+}
+
+// Helper: Octal permission bits of a stat mode ("0644")
+function formatMode(mode) {
+  return (mode & 0o777).toString(8).padStart(4, "0")
+}
+
+// Helper: Directories implied by the files' paths
+function countDirectories(files) {
+  const directories = new Set()
+  for (const file of files) {
+    const parts = file.path.split("/")
+    let currentPath = ""
+    for (let i = 0; i < parts.length - 1; i++) {
+      currentPath = currentPath ? `${currentPath}/${parts[i]}` : parts[i]
+      directories.add(currentPath)
+    }
+  }
+  return directories.size
+}
+
+// Helper: Parse the text-based manifest format
+// Format:
+// ======================================================================
+// LHI Directory Monitor - MANIFEST
+// ======================================================================
+// Monitor PID: 2113
+// Generated by: LifeHack Innovations Directory Monitor v1.1
+// Timestamp: 2026-01-19 04:10:57 PM EST
+// Directory: /Users/patrickwatson/lhi_scripts
+// ...
+// File Listing:
+// -------------
+// ".claude/PLAN.md" (4422 bytes) - Modified: 2025-08-06 13:58:55
+// ...
+// Summary:
+// --------
+// Total Files: 123
+// Total Directories: 45
+function parseTextManifest(content) {
+  const lines = content.split("\n")
+  const result = {
+    format: "text",
+    version: null,
+    directory: null,
+    timestamp: null,
+    total_files: 0,
+    total_directories: 0,
+  }
+
+  const files = []
+  let inFileListing = false
+  let inSummary = false
+
+  for (const line of lines) {
+    // Parse header info
+    if (line.startsWith("Timestamp:")) {
+      result.timestamp = line.replace("Timestamp:", "").trim()
+    } else if (line.startsWith("Directory:")) {
+      result.directory = line.replace("Directory:", "").trim()
+    } else if (line.startsWith("File Listing:")) {
+      inFileListing = true
+      inSummary = false
+      continue
+    } else if (line.startsWith("Summary:")) {
+      inFileListing = false
+      inSummary = true
+      continue
+    } else if (line.startsWith("-------------") || line.startsWith("--------")) {
+      continue
+    }
+
+    // Parse summary section (takes precedence for counts)
+    if (inSummary && line.trim()) {
+      const filesMatch = line.match(/^Total Files:\s*(\d+)/)
+      const dirsMatch = line.match(/^Total Directories:\s*(\d+)/)
+      if (filesMatch) {
+        result.total_files = parseInt(filesMatch[1], 10)
+      }
+      if (dirsMatch) {
+        result.total_directories = parseInt(dirsMatch[1], 10)
+      }
+    }
+
+    // Parse file entries
+    if (inFileListing && line.trim() && !line.startsWith("Summary:")) {
+      // Format: "path/to/file.ext" (1234 bytes) - Modified: 2025-08-06 13:58:55
+      // The path isn't escaped, so it runs to the last `" (` - quotes inside it are kept
+      const match = line.match(/^"(.+)"\s+\((\d+)\s+bytes\)\s+-\s+Modified:\s+(.+)$/)
+      if (match) {
+        const [, filePath, size, modified] = match
+        files.push({
+          path: filePath,
+          type: "file",
+          size: parseInt(size, 10),
+          modified: modified.trim(),
+        })
+      }
+    }
+  }
+
+  // If summary section didn't provide counts, calculate from files
+  if (result.total_files === 0) {
+    result.total_files = files.length
+  }
+
+  // Count unique directories from file paths if summary didn't provide it
+  if (result.total_directories === 0 && files.length > 0) {
+    result.total_directories = countDirectories(files)
+  }
+
+  result.files = files
+  result.directories = []
+  return result
+}
+
+// Helper: Parse a JSON manifest; throws on anything that isn't a supported version of the schema
+function parseJsonManifest(content) {
+  let data
+  try {
+    data = JSON.parse(content)
+  } catch (error) {
+    throw new Error(`Manifest is not valid JSON: ${error.message}`)
+  }
+  if (data?.schema !== MANIFEST_SCHEMA) {
+    throw new Error(`Not an LHI manifest (schema: ${JSON.stringify(data?.schema ?? null)})`)
+  }
+  if (!SUPPORTED_VERSIONS.includes(data.version)) {
+    throw new Error(
+      `Unsupported manifest version ${JSON.stringify(data.version)} (this backend reads version ${SUPPORTED_VERSIONS.join(", ")})`
+    )
+  }
+  if (!Array.isArray(data.entries)) {
+    throw new Error("Manifest has no entries list")
+  }
+
+  const files = []
+  const directories = []
+  for (const entry of data.entries) {
+    if (typeof entry?.path !== "string" || !entry.path) continue
+    const mtime = entry.mtime ? new Date(entry.mtime) : null
+    const fields = {
+      path: entry.path,
+      type: entry.type,
+      modified: mtime && !Number.isNaN(mtime.getTime()) ? formatLocalTime(mtime) : undefined,
+      ...(typeof entry.mode === "string" && { mode: entry.mode }),
+    }
+    if (entry.type === "directory") {
+      directories.push(fields)
+    } else if (entry.type === "file") {
+      files.push({
+        ...fields,
+        size: Number.isFinite(entry.size) ? entry.size : 0,
+        ...(typeof entry.hash === "string" && { hash: entry.hash }),
+      })
+    }
+  }
+
+  const generated = data.generated ? new Date(data.generated) : null
+  return {
+    format: "json",
+    version: data.version,
+    directory: typeof data.directory === "string" ? data.directory : null,
+    timestamp: generated && !Number.isNaN(generated.getTime()) ? formatLocalTime(generated) : null,
+    total_files: Number.isInteger(data.summary?.files) ? data.summary.files : files.length,
+    total_directories: Number.isInteger(data.summary?.directories)
+      ? data.summary.directories
+      : Math.max(directories.length, countDirectories(files)),
+    files,
+    directories,
+  }
+}
+
+/**
+ * Parse .lhi_manifest content in either format
+ * Returns { format, version, directory, timestamp, total_files,
+ * total_directories, files, directories } - files are
+ * { path, type, size, modified, mode?, hash? }; directories (JSON manifests
+ * list them, so empty ones aren't lost) are { path, type, modified, mode? }.
+ * version is null for the text format. Throws on a JSON manifest this backend
+ * can't read.
+ */
+export function parseManifest(content) {
+  return content.trimStart().startsWith("{") ? parseJsonManifest(content) : parseTextManifest(content)
+}
+
+/**
+ * Render a scan (nativeWatcher.js scanDirectory) as a JSON manifest of the current version
+ * One entry per line, so the file stays readable and diffable
+ */
+export function formatJsonManifest(watchPath, scan, date = new Date()) {
+  const entries = []
+  for (const relPath of [...scan.directories].sort()) {
+    const stats = scan.directoryStats?.get(relPath)
+    entries.push({
+      path: relPath,
+      type: "directory",
+      ...(stats && { mtime: new Date(stats.mtimeMs).toISOString(), mode: formatMode(stats.mode) }),
+    })
+  }
+  for (const relPath of [...scan.files.keys()].sort()) {
+    const { size, mtimeMs, mode, hash } = scan.files.get(relPath)
+    entries.push({
+      path: relPath,
+      type: "file",
+      size,
+      mtime: new Date(mtimeMs).toISOString(),
+      ...(mode !== undefined && { mode: formatMode(mode) }),
+      ...(hash && { hash }),
+    })
+  }
+
+  const header = JSON.stringify(
+    {
+      schema: MANIFEST_SCHEMA,
+      version: MANIFEST_VERSION,
+      directory: watchPath,
+      generated: date.toISOString(),
+      summary: { files: scan.files.size, directories: scan.directories.size },
+    },
+    null,
+    2
+  )
+  const lines = entries.map((entry) => `    ${JSON.stringify(entry)}`)
+  // Splice the entries in before the header's closing brace
+  return `${header.slice(0, -2)},\n  "entries": [${lines.length ? `\n${lines.join(",\n")}\n  ` : ""}]\n}\n`
+}
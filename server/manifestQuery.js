@@ -0,0 +1,159 @@
+/**
+ * LHI Directory Monitor - Manifest Search
+ *
+ * Answers file tree searches from the parsed manifest, so the UI doesn't need
+ * the whole tree to find something in it.
+ *
+ * The name query is either a case-insensitive substring of the entry name, or
+ * - when it contains *, ?, [ or / - a glob with exclude-pattern semantics
+ * ("*.ts" at any depth, "src/*.ts" anchored to the root). Facets (extension,
+ * size range, modified range) only apply to files; directories match on name
+ * alone and are left out as soon as a facet is set.
+ */
+
+import { compilePattern } from "../shared/excludeMatcher.js"
+
+export const DEFAULT_SEARCH_LIMIT = 1000
+export const MAX_SEARCH_LIMIT = 10000
+
+/**
+ * Last path segment of a manifest path
+ */
+export function baseName(entryPath) {
+  return entryPath.slice(entryPath.lastIndexOf("/") + 1)
+}
+
+/**
+ * Lower-case extension without the dot ("" if none; dotfiles have none)
+ */
+export function extensionOf(name) {
+  const dot = name.lastIndexOf(".")
+  return dot > 0 ? name.slice(dot + 1).toLowerCase() : ""
+}
+
+// Helper: Manifest "YYYY-MM-DD HH:MM:SS" (local time) to epoch ms, null if unparseable
+function parseModified(modified) {
+  if (!modified) return null
+  const ms = Date.parse(modified.replace(" ", "T"))
+  return Number.isNaN(ms) ? null : ms
+}
+
+// Helper: Name test for the query - returns the [start, end) range to highlight, or null
+function createNameTest(query) {
+  if (/[*?[/]/.test(query)) {
+    const compiled = compilePattern(query)
+    if (!compiled) return () => null
+    return (entryPath, name, isDirectory) =>
+      (!compiled.directoryOnly || isDirectory) && compiled.regex.test(entryPath) ? [0, name.length] : null
+  }
+  const needle = query.toLowerCase()
+  return (entryPath, name) => {
+    const index = name.toLowerCase().indexOf(needle)
+    return index === -1 ? null : [index, index + needle.length]
+  }
+}
+
+/**
+ * Extension counts over every file in the manifest, most common first
+ */
+export function manifestExtensions(files) {
+  const counts = new Map()
+  for (const file of files) {
+    const ext = extensionOf(baseName(file.path))
+    counts.set(ext, (counts.get(ext) || 0) + 1)
+  }
+  return [...counts]
+    .map(([ext, count]) => ({ ext, count }))
+    .sort((a, b) => b.count - a.count || a.ext.localeCompare(b.ext))
+}
+
+/**
+ * File test for the search options (query and facets, see queryManifest)
+ * Returns (file) => the highlight range of the name ([start, end), or null when
+ * there is no query), or false when the file doesn't match
+ */
+export function createFileFilter(options = {}) {
+  const query = (options.query || "").trim()
+  const extensions = options.extensions?.length ? new Set(options.extensions) : null
+  const testName = query ? createNameTest(query) : () => null
+
+  return (file) => {
+    const name = baseName(file.path)
+    const highlight = query ? testName(file.path, name, false) : null
+    if (query && !highlight) return false
+    if (extensions && !extensions.has(extensionOf(name))) return false
+    if (options.minSize != null && !(file.size >= options.minSize)) return false
+    if (options.maxSize != null && !(file.size <= options.maxSize)) return false
+    if (options.since != null || options.until != null) {
+      const modified = parseModified(file.modified)
+      if (modified === null) return false
+      if (options.since != null && modified < options.since) return false
+      if (options.until != null && modified > options.until) return false
+    }
+    return highlight
+  }
+}
+
+/**
+ * Search a parsed manifest
+ *
+ * Options:
+ *   query      - name substring or glob
+ *   extensions - file extensions to include (lower-case, no dot; "" = no extension)
+ *   minSize / maxSize - bytes, inclusive
+ *   since / until     - epoch ms bounds on the modification time, inclusive
+ *   limit      - max matches returned (default 1000, max 10000)
+ *
+ * Returns { matches: [{ path, type, size?, modified?, highlight }], total, truncated, extensions }
+ * highlight is the [start, end) range of the name that matched, or null when only
+ * facets matched. With no query and no facets there is nothing to search for:
+ * matches is empty and only the extension facet counts are returned.
+ */
+export function queryManifest(files, options = {}) {
+  const limit = Math.min(Math.max(parseInt(options.limit, 10) || DEFAULT_SEARCH_LIMIT, 1), MAX_SEARCH_LIMIT)
+  const query = (options.query || "").trim()
+  const extensions = options.extensions?.length ? new Set(options.extensions) : null
+  const hasFacets =
+    extensions !== null ||
+    options.minSize != null ||
+    options.maxSize != null ||
+    options.since != null ||
+    options.until != null
+
+  const result = { matches: [], total: 0, truncated: false, extensions: manifestExtensions(files) }
+  if (!query && !hasFacets) return result
+
+  const testName = query ? createNameTest(query) : () => null
+  const add = (match) => {
+    result.total++
+    if (result.matches.length < limit) result.matches.push(match)
+  }
+
+  // Directories only exist implicitly in the file list
+  if (query && !hasFacets) {
+    const directories = new Set()
+    for (const file of files) {
+      let slash = file.path.lastIndexOf("/")
+      while (slash > 0) {
+        const dir = file.path.slice(0, slash)
+        if (directories.has(dir)) break
+        directories.add(dir)
+        slash = dir.lastIndexOf("/")
+      }
+    }
+    for (const dir of [...directories].sort()) {
+      const highlight = testName(dir, baseName(dir), true)
+      if (highlight) add({ path: dir, type: "directory", highlight })
+    }
+  }
+
+  const testFile = createFileFilter(options)
+  for (const file of files) {
+    const highlight = testFile(file)
+    if (highlight === false) continue
+    add({ path: file.path, type: "file", size: file.size, modified: file.modified, highlight })
+  }
+
+  result.truncated = result.total > result.matches.length
+  return result
+}
@@ -0,0 +1,102 @@
+/**
+ * LHI Directory Monitor - Disk Usage
+ *
+ * Size analytics over the parsed manifest tree, for the Usage view: a treemap
+ * of one directory a few levels deep, its largest files and subdirectories,
+ * and a breakdown by extension. Directory sizes are the totalSize rollups
+ * buildTreeFromFiles puts on every directory node (alongside fileCount and
+ * dirCount), so sizes count every file below a directory.
+ */
+
+import { baseName, extensionOf } from "./manifestQuery.js"
+
+export const DEFAULT_USAGE_TOP = 20
+export const MAX_USAGE_TOP = 200
+export const DEFAULT_TREEMAP_DEPTH = 2
+export const MAX_TREEMAP_DEPTH = 4
+// Largest children kept per treemap node; the rest are merged into one "other" node
+export const MAX_TREEMAP_CHILDREN = 100
+
+// Helper: Size of a tree entry - its own for files, the rollup for directories
+function sizeOf(entry) {
+  return (entry.type === "directory" ? entry.totalSize : entry.size) || 0
+}
+
+// Helper: Treemap nodes for a level, largest first, `depth` levels deep
+// Empty files and directories take no area and are left out
+function treemapLevel(entries, depth) {
+  const sorted = entries.filter((e) => sizeOf(e) > 0).sort((a, b) => sizeOf(b) - sizeOf(a))
+  const nodes = sorted.slice(0, MAX_TREEMAP_CHILDREN).map((entry) => {
+    const node = { name: baseName(entry.path), path: entry.path, type: entry.type, size: sizeOf(entry) }
+    if (entry.type === "directory") {
+      node.fileCount = entry.fileCount || 0
+      if (depth > 1 && entry.children?.length) node.children = treemapLevel(entry.children, depth - 1)
+    }
+    return node
+  })
+
+  const rest = sorted.slice(MAX_TREEMAP_CHILDREN)
+  if (rest.length > 0) {
+    nodes.push({
+      name: `${rest.length.toLocaleString()} smaller items`,
+      path: null,
+      type: "other",
+      size: rest.reduce((total, entry) => total + sizeOf(entry), 0),
+    })
+  }
+  return nodes
+}
+
+// Helper: Keep the `top` largest of `items` by size (items arrive in any order)
+function largest(items, top) {
+  return items.sort((a, b) => b.size - a.size || a.path.localeCompare(b.path)).slice(0, top)
+}
+
+/**
+ * Disk usage of one directory level of the manifest tree (its children array)
+ *
+ * Options:
+ *   depth - treemap levels below the directory (default 2, max 4)
+ *   top   - largest files / directories returned (default 20, max 200)
+ *
+ * Returns { totalSize, totalFiles, totalDirectories, treemap, largestFiles,
+ * largestDirectories, extensions } - treemap nodes are
+ * { name, path, type, size, fileCount?, children? }, with type "other" (and
+ * path null) for the merged smaller items; extensions are
+ * { ext, count, size }, largest first.
+ */
+export function manifestUsage(level, options = {}) {
+  const depth = Math.min(Math.max(parseInt(options.depth, 10) || DEFAULT_TREEMAP_DEPTH, 1), MAX_TREEMAP_DEPTH)
+  const top = Math.min(Math.max(parseInt(options.top, 10) || DEFAULT_USAGE_TOP, 1), MAX_USAGE_TOP)
+
+  const files = []
+  const directories = []
+  const extensions = new Map()
+  const walk = (entries) => {
+    for (const entry of entries) {
+      if (entry.type === "directory") {
+        directories.push({ path: entry.path, size: entry.totalSize || 0, fileCount: entry.fileCount || 0 })
+        if (entry.children) walk(entry.children)
+      } else {
+        const size = entry.size || 0
+        files.push({ path: entry.path, size, modified: entry.modified })
+        const ext = extensionOf(baseName(entry.path))
+        const stats = extensions.get(ext) || { ext, count: 0, size: 0 }
+        stats.count++
+        stats.size += size
+        extensions.set(ext, stats)
+      }
+    }
+  }
+  walk(level)
+
+  return {
+    totalSize: level.reduce((total, entry) => total + sizeOf(entry), 0),
+    totalFiles: files.length,
+    totalDirectories: directories.length,
+    treemap: treemapLevel(level, depth),
+    largestFiles: largest(files, top),
+    largestDirectories: largest(directories, top),
+    extensions: [...extensions.values()].sort((a, b) => b.size - a.size || a.ext.localeCompare(b.ext)),
+  }
+}
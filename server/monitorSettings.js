@@ -0,0 +1,109 @@
+/**
+ * LHI Directory Monitor - Per-Directory Monitor Settings
+ *
+ * Stored in the directory's registry.json entry as "settings" and applied
+ * the next time its monitor starts:
+ *   debounce        - ms to wait after a change before rescanning
+ *   verbose         - log every change (script: --verbose)
+ *   maxDepth        - directory levels below the root to include (1 = only
+ *                     its direct contents), null for no limit
+ *   followSymlinks  - descend into symlinked directories and list symlinked files
+ *   includeHidden   - include dot files and directories
+ *   regenInterval   - seconds between full manifest regenerations even
+ *                     without changes, null for only on change
+ *
+ * The native watcher takes them all as options. lhi_directory_monitor.sh has
+ * a flag for verbose (--verbose) only, so the others are native-only: the
+ * API refuses them for directories on the script backend.
+ */
+
+export const DEFAULT_SETTINGS = {
+  debounce: 1000,
+  verbose: true,
+  maxDepth: null,
+  followSymlinks: false,
+  includeHidden: true,
+  regenInterval: null,
+}
+
+// Allowed ranges: [min, max]
+export const SETTING_LIMITS = {
+  debounce: [0, 60000],
+  maxDepth: [1, 100],
+  regenInterval: [10, 86400],
+}
+
+// Settings only the native watcher applies
+export const NATIVE_ONLY_SETTINGS = ["debounce", "maxDepth", "followSymlinks", "includeHidden", "regenInterval"]
+
+// Settings that may be null (no limit / off)
+const NULLABLE = new Set(["maxDepth", "regenInterval"])
+
+/**
+ * Error with an HTTP status, thrown for an invalid setting
+ */
+export class SettingsError extends Error {
+  constructor(message, status = 400) {
+    super(message)
+    this.name = "SettingsError"
+    this.status = status
+  }
+}
+
+// Helper: Check one setting's value; returns it or throws SettingsError
+function validateSetting(name, value) {
+  if (value === null && NULLABLE.has(name)) return null
+
+  if (typeof DEFAULT_SETTINGS[name] === "boolean") {
+    if (typeof value !== "boolean") throw new SettingsError(`${name} must be true or false`)
+    return value
+  }
+
+  const [min, max] = SETTING_LIMITS[name]
+  if (!Number.isInteger(value) || value < min || value > max) {
+    throw new SettingsError(
+      `${name} must be a whole number from ${min} to ${max}${NULLABLE.has(name) ? " (or null)" : ""}`
+    )
+  }
+  return value
+}
+
+/**
+ * Validate a (partial) settings object from a request for a directory on `backend`
+ * Returns the validated settings; throws SettingsError on an unknown name, a bad
+ * value or a setting the backend doesn't apply
+ */
+export function validateSettings(input, backend) {
+  if (!input || typeof input !== "object" || Array.isArray(input)) {
+    throw new SettingsError("settings must be an object")
+  }
+  const settings = {}
+  for (const [name, value] of Object.entries(input)) {
+    if (!(name in DEFAULT_SETTINGS)) {
+      throw new SettingsError(`Unknown setting: ${name} (expected ${Object.keys(DEFAULT_SETTINGS).join(", ")})`)
+    }
+    if (backend === "script" && NATIVE_ONLY_SETTINGS.includes(name)) {
+      throw new SettingsError(`${name} is only applied by the native backend - switch the directory to it first`)
+    }
+    settings[name] = validateSetting(name, value)
+  }
+  return settings
+}
+
+/**
+ * Complete settings from a registry entry's stored ones: defaults for
+ * anything missing, and for anything invalid (e.g. hand-edited registry.json)
+ */
+export function resolveSettings(stored) {
+  const settings = { ...DEFAULT_SETTINGS }
+  if (!stored || typeof stored !== "object") return settings
+  for (const name of Object.keys(DEFAULT_SETTINGS)) {
+    if (!(name in stored)) continue
+    try {
+      settings[name] = validateSetting(name, stored[name])
+    } catch {
+      // Keep the default
+    }
+  }
+  return settings
+}
@@ -0,0 +1,328 @@
+/**
+ * LHI Directory Monitor - Built-in Node Watcher
+ *
+ * Keeps a directory's .lhi_manifest up to date without the monitor scripts
+ * or fswatch/inotifywait: recursive fs.watch where the platform supports it,
+ * periodic polling where it doesn't (or when the watch fails, e.g. inotify
+ * limits). The manifest is written in the versioned JSON format
+ * (manifestFormat.js); the backend reads it and the script's text format alike.
+ * Paths excluded by .lhi_excludes (or .gitignore) are left out of both the
+ * manifest and the change log.
+ *
+ * Every change triggers a (debounced) rescan; events come from diffing the
+ * scan with the previous one, so watch and poll modes report the same way.
+ * Scan depth, symlink following and hidden files follow the directory's
+ * monitor settings (monitorSettings.js).
+ * They are appended to MONITOR_DIR/logs/ldm_<name>_native_<hash>/changes.log as
+ *   [YYYY-MM-DD HH:MM:SS][native] {"kind":"created","file":"/abs/path","isDirectory":false}
+ * which the "native" parser in logParsers.js reads back.
+ */
+
+import fs from "fs"
+import fsp from "fs/promises"
+import path from "path"
+import { readExcludes } from "./excludes.js"
+import { nativeLogDirName } from "./changelog.js"
+import { createMatcher } from "../shared/excludeMatcher.js"
+import { formatJsonManifest, formatLocalTime } from "./manifestFormat.js"
+
+export const MANIFEST_FILE = ".lhi_manifest"
+export const DEFAULT_DEBOUNCE = 1000
+export const DEFAULT_POLL_INTERVAL = 5000
+
+// Helper: Matcher for the directory's current exclude patterns
+async function loadMatcher(watchPath) {
+  const { patterns } = await readExcludes(watchPath)
+  return createMatcher(patterns.map((p) => p.pattern))
+}
+
+// Helper: Stop a scan whose refresh was cancelled or timed out
+function checkAborted(signal) {
+  if (signal?.aborted) throw new Error("Refresh aborted")
+}
+
+/**
+ * Walk a directory, skipping excluded paths and the manifest itself
+ * Options: maxDepth (levels below the root, null = no limit), followSymlinks
+ * (otherwise symlinks are skipped), includeHidden (dot files and directories),
+ * signal (an AbortSignal - the walk stops with an error once it fires)
+ * Returns { files: Map<relPath, { size, mtimeMs, mode, ino }>, directories: Set<relPath>,
+ * directoryStats: Map<relPath, { mtimeMs, mode }> }
+ */
+export async function scanDirectory(
+  watchPath,
+  matcher,
+  { maxDepth = null, followSymlinks = false, includeHidden = true, signal } = {}
+) {
+  const files = new Map()
+  const directories = new Set()
+  const directoryStats = new Map()
+  // Real paths of the directories walked, so followed symlinks can't loop
+  const visited = new Set()
+
+  // depth: level of dir's entries below the root (1 for the root's own)
+  const walk = async (dir, rel, depth) => {
+    checkAborted(signal)
+    if (followSymlinks) {
+      try {
+        const real = await fsp.realpath(dir)
+        if (visited.has(real)) return
+        visited.add(real)
+      } catch {
+        return
+      }
+    }
+
+    let entries
+    try {
+      entries = await fsp.readdir(dir, { withFileTypes: true })
+    } catch (error) {
+      // Removed or unreadable while we walked - leave it out
+      if (["ENOENT", "ENOTDIR", "EACCES", "EPERM"].includes(error.code)) return
+      throw error
+    }
+
+    await Promise.all(
+      entries.map(async (entry) => {
+        const relPath = rel ? `${rel}/${entry.name}` : entry.name
+        checkAborted(signal)
+        if (!rel && entry.name.startsWith(MANIFEST_FILE)) return // Manifest and its temp files
+        if (!includeHidden && entry.name.startsWith(".")) return
+
+        let isDirectory = entry.isDirectory()
+        if (entry.isSymbolicLink()) {
+          if (!followSymlinks) return
+          try {
+            const target = await fsp.stat(path.join(dir, entry.name))
+            if (!target.isDirectory() && !target.isFile()) return
+            isDirectory = target.isDirectory()
+          } catch {
+            return // Dangling link
+          }
+        } else if (!isDirectory && !entry.isFile()) {
+          return
+        }
+        if (matcher.match(relPath, isDirectory).excluded) return
+
+        if (isDirectory) {
+          directories.add(relPath)
+          try {
+            const stats = await fsp.stat(path.join(dir, entry.name))
+            directoryStats.set(relPath, { mtimeMs: stats.mtimeMs, mode: stats.mode })
+          } catch {
+            // Removed since readdir - the walk below finds nothing either
+          }
+          if (maxDepth === null || depth < maxDepth) {
+            await walk(path.join(dir, entry.name), relPath, depth + 1)
+          }
+        } else {
+          try {
+            const stats = await fsp.stat(path.join(dir, entry.name))
+            files.set(relPath, { size: stats.size, mtimeMs: stats.mtimeMs, mode: stats.mode, ino: stats.ino })
+          } catch {
+            // Removed between readdir and stat
+          }
+        }
+      })
+    )
+  }
+
+  await walk(watchPath, "", 1)
+  checkAborted(signal)
+  return { files, directories, directoryStats }
+}
+
+// Helper: Replace the manifest in one step so readers never see half a file
+async function writeManifest(watchPath, content) {
+  const target = path.join(watchPath, MANIFEST_FILE)
+  const temp = `${target}.${process.pid}.tmp`
+  await fsp.writeFile(temp, content)
+  await fsp.rename(temp, target)
+}
+
+/**
+ * Scan a directory and write its manifest once (scanOptions as for scanDirectory)
+ * Nothing is written once scanOptions.signal has fired. Returns the scan
+ */
+export async function generateManifest(watchPath, scanOptions = {}) {
+  const scan = await scanDirectory(watchPath, await loadMatcher(watchPath), scanOptions)
+  checkAborted(scanOptions.signal)
+  await writeManifest(watchPath, formatJsonManifest(watchPath, scan))
+  return scan
+}
+
+/**
+ * Changes between two scans, as change events (relative paths)
+ * - files under a created or deleted directory are folded into that directory's event
+ * - a deleted and a created file with the same inode, size and mtime are one rename
+ */
+export function diffScans(before, after) {
+  const events = []
+  const createdDirs = new Set([...after.directories].filter((d) => !before.directories.has(d)))
+  const deletedDirs = new Set([...before.directories].filter((d) => !after.directories.has(d)))
+  // Whether any ancestor of relPath is in dirs
+  const insideAny = (dirs) => (relPath) => {
+    for (let slash = relPath.lastIndexOf("/"); slash > 0; slash = relPath.lastIndexOf("/", slash - 1)) {
+      if (dirs.has(relPath.slice(0, slash))) return true
+    }
+    return false
+  }
+  const inCreatedDir = insideAny(createdDirs)
+  const inDeletedDir = insideAny(deletedDirs)
+
+  for (const dir of deletedDirs) {
+    if (!inDeletedDir(dir)) events.push({ kind: "deleted", path: dir, isDirectory: true })
+  }
+  for (const dir of createdDirs) {
+    if (!inCreatedDir(dir)) events.push({ kind: "created", path: dir, isDirectory: true })
+  }
+
+  // Deleted files by inode, size and mtime (all kept by a rename) - candidates for the source of a rename
+  const renameKey = (file) => `${file.ino}|${file.size}|${file.mtimeMs}`
+  const deleted = new Map()
+  for (const [relPath, file] of before.files) {
+    if (after.files.has(relPath) || inDeletedDir(relPath)) continue
+    const key = renameKey(file)
+    if (!deleted.has(key)) deleted.set(key, [])
+    deleted.get(key).push(relPath)
+  }
+
+  for (const [relPath, file] of after.files) {
+    const old = before.files.get(relPath)
+    if (old) {
+      if (old.size !== file.size || old.mtimeMs !== file.mtimeMs) {
+        events.push({ kind: "modified", path: relPath, isDirectory: false })
+      }
+      continue
+    }
+    if (inCreatedDir(relPath)) continue
+
+    const oldPath = deleted.get(renameKey(file))?.shift()
+    if (oldPath) {
+      events.push({ kind: "renamed", path: relPath, oldPath, isDirectory: false })
+    } else {
+      events.push({ kind: "created", path: relPath, isDirectory: false })
+    }
+  }
+
+  for (const paths of deleted.values()) {
+    for (const relPath of paths) {
+      events.push({ kind: "deleted", path: relPath, isDirectory: false })
+    }
+  }
+  return events
+}
+
+// Helper: Change log for a watch path (named so changelog.js finds it next to the script's logs)
+function logFileFor(logsDir, watchPath) {
+  return path.join(logsDir, nativeLogDirName(watchPath), "changes.log")
+}
+
+/**
+ * Start watching a directory
+ * Writes the manifest straight away, then again after each batch of changes -
+ * and every regenInterval seconds regardless, if set. verbose also prints
+ * each change to the console. scanOptions as for scanDirectory.
+ * Returns { startedAt, mode: "watch" | "poll", close() }
+ */
+export async function startNativeWatcher(
+  watchPath,
+  {
+    logsDir,
+    debounce = DEFAULT_DEBOUNCE,
+    pollInterval = DEFAULT_POLL_INTERVAL,
+    regenInterval = null,
+    verbose = false,
+    scanOptions = {},
+    onError = () => {},
+  }
+) {
+  const logFile = logFileFor(logsDir, watchPath)
+  await fsp.mkdir(path.dirname(logFile), { recursive: true })
+
+  let previous = await generateManifest(watchPath, scanOptions)
+  let closed = false
+  let timer = null
+  let pollTimer = null
+  let regenTimer = null
+  let watcher = null
+  // Rescans run one at a time; a change during a rescan schedules another
+  let rescanning = Promise.resolve()
+
+  // regenerate: write the manifest even if nothing changed
+  const rescan = (regenerate = false) => {
+    rescanning = rescanning.then(async () => {
+      if (closed) return
+      try {
+        const scan = await scanDirectory(watchPath, await loadMatcher(watchPath), scanOptions)
+        const events = diffScans(previous, scan)
+        previous = scan
+        if (events.length === 0) {
+          if (regenerate) await writeManifest(watchPath, formatJsonManifest(watchPath, scan))
+          return
+        }
+
+        const timestamp = formatLocalTime(new Date())
+        const lines = events.map(({ kind, path: relPath, oldPath, isDirectory }) => {
+          const event = { kind, file: path.join(watchPath, relPath), isDirectory }
+          if (oldPath) event.oldPath = path.join(watchPath, oldPath)
+          return `[${timestamp}][native] ${JSON.stringify(event)}\n`
+        })
+        await fsp.appendFile(logFile, lines.join(""))
+        if (verbose) process.stdout.write(lines.join(""))
+        await writeManifest(watchPath, formatJsonManifest(watchPath, scan))
+      } catch (error) {
+        onError(error)
+      }
+    })
+    return rescanning
+  }
+
+  const schedule = () => {
+    if (closed) return
+    clearTimeout(timer)
+    timer = setTimeout(() => rescan(), debounce)
+  }
+
+  const startPolling = () => {
+    if (closed || pollTimer) return
+    handle.mode = "poll"
+    pollTimer = setInterval(() => rescan(), pollInterval)
+  }
+
+  const handle = {
+    startedAt: Date.now(),
+    mode: "watch",
+    close() {
+      closed = true
+      clearTimeout(timer)
+      clearInterval(pollTimer)
+      clearInterval(regenTimer)
+      watcher?.close()
+    },
+  }
+
+  if (regenInterval) {
+    regenTimer = setInterval(() => rescan(true), regenInterval * 1000)
+  }
+
+  try {
+    watcher = fs.watch(watchPath, { recursive: true }, (eventType, filename) => {
+      // Our own manifest writes aren't changes
+      if (filename && String(filename).startsWith(MANIFEST_FILE)) return
+      schedule()
+    })
+    watcher.on("error", (error) => {
+      // e.g. the inotify watch limit - keep going by polling
+      onError(error)
+      watcher.close()
+      watcher = null
+      startPolling()
+    })
+  } catch (error) {
+    // Recursive watching isn't supported here
+    startPolling()
+  }
+
+  return handle
+}
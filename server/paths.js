@@ -0,0 +1,184 @@
+/**
+ * LHI Directory Monitor - Directory Path Validation
+ *
+ * Every directory path that reaches the backend - URL path parameters and
+ * request bodies alike - goes through validateDirectoryPath() before it is
+ * used. Paths are only ever handed to other programs as single arguments
+ * (spawn / execFile, never a shell), so quotes, `$()` and the like are just
+ * characters in a name; what is rejected is anything that can't be a real
+ * absolute directory path or that would break a line-based log or manifest.
+ *
+ * createPathSandbox() then confines directories to an allowlist of roots,
+ * comparing real paths so neither `..` nor a symlink can lead outside them.
+ * checkNewDirectory() decides whether a directory may be registered.
+ */
+
+import fs from "fs/promises"
+import path from "path"
+
+// Longest path accepted (PATH_MAX on Linux)
+export const MAX_PATH_LENGTH = 4096
+
+/**
+ * Error with an HTTP status, thrown for an unusable directory path
+ */
+export class PathError extends Error {
+  constructor(message, status = 400) {
+    super(message)
+    this.name = "PathError"
+    this.status = status
+  }
+}
+
+/**
+ * Check a directory path and return it normalized (absolute, no `.`/`..`
+ * segments or trailing slash). Throws PathError if it is unusable.
+ */
+export function validateDirectoryPath(value) {
+  if (typeof value !== "string" || value.trim() === "") {
+    throw new PathError("Directory path is required")
+  }
+  if (value.length > MAX_PATH_LENGTH) {
+    throw new PathError(`Directory path is longer than ${MAX_PATH_LENGTH} characters`)
+  }
+  // NUL truncates paths in system calls; newlines and other control characters split log lines
+  if (/[\x00-\x1f\x7f]/.test(value)) {
+    throw new PathError("Directory path contains control characters")
+  }
+  if (!path.isAbsolute(value)) {
+    throw new PathError(`Directory path must be absolute: ${value}`)
+  }
+  return path.resolve(value)
+}
+
+/**
+ * Directory path from a URL path parameter
+ * nginx proxy may decode %2F to / and strip leading /, so we need to handle both cases
+ */
+export function directoryFromParam(encodedPath) {
+  let watchPath
+  try {
+    watchPath = decodeURIComponent(encodedPath)
+  } catch {
+    throw new PathError("Directory path is not valid URL encoding")
+  }
+  // Ensure absolute path (nginx proxy may strip leading /)
+  if (!watchPath.startsWith("/")) {
+    watchPath = "/" + watchPath
+  }
+  return validateDirectoryPath(watchPath)
+}
+
+// Helper: Real path of p, resolving what exists of it (a deleted directory keeps
+// its parent's real path, so a symlinked ancestor is still seen through)
+async function realpathExisting(p) {
+  try {
+    return await fs.realpath(p)
+  } catch (error) {
+    if (error.code !== "ENOENT" && error.code !== "ENOTDIR") throw error
+    const parent = path.dirname(p)
+    if (parent === p) return p
+    return path.join(await realpathExisting(parent), path.basename(p))
+  }
+}
+
+// Whether child is dir or inside it (lexically - pass real paths to see through symlinks)
+export function isWithin(child, dir) {
+  const relative = path.relative(dir, child)
+  if (relative === "") return true
+  return relative !== ".." && !relative.startsWith(`..${path.sep}`) && !path.isAbsolute(relative)
+}
+
+/**
+ * Parse an allowlist of roots: a PATH-style list (":"-separated)
+ * Blank entries are skipped; anything else must be a valid absolute path.
+ */
+export function parseRoots(value) {
+  return String(value || "")
+    .split(path.delimiter)
+    .filter((root) => root.trim() !== "")
+    .map(validateDirectoryPath)
+}
+
+/**
+ * Confine directories to `roots`
+ * check(watchPath) resolves to the directory's real path, or throws a 403
+ * PathError when it (or what a symlink in it points to) is outside every root.
+ * With no roots configured, every directory is refused.
+ */
+export function createPathSandbox({ roots }) {
+  // Roots' own real paths, resolved once
+  let realRoots = null
+
+  return {
+    roots,
+
+    async check(watchPath) {
+      if (roots.length === 0) {
+        throw new PathError(
+          "No directories are allowed - set LHI_ALLOWED_ROOTS (or LHI_SCRIPTS_ROOT) on the backend",
+          403
+        )
+      }
+      realRoots ??= await Promise.all(roots.map(realpathExisting))
+
+      const realPath = await realpathExisting(watchPath)
+      if (!realRoots.some((root) => isWithin(realPath, root))) {
+        const via = realPath === watchPath ? "" : ` (resolves to ${realPath})`
+        throw new PathError(
+          `Access denied: ${watchPath}${via} is outside the allowed roots (${roots.join(", ")})`,
+          403
+        )
+      }
+      return realPath
+    },
+  }
+}
+
+/**
+ * Check that `directory` can be registered next to the `registered` ones:
+ * it must be an existing, readable directory that isn't registered yet and
+ * neither lies inside nor contains a registered directory (compared by real
+ * path). Throws PathError - 400 for an unusable path, 409 for a clash.
+ */
+export async function checkNewDirectory(directory, registered) {
+  let stats
+  try {
+    stats = await fs.stat(directory)
+  } catch (error) {
+    if (error.code === "ENOENT") throw new PathError(`Directory does not exist: ${directory}`)
+    if (error.code === "ENOTDIR") throw new PathError(`Not a directory: ${directory} (part of the path is a file)`)
+    if (error.code === "EACCES") throw new PathError(`Directory is not readable: ${directory}`)
+    throw error
+  }
+  if (!stats.isDirectory()) {
+    throw new PathError(`Not a directory: ${directory}`)
+  }
+  // Listing it (R) and reaching what's in it (X) are both needed to watch it
+  try {
+    await fs.access(directory, fs.constants.R_OK | fs.constants.X_OK)
+  } catch {
+    throw new PathError(`Directory is not readable: ${directory}`)
+  }
+
+  const realPath = await fs.realpath(directory)
+  for (const other of registered) {
+    const otherReal = await realpathExisting(other)
+    if (otherReal === realPath) {
+      const as = other === directory ? "" : ` (as ${other})`
+      throw new PathError(`Directory is already registered${as}: ${directory}`, 409)
+    }
+    if (isWithin(realPath, otherReal)) {
+      throw new PathError(
+        `${directory} is inside the registered directory ${other} - its changes are already monitored there`,
+        409
+      )
+    }
+    if (isWithin(otherReal, realPath)) {
+      throw new PathError(
+        `${directory} contains the registered directory ${other} - remove ${other} first to monitor the whole tree`,
+        409
+      )
+    }
+  }
+}
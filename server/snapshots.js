@@ -0,0 +1,201 @@
+/**
+ * LHI Directory Monitor - Manifest Snapshot History
+ *
+ * Keeps versioned copies of each directory's parsed manifest so changes
+ * between any two points in time can be diffed, even though .lhi_manifest
+ * itself is overwritten on every refresh or daemon write.
+ *
+ * Layout (next to registry.json):
+ *   snapshots/<dirname>-<hash>/<id>.json       - metadata + flat file list
+ *   snapshots/<dirname>-<hash>/<id>.meta.json  - metadata only (for listing)
+ * Snapshots store the flat file list, not the tree, to keep them small.
+ * The oldest snapshots beyond the retention limit are deleted.
+ */
+
+import fs from "fs/promises"
+import path from "path"
+import crypto from "crypto"
+
+export const DEFAULT_RETENTION = 50
+
+// Helper: Stable, readable folder name for a watched directory
+function directoryKey(watchPath) {
+  const hash = crypto.createHash("sha1").update(watchPath).digest("hex").slice(0, 12)
+  const name = path.basename(watchPath).toLowerCase().replace(/[^a-z0-9]/g, "_") || "root"
+  return `${name}-${hash}`
+}
+
+// Helper: Snapshot metadata (everything except the file list)
+function summarize(snapshot) {
+  const { files, ...meta } = snapshot
+  return meta
+}
+
+/**
+ * Diff two snapshots' file lists
+ * - added / removed - path exists in only one of them
+ * - resized  - size changed
+ * - modified - same size, different modification time
+ */
+export function diffSnapshots(from, to) {
+  const before = new Map(from.files.map((f) => [f.path, f]))
+  const after = new Map(to.files.map((f) => [f.path, f]))
+
+  const added = []
+  const removed = []
+  const modified = []
+  const resized = []
+
+  for (const [filePath, file] of after) {
+    const old = before.get(filePath)
+    if (!old) {
+      added.push(file)
+    } else if (old.size !== file.size) {
+      resized.push({ path: filePath, before: old, after: file })
+    } else if (old.modified !== file.modified) {
+      modified.push({ path: filePath, before: old, after: file })
+    }
+  }
+  for (const [filePath, file] of before) {
+    if (!after.has(filePath)) removed.push(file)
+  }
+
+  const byPath = (a, b) => a.path.localeCompare(b.path)
+  return {
+    from: summarize(from),
+    to: summarize(to),
+    added: added.sort(byPath),
+    removed: removed.sort(byPath),
+    modified: modified.sort(byPath),
+    resized: resized.sort(byPath),
+  }
+}
+
+/**
+ * Create the snapshot store
+ */
+export function createSnapshotStore({ baseDir, retention = DEFAULT_RETENTION }) {
+  // watchPath -> manifest mtime of the newest snapshot (saves a directory scan per check)
+  const latestMtime = new Map()
+  // watchPath -> in-flight capture, so overlapping checks don't write duplicates
+  const pending = new Map()
+
+  function snapshotDir(watchPath) {
+    return path.join(baseDir, directoryKey(watchPath))
+  }
+
+  // Read <id>.json (or <id>.meta.json when metaOnly)
+  async function readSnapshot(watchPath, id, metaOnly = false) {
+    // Ids are timestamps - refuse anything that could escape the folder
+    if (!/^\d+$/.test(String(id))) return null
+    const file = `${id}${metaOnly ? ".meta" : ""}.json`
+    try {
+      const content = await fs.readFile(path.join(snapshotDir(watchPath), file), "utf-8")
+      return JSON.parse(content)
+    } catch (error) {
+      if (error.code === "ENOENT") return null
+      throw error
+    }
+  }
+
+  // Snapshot ids, newest first
+  async function listIds(watchPath) {
+    let entries
+    try {
+      entries = await fs.readdir(snapshotDir(watchPath))
+    } catch (error) {
+      if (error.code === "ENOENT") return []
+      throw error
+    }
+    return entries
+      .filter((f) => /^\d+\.json$/.test(f))
+      .map((f) => f.replace(/\.json$/, ""))
+      .sort((a, b) => Number(b) - Number(a))
+  }
+
+  /**
+   * List snapshot metadata for a directory, newest first
+   */
+  async function list(watchPath) {
+    const ids = await listIds(watchPath)
+    const snapshots = await Promise.all(ids.map((id) => readSnapshot(watchPath, id, true)))
+    return snapshots.filter(Boolean)
+  }
+
+  /**
+   * Record a snapshot if the manifest changed since the newest one
+   * `manifestMtime` is the file's ISO mtime; `loadManifest` returns parsed
+   * manifest data and is only called when a snapshot is actually needed.
+   * Returns the new snapshot's metadata, or null if nothing changed
+   */
+  function capture(watchPath, manifestMtime, loadManifest) {
+    if (pending.has(watchPath)) return pending.get(watchPath)
+    const task = captureNow(watchPath, manifestMtime, loadManifest).finally(() => {
+      pending.delete(watchPath)
+    })
+    pending.set(watchPath, task)
+    return task
+  }
+
+  async function captureNow(watchPath, manifestMtime, loadManifest) {
+    if (!latestMtime.has(watchPath)) {
+      const [newest] = await listIds(watchPath)
+      const snapshot = newest ? await readSnapshot(watchPath, newest, true) : null
+      latestMtime.set(watchPath, snapshot?.manifestMtime ?? null)
+    }
+    if (latestMtime.get(watchPath) === manifestMtime) return null
+
+    const parsed = await loadManifest()
+    if (!parsed) return null
+
+    const dir = snapshotDir(watchPath)
+    await fs.mkdir(dir, { recursive: true })
+
+    // Ids are capture times in ms, bumped on the rare same-millisecond collision
+    const ids = await listIds(watchPath)
+    let id = Date.now()
+    if (ids.length > 0 && id <= Number(ids[0])) id = Number(ids[0]) + 1
+
+    const files = parsed.files.map(({ path: filePath, size, modified }) => ({ path: filePath, size, modified }))
+    const snapshot = {
+      id: String(id),
+      directory: watchPath,
+      capturedAt: new Date(id).toISOString(),
+      manifestMtime,
+      timestamp: parsed.timestamp,
+      total_files: parsed.total_files,
+      total_directories: parsed.total_directories,
+      total_bytes: files.reduce((sum, f) => sum + (f.size || 0), 0),
+      files,
+    }
+    // Metadata first - the full file is what makes the id show up in listIds
+    await fs.writeFile(path.join(dir, `${id}.meta.json`), JSON.stringify(summarize(snapshot)))
+    await fs.writeFile(path.join(dir, `${id}.json`), JSON.stringify(snapshot))
+    latestMtime.set(watchPath, manifestMtime)
+
+    // Enforce retention (ids were newest first, before this one was added)
+    const expired = ids.slice(Math.max(retention - 1, 0))
+    await Promise.all(
+      expired.flatMap((old) => [
+        fs.rm(path.join(dir, `${old}.json`), { force: true }),
+        fs.rm(path.join(dir, `${old}.meta.json`), { force: true }),
+      ])
+    )
+
+    return summarize(snapshot)
+  }
+
+  /**
+   * Diff two snapshots by id; returns null if either doesn't exist
+   */
+  async function diff(watchPath, fromId, toId) {
+    const [from, to] = await Promise.all([
+      readSnapshot(watchPath, fromId),
+      readSnapshot(watchPath, toId),
+    ])
+    if (!from || !to) return null
+    return diffSnapshots(from, to)
+  }
+
+  return { list, capture, diff }
+}
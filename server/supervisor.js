@@ -0,0 +1,287 @@
+/**
+ * LHI Directory Monitor - Process Supervisor
+ *
+ * Tracks the monitor processes this backend starts, one per watched
+ * directory, in a state file next to registry.json:
+ *   { "monitors": { "<watchPath>": { pid, pgid, command, startedAt, startTime } } }
+ *
+ * Monitors are spawned detached, so each leads its own process group and the
+ * watcher it runs (fswatch / inotifywait) is in that group too. Status comes
+ * from the recorded PID - checked against the process's recorded start time
+ * so a reused PID isn't mistaken for the monitor - and stopping signals the
+ * whole group: SIGTERM, then SIGKILL if it hasn't exited in time. Nothing is
+ * ever matched by command line, so /a/b and /a/bc can't be confused, and
+ * neither can paths ps would print differently (non-ASCII, spaces).
+ * A PID in use whose start time can't be read counts as the monitor.
+ *
+ * Monitors outlive the backend; after a restart cleanup() drops entries whose
+ * process is gone (and terminates any of their watchers left running).
+ *
+ * When a monitor started by this backend exits without stop() having been
+ * called, its entry is dropped and onExit(key, { code, signal }) is called -
+ * the watchdog (watchdog.js) restarts it from there.
+ */
+
+import fs from "fs/promises"
+import path from "path"
+import { spawn, execFile } from "child_process"
+import { promisify } from "util"
+
+const execFileAsync = promisify(execFile)
+
+// How long a stopped monitor gets to exit before it is killed
+export const DEFAULT_STOP_TIMEOUT = 5000
+const STOP_POLL_INTERVAL = 100
+
+// Helper: Whether a process (positive id) or any process in a group (negative id) exists
+function exists(id) {
+  try {
+    process.kill(id, 0)
+    return true
+  } catch (error) {
+    // EPERM: it exists but belongs to someone else
+    return error.code === "EPERM"
+  }
+}
+
+const pidInUse = (pid) => exists(pid)
+const groupAlive = (pgid) => exists(-pgid)
+
+// Helper: Signal a process group, ignoring one that has already exited
+function signalGroup(pgid, signal) {
+  try {
+    process.kill(-pgid, signal)
+  } catch (error) {
+    if (error.code !== "ESRCH") throw error
+  }
+}
+
+/**
+ * Stop a process group: SIGTERM, then SIGKILL if it is still running after `timeout` ms
+ * Resolves once the group is gone (or has been sent SIGKILL)
+ */
+export async function terminateGroup(pgid, timeout = DEFAULT_STOP_TIMEOUT) {
+  if (!groupAlive(pgid)) return
+  signalGroup(pgid, "SIGTERM")
+
+  const deadline = Date.now() + timeout
+  while (Date.now() < deadline) {
+    await new Promise((resolve) => setTimeout(resolve, STOP_POLL_INTERVAL))
+    if (!groupAlive(pgid)) return
+  }
+  signalGroup(pgid, "SIGKILL")
+}
+
+// Helper: Start times of the given PIDs (pid -> start time as text; PIDs it can't read are absent)
+// Linux: /proc/<pid>/stat field 22 (clock ticks after boot); elsewhere one ps call for lstart
+async function startTimes(pids) {
+  const times = new Map()
+  if (pids.length === 0) return times
+
+  if (process.platform === "linux") {
+    await Promise.all(
+      pids.map(async (pid) => {
+        try {
+          const stat = await fs.readFile(`/proc/${pid}/stat`, "utf-8")
+          // Fields from the 3rd on follow the command name, which is in parentheses and may contain ") "
+          const fields = stat.slice(stat.lastIndexOf(")") + 2).split(" ")
+          if (fields[19]) times.set(pid, fields[19])
+        } catch {
+          // Exited meanwhile
+        }
+      })
+    )
+    return times
+  }
+
+  let stdout
+  try {
+    ;({ stdout } = await execFileAsync("ps", ["-p", pids.join(","), "-o", "pid=,lstart="], {
+      env: { ...process.env, LC_ALL: "C" },
+    }))
+  } catch (error) {
+    // ps exits non-zero when none of the processes exist
+    stdout = error.stdout || ""
+  }
+  for (const line of stdout.split("\n")) {
+    const match = line.match(/^\s*(\d+)\s+(.*\S)\s*$/)
+    if (match) times.set(Number(match[1]), match[2])
+  }
+  return times
+}
+
+// Helper: Which recorded entries are still their recorded process (and not a reused PID)
+// Returns a Set of those entries - one ps call however many there are. Entries without a
+// start time (recorded before it was, or unreadable) are theirs while the PID is in use.
+async function recordedProcesses(entries) {
+  const live = entries.filter((entry) => pidInUse(entry.pid))
+  const times = await startTimes(live.filter((entry) => entry.startTime).map((entry) => entry.pid))
+  return new Set(
+    live.filter((entry) => !entry.startTime || !times.has(entry.pid) || times.get(entry.pid) === entry.startTime)
+  )
+}
+
+// Helper: Whether pid is still the process that was recorded
+async function isRecordedProcess(entry) {
+  return (await recordedProcesses([entry])).has(entry)
+}
+
+/**
+ * Create a supervisor backed by `stateFile`
+ */
+export function createSupervisor({ stateFile, stopTimeout = DEFAULT_STOP_TIMEOUT, onExit = () => {} }) {
+  // State file updates run one at a time
+  let updating = Promise.resolve()
+  // Keys being stopped - their exit is expected
+  const stopping = new Set()
+
+  const readState = async () => {
+    try {
+      const state = JSON.parse(await fs.readFile(stateFile, "utf-8"))
+      return { monitors: state.monitors || {} }
+    } catch (error) {
+      if (error.code === "ENOENT") return { monitors: {} }
+      throw error
+    }
+  }
+
+  // Helper: Apply fn to the state and save it (atomically, like registry.json)
+  const updateState = (fn) => {
+    const run = updating.then(async () => {
+      const state = await readState()
+      const result = await fn(state.monitors)
+      await fs.mkdir(path.dirname(stateFile), { recursive: true })
+      const temp = `${stateFile}.${process.pid}.tmp`
+      await fs.writeFile(temp, JSON.stringify(state, null, 2))
+      await fs.rename(temp, stateFile)
+      return result
+    })
+    updating = run.catch(() => {})
+    return run
+  }
+
+  /**
+   * Status of the monitors recorded for each of `keys`, from one process scan
+   * Returns a Map of key -> { running, pid, startedAt }
+   */
+  const statusAll = async (keys) => {
+    const { monitors } = await readState()
+    const entries = keys.map((key) => monitors[key]).filter(Boolean)
+    const running = await recordedProcesses(entries)
+
+    return new Map(
+      keys.map((key) => {
+        const entry = monitors[key]
+        return [
+          key,
+          entry && running.has(entry)
+            ? { running: true, pid: entry.pid, startedAt: entry.startedAt }
+            : { running: false, pid: null, startedAt: null },
+        ]
+      })
+    )
+  }
+
+  return {
+    /**
+     * Spawn `command args` as the monitor for `key` in its own process group
+     * (env: extra environment variables). Returns the recorded entry
+     */
+    async start(key, command, args, { cwd, env } = {}) {
+      const child = spawn(command, args, {
+        cwd,
+        env: env ? { ...process.env, ...env } : undefined,
+        detached: true,
+        stdio: "ignore",
+      })
+      // Spawn failures (e.g. ENOENT) are reported on the next tick
+      await new Promise((resolve, reject) => {
+        child.once("spawn", resolve)
+        child.once("error", reject)
+      })
+      child.unref()
+
+      // An exit nobody asked for: forget the monitor and report it
+      child.once("exit", (code, signal) => {
+        if (stopping.has(key)) return
+        updateState((monitors) => {
+          if (monitors[key]?.pid === child.pid) delete monitors[key]
+        })
+          .catch((error) => console.error(`Supervisor state error (${key}):`, error.message))
+          .then(() => onExit(key, { code, signal }))
+      })
+
+      const entry = {
+        pid: child.pid,
+        pgid: child.pid,
+        command: [command, ...args].join(" "),
+        startedAt: Date.now(),
+        startTime: (await startTimes([child.pid])).get(child.pid) ?? null,
+      }
+      await updateState((monitors) => {
+        monitors[key] = entry
+      })
+      return entry
+    },
+
+    /**
+     * Stop the monitor recorded for `key` and forget it
+     * Returns false if there was nothing to stop
+     */
+    async stop(key) {
+      const entry = (await readState()).monitors[key]
+      if (!entry) return false
+
+      stopping.add(key)
+      try {
+        // A reused PID leads someone else's group - only signal it if it's still ours
+        // (or if our leader is gone but its watcher is left in the group)
+        const ours = await isRecordedProcess(entry)
+        if (ours || !pidInUse(entry.pid)) {
+          await terminateGroup(entry.pgid, stopTimeout)
+        }
+
+        await updateState((monitors) => {
+          if (monitors[key]?.pid === entry.pid) delete monitors[key]
+        })
+        return ours
+      } finally {
+        stopping.delete(key)
+      }
+    },
+
+    /**
+     * Status of the monitor recorded for `key`: { running, pid, startedAt }
+     */
+    async status(key) {
+      return (await statusAll([key])).get(key)
+    },
+
+    statusAll,
+
+    /**
+     * Drop entries whose monitor has exited (e.g. while the backend was down),
+     * terminating any watcher processes they left behind
+     * Returns the keys that were removed
+     */
+    async cleanup() {
+      const { monitors } = await readState()
+      const running = await recordedProcesses(Object.values(monitors))
+      const stale = []
+      for (const [key, entry] of Object.entries(monitors)) {
+        if (running.has(entry)) continue
+        // A PID still in use here started at another time - someone else's process, not ours to signal
+        if (!pidInUse(entry.pid)) await terminateGroup(entry.pgid, stopTimeout)
+        stale.push({ key, pid: entry.pid })
+      }
+      if (stale.length === 0) return []
+
+      await updateState((current) => {
+        for (const { key, pid } of stale) {
+          if (current[key]?.pid === pid) delete current[key]
+        }
+      })
+      return stale.map((s) => s.key)
+    },
+  }
+}
@@ -0,0 +1,142 @@
+/**
+ * LHI Directory Monitor - Watchdog
+ *
+ * Restarts supervised monitors that exit without being stopped (see
+ * supervisor.js onExit, and cleanup() for monitors that died while the
+ * backend was down). Each directory has a health state:
+ *   healthy       - running
+ *   restarting    - exited unexpectedly; a restart is scheduled
+ *   crash-looping - exited too often in a short time; no more restarts
+ *                   until it is started again by hand
+ *   stopped       - not running because it was stopped (or never started)
+ *
+ * Restarts back off exponentially: initialDelay after the first crash,
+ * doubling per crash within crashWindow, up to maxDelay. More than
+ * crashLimit crashes within crashWindow means crash-looping. The last exit
+ * (code, signal, time) is kept for each directory.
+ */
+
+export const HEALTH_STATES = ["healthy", "restarting", "crash-looping", "stopped"]
+export const DEFAULT_INITIAL_DELAY = 1000
+export const DEFAULT_MAX_DELAY = 60000
+export const DEFAULT_CRASH_LIMIT = 5
+export const DEFAULT_CRASH_WINDOW = 10 * 60 * 1000
+
+/**
+ * Create a watchdog
+ * restart(key) starts the monitor again - resolving false means it shouldn't
+ * be restarted any more (e.g. the directory was unregistered).
+ * onChange(key) is called whenever a directory's health changes.
+ */
+export function createWatchdog({
+  restart,
+  initialDelay = DEFAULT_INITIAL_DELAY,
+  maxDelay = DEFAULT_MAX_DELAY,
+  crashLimit = DEFAULT_CRASH_LIMIT,
+  crashWindow = DEFAULT_CRASH_WINDOW,
+  onChange = () => {},
+}) {
+  // key -> { state, crashes: [time], restarts, lastExit, nextRestartAt, timer }
+  // state is null while the monitor is (as far as we know) running
+  const entries = new Map()
+
+  const entryFor = (key) => {
+    if (!entries.has(key)) {
+      entries.set(key, { state: null, crashes: [], restarts: 0, lastExit: null, nextRestartAt: null, timer: null })
+    }
+    return entries.get(key)
+  }
+
+  const update = (key, entry, changes) => {
+    Object.assign(entry, changes)
+    onChange(key)
+  }
+
+  const scheduleRestart = (key, entry) => {
+    const now = Date.now()
+    entry.crashes = [...entry.crashes.filter((time) => now - time < crashWindow), now]
+
+    if (entry.crashes.length > crashLimit) {
+      console.error(
+        `Watchdog: ${key} exited ${entry.crashes.length} times in ${Math.round(crashWindow / 60000)} min - not restarting it`
+      )
+      update(key, entry, { state: "crash-looping", nextRestartAt: null })
+      return
+    }
+
+    const wait = Math.min(initialDelay * 2 ** (entry.crashes.length - 1), maxDelay)
+    clearTimeout(entry.timer)
+    const timer = setTimeout(async () => {
+      // Stopped or started by hand in the meantime
+      if (entry.timer !== timer) return
+      entry.timer = null
+      try {
+        if ((await restart(key)) === false) {
+          entries.delete(key)
+          onChange(key)
+          return
+        }
+        update(key, entry, { state: null, nextRestartAt: null, restarts: entry.restarts + 1 })
+        console.log(`Watchdog: restarted ${key}`)
+      } catch (error) {
+        // Couldn't start it at all - counts as another crash
+        console.error(`Watchdog: restarting ${key} failed:`, error.message)
+        entry.lastExit = { code: null, signal: null, error: error.message, at: Date.now() }
+        scheduleRestart(key, entry)
+      }
+    }, wait)
+    update(key, entry, { state: "restarting", nextRestartAt: now + wait, timer })
+  }
+
+  return {
+    /**
+     * A monitor exited without being stopped: record it and schedule a restart
+     * code and signal are null when the exit wasn't observed (it died while the backend was down)
+     */
+    exited(key, { code = null, signal = null } = {}) {
+      const entry = entryFor(key)
+      // Already waiting to restart or given up
+      if (entry.state === "restarting" || entry.state === "crash-looping") return
+
+      console.error(`Watchdog: monitor for ${key} exited unexpectedly (${signal ?? `code ${code ?? "unknown"}`})`)
+      entry.lastExit = { code, signal, at: Date.now() }
+      scheduleRestart(key, entry)
+    },
+
+    // The monitor was started by hand: forget its crash history (lastExit stays for reference)
+    started(key) {
+      const entry = entries.get(key)
+      if (!entry) return
+      clearTimeout(entry.timer)
+      update(key, entry, { state: null, crashes: [], restarts: 0, nextRestartAt: null, timer: null })
+    },
+
+    // The monitor was stopped by hand: cancel any pending restart
+    stopped(key) {
+      const entry = entryFor(key)
+      clearTimeout(entry.timer)
+      update(key, entry, { state: "stopped", nextRestartAt: null, timer: null })
+    },
+
+    // Stop tracking a directory (e.g. it was unregistered)
+    forget(key) {
+      clearTimeout(entries.get(key)?.timer)
+      entries.delete(key)
+    },
+
+    /**
+     * Health of a directory whose monitor is (or isn't) `running`:
+     * { health, restarts, lastExit, nextRestartAt }
+     */
+    health(key, running) {
+      const entry = entries.get(key)
+      const health = entry?.state && entry.state !== "stopped" ? entry.state : running ? "healthy" : "stopped"
+      return {
+        health,
+        restarts: entry?.restarts ?? 0,
+        lastExit: entry?.lastExit ?? null,
+        nextRestartAt: entry?.nextRestartAt ?? null,
+      }
+    },
+  }
+}
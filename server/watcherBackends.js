@@ -0,0 +1,272 @@
+/**
+ * LHI Directory Monitor - Watcher Backends
+ *
+ * A watcher backend keeps a directory's .lhi_manifest and change log up to
+ * date. Each registered directory picks one (registry.json "backend" field):
+ *
+ *   script - lhi_directory_monitor.sh from the core module (MONITOR_DIR),
+ *            using fswatch (macOS) or inotifywait (Linux)
+ *   native - the built-in Node watcher (nativeWatcher.js); needs neither the
+ *            core module checkout nor fswatch/inotifywait
+ *
+ * Every backend implements:
+ *   name, description
+ *   available()        - Promise<boolean>, whether it can run on this machine
+ *   start(watchPath, settings)
+ *                      - start watching (no-op if already running) with the
+ *                        directory's monitor settings (monitorSettings.js)
+ *   stop(watchPath)
+ *   status(watchPath)  - Promise<{ running, pid, uptime }>
+ *   statuses(watchPaths)
+ *                      - Promise<Map of watchPath -> status>, for many
+ *                        directories at once (one process scan)
+ *   refresh(watchPath, { signal, progress, stderr, settings })
+ *                      - regenerate the manifest once, resolving when it is
+ *                        written (run as a job - see jobs.js)
+ */
+
+import fs from "fs/promises"
+import path from "path"
+import { spawn } from "child_process"
+import { terminateGroup } from "./supervisor.js"
+import { startNativeWatcher, generateManifest, MANIFEST_FILE } from "./nativeWatcher.js"
+import { DEFAULT_SETTINGS } from "./monitorSettings.js"
+
+export const BACKEND_NAMES = ["script", "native"]
+
+/**
+ * Error with an HTTP status, thrown when a backend can't do what was asked
+ */
+export class BackendError extends Error {
+  constructor(message, status = 400) {
+    super(message)
+    this.name = "BackendError"
+    this.status = status
+  }
+}
+
+// How often a refresh checks whether the script has written the manifest
+const MANIFEST_POLL_INTERVAL = 250
+
+// Helper: Manifest modification time and size, or null if there isn't one
+async function manifestStamp(manifestPath) {
+  try {
+    const stats = await fs.stat(manifestPath)
+    return `${stats.mtimeMs}:${stats.size}`
+  } catch {
+    return null
+  }
+}
+
+// Helper: Wait ms, or until signal aborts
+function delay(ms, signal) {
+  return new Promise((resolve) => {
+    const timer = setTimeout(resolve, ms)
+    signal?.addEventListener("abort", () => {
+      clearTimeout(timer)
+      resolve()
+    }, { once: true })
+  })
+}
+
+// Helper: Elapsed time like `ps -o etime` ([[dd-]hh:]mm:ss)
+function formatElapsed(ms) {
+  const total = Math.floor(ms / 1000)
+  const pad = (n) => String(n).padStart(2, "0")
+  const days = Math.floor(total / 86400)
+  const hours = Math.floor((total % 86400) / 3600)
+  const clock = `${pad(Math.floor((total % 3600) / 60))}:${pad(total % 60)}`
+  if (days > 0) return `${days}-${pad(hours)}:${clock}`
+  return hours > 0 ? `${pad(hours)}:${clock}` : clock
+}
+
+// lhi_directory_monitor.sh, one supervised process group per directory
+function createScriptBackend({ monitorDir, supervisor }) {
+  const monitorScript = path.join(monitorDir, "src/lhi_directory_monitor.sh")
+
+  // Every directory's status from the supervisor's one process scan
+  const statuses = async (watchPaths) => {
+    const recorded = await supervisor.statusAll(watchPaths)
+    const now = Date.now()
+    return new Map(
+      [...recorded].map(([watchPath, { running, pid, startedAt }]) => [
+        watchPath,
+        { running, pid, uptime: running ? formatElapsed(now - startedAt) : null },
+      ])
+    )
+  }
+
+  return {
+    name: "script",
+    description: "lhi_directory_monitor.sh with fswatch / inotifywait",
+
+    async available() {
+      try {
+        await fs.access(monitorScript)
+        return true
+      } catch {
+        return false
+      }
+    },
+
+    async start(watchPath, settings = DEFAULT_SETTINGS) {
+      const args = [monitorScript, "-d", watchPath, ...(settings.verbose ? ["--verbose"] : [])]
+      await supervisor.start(watchPath, "bash", args, { cwd: monitorDir })
+
+      // Wait a moment for process to start
+      await new Promise((resolve) => setTimeout(resolve, 2000))
+    },
+
+    async stop(watchPath) {
+      // Stops the script and the fswatch / inotifywait it started (same process group)
+      await supervisor.stop(watchPath)
+    },
+
+    async status(watchPath) {
+      return (await statuses([watchPath])).get(watchPath)
+    },
+
+    statuses,
+
+    // Run the script until it has written a fresh manifest (or exited without one)
+    async refresh(watchPath, { signal, progress = () => {}, stderr = () => {} } = {}) {
+      const manifestPath = path.join(watchPath, MANIFEST_FILE)
+      const before = await manifestStamp(manifestPath)
+
+      progress("Starting lhi_directory_monitor.sh")
+      const child = spawn("bash", [monitorScript, "-d", watchPath], {
+        cwd: monitorDir,
+        detached: true,
+        stdio: ["ignore", "ignore", "pipe"],
+      })
+      await new Promise((resolve, reject) => {
+        child.once("spawn", resolve)
+        child.once("error", reject)
+      })
+      child.stderr.setEncoding("utf-8")
+      child.stderr.on("data", stderr)
+      const exited = new Promise((resolve) => child.once("exit", (code, sig) => resolve({ code, sig })))
+
+      try {
+        progress("Scanning")
+        let written = null
+        for (;;) {
+          const exit = await Promise.race([exited, delay(MANIFEST_POLL_INTERVAL, signal)])
+          if (signal?.aborted) throw new Error("Refresh aborted")
+
+          const stamp = await manifestStamp(manifestPath)
+          if (stamp && stamp !== before) {
+            // Done once the new manifest has stopped changing
+            if (stamp === written) return
+            written = stamp
+            progress("Writing manifest")
+          } else if (exit) {
+            throw new Error(
+              exit.code === 0
+                ? "The monitor script exited without writing a manifest"
+                : `The monitor script exited with ${exit.code ?? exit.sig}`
+            )
+          }
+        }
+      } finally {
+        // The script keeps watching after its first manifest - we only wanted the manifest
+        await terminateGroup(child.pid)
+      }
+    },
+  }
+}
+
+// Helper: nativeWatcher scan options from monitor settings
+const scanOptions = ({ maxDepth, followSymlinks, includeHidden }) => ({ maxDepth, followSymlinks, includeHidden })
+
+// Built-in watcher, running inside this server process
+function createNativeBackend({ logsDir }) {
+  // watchPath -> watcher handle
+  const watchers = new Map()
+
+  // Status from the watcher handle - no processes to look up
+  const status = (watchPath) => {
+    const watcher = watchers.get(watchPath)
+    if (!watcher) return { running: false, pid: null, uptime: null }
+    return {
+      running: true,
+      pid: process.pid,
+      uptime: formatElapsed(Date.now() - watcher.startedAt),
+      mode: watcher.mode,
+    }
+  }
+
+  return {
+    name: "native",
+    description: "Built-in Node watcher (fs.watch, polling fallback)",
+
+    async available() {
+      return true
+    },
+
+    async start(watchPath, settings = DEFAULT_SETTINGS) {
+      if (watchers.has(watchPath)) return
+      const watcher = await startNativeWatcher(watchPath, {
+        logsDir,
+        debounce: settings.debounce,
+        regenInterval: settings.regenInterval,
+        verbose: settings.verbose,
+        scanOptions: scanOptions(settings),
+        onError: (error) => console.error(`Native watcher error (${watchPath}):`, error.message),
+      })
+      watchers.set(watchPath, watcher)
+    },
+
+    async stop(watchPath) {
+      watchers.get(watchPath)?.close()
+      watchers.delete(watchPath)
+    },
+
+    async status(watchPath) {
+      return status(watchPath)
+    },
+
+    async statuses(watchPaths) {
+      return new Map(watchPaths.map((watchPath) => [watchPath, status(watchPath)]))
+    },
+
+    // Scans in this process - the job's signal stops the walk (and the write)
+    async refresh(watchPath, { signal, progress = () => {}, settings = DEFAULT_SETTINGS } = {}) {
+      progress("Scanning")
+      await generateManifest(watchPath, { ...scanOptions(settings), signal })
+    },
+  }
+}
+
+/**
+ * Create the backends (`supervisor` tracks the script backend's processes)
+ * Returns { get(name), list(), defaultName() } - defaultName() is "script" when
+ * the core module is checked out, otherwise "native"
+ */
+export function createWatcherBackends({ monitorDir, logsDir, supervisor }) {
+  const backends = new Map([
+    ["script", createScriptBackend({ monitorDir, supervisor })],
+    ["native", createNativeBackend({ logsDir })],
+  ])
+
+  return {
+    get(name) {
+      return backends.get(name) || null
+    },
+
+    // Name, description and availability of every backend
+    async list() {
+      return Promise.all(
+        [...backends.values()].map(async (b) => ({
+          name: b.name,
+          description: b.description,
+          available: await b.available(),
+        }))
+      )
+    },
+
+    async defaultName() {
+      return (await backends.get("script").available()) ? "script" : "native"
+    },
+  }
+}
@@ -0,0 +1,28 @@
+/**
+ * Type declarations for excludeMatcher.js (shared with the Node backend)
+ */
+
+export interface CompiledPattern {
+  source: string
+  negate: boolean
+  directoryOnly: boolean
+  anchored: boolean
+  regex: RegExp
+}
+
+export interface ExcludeMatch {
+  excluded: boolean
+  // Pattern line that decided the result (null if nothing matched)
+  pattern: string | null
+  // Excluded ancestor directory, when the path is excluded because of it
+  excludedBy?: string
+}
+
+export interface ExcludeMatcher {
+  match(path: string, isDirectory?: boolean): ExcludeMatch
+  rules: CompiledPattern[]
+}
+
+export function compilePattern(source: string): CompiledPattern | null
+
+export function createMatcher(patterns: string[]): ExcludeMatcher
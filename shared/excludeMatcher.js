@@ -0,0 +1,190 @@
+/**
+ * LHI Directory Monitor - Exclude Pattern Matcher
+ *
+ * Shared by the Express backend (server/) and the React UI (src/), so both
+ * agree on what a pattern in .lhi_excludes / .gitignore excludes.
+ *
+ * Implements gitignore semantics:
+ * - "#" comments and blank lines are ignored
+ * - "!pattern" re-includes a path excluded by an earlier pattern
+ * - the last matching pattern wins
+ * - a trailing "/" matches directories only
+ * - a leading or middle "/" anchors the pattern to the root;
+ *   otherwise it matches at any depth
+ * - "*" and "?" never match "/", "[a-z]" / "[!a-z]" are character classes
+ * - "**" as a whole segment (leading, trailing or between slashes)
+ *   matches any number of directories
+ * - once a directory is excluded, nothing inside it can be re-included
+ *
+ * Paths are relative to the watched directory and use "/" separators.
+ */
+
+// Helper: Escape a character for use in a regular expression
+function escapeRegex(char) {
+  return char.replace(/[.*+?^${}()|[\]\\/]/g, "\\$&")
+}
+
+// Helper: Convert a "[...]" class starting at index i; returns [regex, nextIndex] or null
+function parseCharClass(segment, i) {
+  let j = i + 1
+  let negate = false
+  if (segment[j] === "!" || segment[j] === "^") {
+    negate = true
+    j++
+  }
+
+  let body = ""
+  // "]" right after the opening bracket is a literal
+  if (segment[j] === "]") {
+    body += "\\]"
+    j++
+  }
+  while (j < segment.length && segment[j] !== "]") {
+    const char = segment[j]
+    if (char === "\\" && j + 1 < segment.length) {
+      body += escapeRegex(segment[j + 1])
+      j += 2
+    } else {
+      body += char === "-" ? "-" : escapeRegex(char)
+      j++
+    }
+  }
+
+  // Unclosed class - the "[" is a literal
+  if (j >= segment.length) return null
+  return [`[${negate ? "^" : ""}${body}]`, j + 1]
+}
+
+// Helper: Convert one path segment (no "/") to a regular expression
+function segmentToRegex(segment) {
+  let re = ""
+  let i = 0
+  while (i < segment.length) {
+    const char = segment[i]
+    if (char === "\\" && i + 1 < segment.length) {
+      re += escapeRegex(segment[i + 1])
+      i += 2
+    } else if (char === "*") {
+      // Consecutive stars inside a segment behave like a single star
+      while (segment[i] === "*") i++
+      re += "[^/]*"
+    } else if (char === "?") {
+      re += "[^/]"
+      i++
+    } else if (char === "[") {
+      const parsed = parseCharClass(segment, i)
+      if (parsed) {
+        re += parsed[0]
+        i = parsed[1]
+      } else {
+        re += "\\["
+        i++
+      }
+    } else {
+      re += escapeRegex(char)
+      i++
+    }
+  }
+  return re
+}
+
+/**
+ * Compile a single pattern line
+ * Returns null for blank lines and comments
+ */
+export function compilePattern(source) {
+  let pattern = source.trim()
+  if (!pattern || pattern.startsWith("#")) return null
+
+  let negate = false
+  if (pattern.startsWith("!")) {
+    negate = true
+    pattern = pattern.slice(1)
+  } else if (pattern.startsWith("\\!") || pattern.startsWith("\\#")) {
+    pattern = pattern.slice(1)
+  }
+
+  let directoryOnly = false
+  if (pattern.endsWith("/")) {
+    directoryOnly = true
+    pattern = pattern.replace(/\/+$/, "")
+  }
+
+  // A slash anywhere but the end anchors the pattern to the root
+  const anchored = pattern.includes("/")
+  pattern = pattern.replace(/^\/+/, "")
+  if (!pattern) return null
+
+  const segments = pattern.split("/")
+  let body = ""
+  segments.forEach((segment, i) => {
+    const last = i === segments.length - 1
+    if (segment === "**") {
+      // Trailing "**" - everything inside; otherwise zero or more directories
+      body += last ? ".*" : "(?:[^/]+/)*"
+    } else {
+      body += segmentToRegex(segment) + (last ? "" : "/")
+    }
+  })
+
+  return {
+    source: source.trim(),
+    negate,
+    directoryOnly,
+    anchored,
+    regex: new RegExp(`^${anchored ? "" : "(?:.*/)?"}${body}$`),
+  }
+}
+
+/**
+ * Build a matcher for an ordered list of patterns
+ *
+ * match(path, isDirectory) returns:
+ *   { excluded, pattern, excludedBy? }
+ * where pattern is the line that decided the result (null if none matched)
+ * and excludedBy is the excluded ancestor directory, when that's the reason.
+ */
+export function createMatcher(patterns) {
+  const rules = patterns.map(compilePattern).filter(Boolean)
+  const cache = new Map()
+
+  // Last matching rule for exactly this path, ignoring ancestors
+  function lastMatch(relPath, isDirectory) {
+    let result = null
+    for (const rule of rules) {
+      if (rule.directoryOnly && !isDirectory) continue
+      if (rule.regex.test(relPath)) result = rule
+    }
+    return result
+  }
+
+  function match(relPath, isDirectory = false) {
+    const parts = relPath.split("/").filter(Boolean)
+    const normalized = parts.join("/")
+    const key = `${isDirectory ? "d" : "f"}:${normalized}`
+    const cached = cache.get(key)
+    if (cached) return cached
+
+    let result = { excluded: false, pattern: null }
+
+    // A path inside an excluded directory can't be re-included
+    const parent = parts.length > 1 ? match(parts.slice(0, -1).join("/"), true) : null
+    if (parent?.excluded) {
+      result = {
+        excluded: true,
+        pattern: parent.pattern,
+        excludedBy: parent.excludedBy || parts.slice(0, -1).join("/"),
+      }
+    } else if (rules.length > 0) {
+      const rule = lastMatch(normalized, isDirectory)
+      if (rule) {
+        result = { excluded: !rule.negate, pattern: rule.source }
+      }
+    }
+
+    cache.set(key, result)
+    return result
+  }
+
+  return { match, rules }
+}
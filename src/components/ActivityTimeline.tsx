@@ -0,0 +1,251 @@
+/**
+ * LHI Directory Monitor - Activity Timeline
+ *
+ * Scrollable, filterable view of a directory's full change history
+ * (GET /history), grouped by day. Filters: time range, path glob and
+ * event kind. More pages load as the list is scrolled. Export downloads
+ * the history with the same filters (GET /history-export).
+ */
+
+import { useState, useEffect, useCallback, useRef, type UIEvent } from "react"
+import { Activity, Loader2, RefreshCw } from "lucide-react"
+import { Button } from "./ui/button"
+import { Badge } from "./ui/badge"
+import { Input } from "./ui/input"
+import { CHANGE_KINDS, ChangeKindIcon, changeKindColor } from "./ChangeKindIcon"
+import { ExportMenu } from "./ExportMenu"
+import { apiFetch } from "../lib/api"
+import type { ChangeEvent, ChangeHistoryPage } from "../types"
+
+interface HistoryFilters {
+  since: string  // datetime-local value
+  until: string
+  path: string
+  kind: string   // "" = all
+}
+
+const EMPTY_FILTERS: HistoryFilters = { since: "", until: "", path: "", kind: "" }
+
+// Helper: Query parameters for the filters (shared by /history and /history-export)
+function filterParams(filters: HistoryFilters) {
+  const params = new URLSearchParams()
+  if (filters.since) params.set("since", new Date(filters.since).toISOString())
+  if (filters.until) params.set("until", new Date(filters.until).toISOString())
+  if (filters.path) params.set("path", filters.path)
+  if (filters.kind) params.set("kind", filters.kind)
+  return params
+}
+
+// Helper: Path relative to the watched directory (rename sources are logged as written)
+function relativePath(directory: string, file: string) {
+  return file.startsWith(`${directory}/`) ? file.slice(directory.length + 1) : file
+}
+
+// Helper: Day heading for an event
+function dayLabel(event: ChangeEvent) {
+  return event.time !== null ? new Date(event.time).toLocaleDateString() : "Unknown date"
+}
+
+export function ActivityTimeline({ apiBase, directory }: { apiBase: string; directory: string }) {
+  const [filters, setFilters] = useState<HistoryFilters>(EMPTY_FILTERS)
+  const [pathInput, setPathInput] = useState("")
+  const [events, setEvents] = useState<ChangeEvent[]>([])
+  const [nextCursor, setNextCursor] = useState<string | null>(null)
+  const [total, setTotal] = useState(0)
+  const [loading, setLoading] = useState(false)
+  const [error, setError] = useState<string | null>(null)
+  // Ignore responses for a previous directory/filter set
+  const requestId = useRef(0)
+
+  const fetchPage = useCallback(
+    async (cursor: string | null) => {
+      const id = ++requestId.current
+      setLoading(true)
+
+      const params = filterParams(filters)
+      params.set("limit", "100")
+      if (cursor) params.set("cursor", cursor)
+
+      try {
+        const encodedPath = encodeURIComponent(directory)
+        const response = await apiFetch(`${apiBase}/history/${encodedPath}?${params}`)
+        const data = await response.json()
+        if (id !== requestId.current) return
+
+        if (response.ok) {
+          const page = data as ChangeHistoryPage
+          setEvents((prev) => (cursor ? [...prev, ...page.events] : page.events))
+          setNextCursor(page.nextCursor)
+          setTotal(page.total)
+          setError(null)
+        } else {
+          setError(data.error || "Failed to load activity")
+        }
+      } catch (err) {
+        if (id === requestId.current) setError("Failed to load activity")
+      }
+      if (id === requestId.current) setLoading(false)
+    },
+    [apiBase, directory, filters]
+  )
+
+  // First page whenever the directory or filters change
+  useEffect(() => {
+    setEvents([])
+    setNextCursor(null)
+    fetchPage(null)
+  }, [fetchPage])
+
+  // Load the next page when scrolled near the bottom
+  const onScroll = (e: UIEvent<HTMLDivElement>) => {
+    const el = e.currentTarget
+    if (nextCursor && !loading && el.scrollTop + el.clientHeight >= el.scrollHeight - 48) {
+      fetchPage(nextCursor)
+    }
+  }
+
+  const inputClass = "h-8 text-xs"
+  const hasFilters = Boolean(filters.since || filters.until || filters.path || filters.kind)
+  let lastDay: string | null = null
+
+  return (
+    <div className="space-y-2">
+      {/* Filters */}
+      <div className="flex flex-wrap items-center gap-2">
+        <Input
+          type="datetime-local"
+          value={filters.since}
+          onChange={(e) => setFilters({ ...filters, since: e.target.value })}
+          className={`${inputClass} w-auto`}
+          title="From"
+        />
+        <span className="text-xs text-muted-foreground">to</span>
+        <Input
+          type="datetime-local"
+          value={filters.until}
+          onChange={(e) => setFilters({ ...filters, until: e.target.value })}
+          className={`${inputClass} w-auto`}
+          title="Until"
+        />
+        <Input
+          placeholder="Path glob, e.g. src/**/*.ts"
+          value={pathInput}
+          onChange={(e) => setPathInput(e.target.value)}
+          onKeyDown={(e) => e.key === "Enter" && setFilters({ ...filters, path: pathInput.trim() })}
+          onBlur={() => setFilters({ ...filters, path: pathInput.trim() })}
+          className={`${inputClass} flex-1 min-w-[160px] font-mono`}
+        />
+        <select
+          className="h-8 rounded-md border border-input bg-background px-2 text-xs"
+          value={filters.kind}
+          onChange={(e) => setFilters({ ...filters, kind: e.target.value })}
+        >
+          <option value="">All events</option>
+          {CHANGE_KINDS.map((kind) => (
+            <option key={kind} value={kind}>{kind}</option>
+          ))}
+        </select>
+        <Button
+          variant="ghost"
+          size="sm"
+          className="h-8 px-2"
+          onClick={() => fetchPage(null)}
+          disabled={loading}
+          title="Reload"
+        >
+          <RefreshCw className={`h-4 w-4 ${loading ? "animate-spin" : ""}`} />
+        </Button>
+        <ExportMenu
+          title={hasFilters ? "Download the changes matching the filters" : "Download the full change history"}
+          exportUrl={(format) => {
+            const params = filterParams(filters)
+            params.set("format", format)
+            return `${apiBase}/history-export/${encodeURIComponent(directory)}?${params}`
+          }}
+        />
+      </div>
+
+      <div className="flex items-center text-xs text-muted-foreground">
+        <span>
+          {total.toLocaleString()} events
+          {hasFilters && " matching filters"}
+        </span>
+        {hasFilters && (
+          <button
+            className="ml-2 underline hover:text-foreground"
+            onClick={() => {
+              setFilters(EMPTY_FILTERS)
+              setPathInput("")
+            }}
+          >
+            Clear filters
+          </button>
+        )}
+      </div>
+
+      {error && <p className="text-xs text-destructive">{error}</p>}
+
+      {/* Timeline */}
+      {events.length > 0 ? (
+        <div className="max-h-80 overflow-auto border rounded-lg p-2 font-mono text-xs" onScroll={onScroll}>
+          {events.map((event) => {
+            const day = dayLabel(event)
+            const showDay = day !== lastDay
+            lastDay = day
+            return (
+              <div key={event.id}>
+                {showDay && (
+                  <div className="sticky top-0 bg-background py-1 font-sans font-medium text-muted-foreground">
+                    {day}
+                  </div>
+                )}
+                <div className="flex items-center gap-2 px-2 py-0.5 rounded hover:bg-accent/50">
+                  <span className="text-blue-500 shrink-0">
+                    {event.time !== null ? new Date(event.time).toLocaleTimeString() : event.timestamp}
+                  </span>
+                  <ChangeKindIcon kind={event.kind} isDirectory={event.isDirectory} />
+                  <Badge variant="outline" className={`font-normal shrink-0 ${changeKindColor(event.kind)}`}>
+                    {event.kind}
+                  </Badge>
+                  {event.oldPath && (
+                    <>
+                      <span className="truncate text-muted-foreground line-through" title={event.oldPath}>
+                        {relativePath(directory, event.oldPath)}
+                      </span>
+                      <span className="text-muted-foreground">→</span>
+                    </>
+                  )}
+                  <span className="truncate" title={event.file}>{event.path}</span>
+                </div>
+              </div>
+            )
+          })}
+          {loading && (
+            <div className="flex justify-center py-2">
+              <Loader2 className="h-4 w-4 animate-spin text-muted-foreground" />
+            </div>
+          )}
+          {nextCursor && !loading && (
+            <div className="flex justify-center py-2">
+              <Button variant="ghost" size="sm" className="h-7 text-xs" onClick={() => fetchPage(nextCursor)}>
+                Load more
+              </Button>
+            </div>
+          )}
+        </div>
+      ) : (
+        <div className="flex flex-col items-center justify-center h-24 text-muted-foreground border rounded-lg">
+          {loading ? (
+            <Loader2 className="h-6 w-6 animate-spin" />
+          ) : (
+            <>
+              <Activity className="h-6 w-6 mb-1" />
+              <p className="text-sm">No activity recorded</p>
+              <p className="text-xs">Changes appear here while the monitor is running</p>
+            </>
+          )}
+        </div>
+      )}
+    </div>
+  )
+}
@@ -0,0 +1,333 @@
+/**
+ * LHI Directory Monitor - Alerts Panel
+ *
+ * A directory's alerts (server/alerts.js) with acknowledge / resolve buttons,
+ * and the rules that raise them: a path glob and a change kind (".env
+ * created", "package-lock.json modified"), or a growth threshold on a
+ * directory's file count or size between manifests. Rules are saved to the
+ * registry as a whole list; the backend validates them and fills in ids.
+ */
+
+import { useEffect, useState } from "react"
+import { Bell, Check, CheckCheck, Loader2, Plus, Trash2 } from "lucide-react"
+import { Badge } from "./ui/badge"
+import { Button } from "./ui/button"
+import { Input } from "./ui/input"
+import { apiFetch } from "../lib/api"
+import type { Alert, AlertRule, AlertRuleKind, AlertState } from "../types"
+
+// A rule being added - the backend assigns the id and a default name
+export type AlertRuleDraft = Omit<AlertRule, "id" | "name"> & { id?: string; name?: string }
+
+const RULE_KINDS: { kind: AlertRuleKind; label: string }[] = [
+  { kind: "created", label: "Created" },
+  { kind: "modified", label: "Modified" },
+  { kind: "deleted", label: "Deleted" },
+  { kind: "renamed", label: "Renamed" },
+  { kind: "changed", label: "Changed (unknown kind)" },
+  { kind: "any", label: "Any change" },
+  { kind: "growth", label: "Grows by more than" },
+]
+
+// One-click rules for the usual suspects
+const PRESETS: { label: string; rule: AlertRuleDraft }[] = [
+  { label: ".env appears", rule: { kind: "created", path: ".env", threshold: 1, enabled: true } },
+  { label: "*.pem appears", rule: { kind: "created", path: "*.pem", threshold: 1, enabled: true } },
+  { label: "package-lock.json changes", rule: { kind: "modified", path: "package-lock.json", threshold: 1, enabled: true } },
+  { label: "File count +20%", rule: { kind: "growth", path: "", metric: "fileCount", threshold: 20, enabled: true } },
+]
+
+const STATE_BADGE: Record<AlertState, "danger" | "warning" | "secondary"> = {
+  open: "danger",
+  acknowledged: "warning",
+  resolved: "secondary",
+}
+
+const EMPTY_DRAFT: AlertRuleDraft = { kind: "created", path: "", metric: "fileCount", threshold: 1, enabled: true }
+
+// Helper: Rule summary below its name, e.g. "created · *.pem" or "fileCount of src +20%"
+function describeRule(rule: AlertRule) {
+  if (rule.kind === "growth") return `${rule.metric} of ${rule.path || "/"} +${rule.threshold}%`
+  return `${rule.kind} · ${rule.path}${rule.threshold > 1 ? ` · ${rule.threshold}+ per check` : ""}`
+}
+
+export function AlertsPanel({
+  apiBase,
+  directory,
+  rules,
+  refreshKey,
+  busy,
+  onSaveRules,
+  onAlertsChanged,
+  readOnly = false,
+}: {
+  apiBase: string
+  directory: string
+  rules: AlertRule[]
+  refreshKey: number  // Bumped whenever the directory's alerts may have changed
+  busy: boolean
+  onSaveRules: (rules: AlertRuleDraft[]) => Promise<boolean>
+  onAlertsChanged: () => void
+  readOnly?: boolean  // Viewer API token - alerts and rules are shown but can't be changed
+}) {
+  const [alerts, setAlerts] = useState<Alert[]>([])
+  const [showResolved, setShowResolved] = useState(false)
+  const [draft, setDraft] = useState<AlertRuleDraft>(EMPTY_DRAFT)
+  const [thresholdText, setThresholdText] = useState("1")
+  const [updating, setUpdating] = useState<string | null>(null)
+  const [error, setError] = useState<string | null>(null)
+
+  // Load the alerts whenever the directory changes or they may have changed
+  useEffect(() => {
+    let cancelled = false
+    const load = async () => {
+      try {
+        const response = await apiFetch(`${apiBase}/alerts/${encodeURIComponent(directory)}`)
+        const data = await response.json()
+        if (cancelled) return
+        if (response.ok) {
+          setAlerts(data.alerts || [])
+          setError(null)
+        } else {
+          setError(data.error || "Failed to load alerts")
+        }
+      } catch (err) {
+        if (!cancelled) setError("Failed to load alerts")
+      }
+    }
+    load()
+    return () => {
+      cancelled = true
+    }
+  }, [apiBase, directory, refreshKey])
+
+  const setAlertState = async (alert: Alert, state: "acknowledged" | "resolved") => {
+    setUpdating(alert.id)
+    try {
+      const response = await apiFetch(`${apiBase}/alerts/${encodeURIComponent(directory)}`, {
+        method: "PATCH",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({ id: alert.id, state }),
+      })
+      const data = await response.json()
+      if (response.ok) {
+        setAlerts((prev) => prev.map((a) => (a.id === alert.id ? data.alert : a)))
+        setError(null)
+        onAlertsChanged()
+      } else {
+        setError(data.error || "Failed to update the alert")
+      }
+    } catch (err) {
+      setError("Failed to update the alert")
+    }
+    setUpdating(null)
+  }
+
+  const addRule = async (rule: AlertRuleDraft) => {
+    if (await onSaveRules([...rules, rule])) {
+      setDraft(EMPTY_DRAFT)
+      setThresholdText("1")
+    }
+  }
+
+  const selectKind = (kind: AlertRuleKind) => {
+    setDraft((prev) => ({ ...prev, kind }))
+    // Events per check and percentages don't share a sensible default
+    setThresholdText(kind === "growth" ? "20" : "1")
+  }
+
+  const visible = showResolved ? alerts : alerts.filter((a) => a.state !== "resolved")
+  const resolvedCount = alerts.length - alerts.filter((a) => a.state !== "resolved").length
+  const isGrowth = draft.kind === "growth"
+
+  return (
+    <div className="space-y-4">
+      {error && <div className="text-sm text-destructive">{error}</div>}
+
+      {/* Alerts */}
+      <div className="space-y-2">
+        <div className="flex items-center justify-between">
+          <span className="text-sm font-medium">Alerts</span>
+          {resolvedCount > 0 && (
+            <label className="flex items-center gap-2 text-xs text-muted-foreground cursor-pointer">
+              <input
+                type="checkbox"
+                className="h-3 w-3 accent-primary"
+                checked={showResolved}
+                onChange={(e) => setShowResolved(e.target.checked)}
+              />
+              Show resolved ({resolvedCount})
+            </label>
+          )}
+        </div>
+        {visible.length === 0 ? (
+          <div className="flex items-center gap-2 text-sm text-muted-foreground p-2">
+            <Bell className="h-4 w-4" />
+            {rules.length === 0 ? "No alert rules yet - add one below" : "No alerts"}
+          </div>
+        ) : (
+          <div className="space-y-1 max-h-64 overflow-auto">
+            {visible.map((alert) => (
+              <div key={alert.id} className="flex items-start gap-2 p-2 rounded border text-sm">
+                <Badge variant={STATE_BADGE[alert.state]} className="text-xs font-normal shrink-0">
+                  {alert.state}
+                </Badge>
+                <div className="min-w-0 flex-1">
+                  <div className="truncate" title={alert.message}>
+                    {alert.message}
+                    {alert.count > 1 && <span className="text-muted-foreground"> ×{alert.count}</span>}
+                  </div>
+                  {alert.paths.length > 0 && (
+                    <div className="text-xs font-mono text-muted-foreground truncate" title={alert.paths.join("\n")}>
+                      {alert.paths.slice(0, 3).join(", ")}
+                      {alert.paths.length > 3 && ` and ${alert.paths.length - 3} more`}
+                    </div>
+                  )}
+                  <div className="text-xs text-muted-foreground">
+                    {new Date(alert.firstAt).toLocaleString()}
+                    {alert.lastAt !== alert.firstAt && ` - last ${new Date(alert.lastAt).toLocaleString()}`}
+                  </div>
+                </div>
+                {!readOnly && alert.state !== "resolved" && (
+                  <div className="flex gap-1 shrink-0">
+                    {alert.state === "open" && (
+                      <Button
+                        size="sm"
+                        variant="ghost"
+                        className="h-7 px-2"
+                        onClick={() => setAlertState(alert, "acknowledged")}
+                        disabled={updating !== null}
+                        title="Acknowledge - keeps collecting while you look into it"
+                      >
+                        <Check className="h-4 w-4" />
+                      </Button>
+                    )}
+                    <Button
+                      size="sm"
+                      variant="ghost"
+                      className="h-7 px-2"
+                      onClick={() => setAlertState(alert, "resolved")}
+                      disabled={updating !== null}
+                      title="Resolve - the rule raises a new alert next time"
+                    >
+                      {updating === alert.id ? (
+                        <Loader2 className="h-4 w-4 animate-spin" />
+                      ) : (
+                        <CheckCheck className="h-4 w-4" />
+                      )}
+                    </Button>
+                  </div>
+                )}
+              </div>
+            ))}
+          </div>
+        )}
+      </div>
+
+      {/* Rules */}
+      <div className="space-y-2">
+        <span className="text-sm font-medium">Rules ({rules.length})</span>
+        {rules.map((rule) => (
+          <div key={rule.id} className="flex items-center gap-2 p-2 rounded bg-muted/30 text-sm">
+            <input
+              type="checkbox"
+              className="h-3 w-3 accent-primary"
+              checked={rule.enabled}
+              onChange={(e) =>
+                onSaveRules(rules.map((r) => (r.id === rule.id ? { ...r, enabled: e.target.checked } : r)))
+              }
+              disabled={readOnly || busy}
+              title={rule.enabled ? "Enabled" : "Disabled"}
+            />
+            <div className="min-w-0 flex-1">
+              <div className={`truncate ${rule.enabled ? "" : "text-muted-foreground"}`}>{rule.name}</div>
+              <div className="text-xs font-mono text-muted-foreground truncate">{describeRule(rule)}</div>
+            </div>
+            {!readOnly && (
+              <Button
+                size="sm"
+                variant="ghost"
+                className="h-7 px-2 text-muted-foreground hover:text-destructive"
+                onClick={() => onSaveRules(rules.filter((r) => r.id !== rule.id))}
+                disabled={busy}
+                title="Delete rule"
+              >
+                <Trash2 className="h-4 w-4" />
+              </Button>
+            )}
+          </div>
+        ))}
+
+        {!readOnly && (
+          <>
+            <div className="flex flex-wrap items-center gap-2">
+              <select
+                className="h-8 rounded-md border bg-background px-2 text-sm"
+                value={draft.kind}
+                onChange={(e) => selectKind(e.target.value as AlertRuleKind)}
+                disabled={busy}
+              >
+                {RULE_KINDS.map(({ kind, label }) => (
+                  <option key={kind} value={kind}>
+                    {label}
+                  </option>
+                ))}
+              </select>
+              {isGrowth && (
+                <select
+                  className="h-8 rounded-md border bg-background px-2 text-sm"
+                  value={draft.metric}
+                  onChange={(e) => setDraft((prev) => ({ ...prev, metric: e.target.value as AlertRule["metric"] }))}
+                  disabled={busy}
+                >
+                  <option value="fileCount">File count</option>
+                  <option value="totalSize">Total size</option>
+                </select>
+              )}
+              <Input
+                className="h-8 flex-1 min-w-[140px] font-mono"
+                placeholder={isGrowth ? "Directory (empty = everything)" : "Path glob, e.g. *.pem or /.env"}
+                value={draft.path}
+                onChange={(e) => setDraft((prev) => ({ ...prev, path: e.target.value }))}
+                disabled={busy}
+              />
+              <Input
+                type="number"
+                className="h-8 w-24"
+                min={1}
+                value={thresholdText}
+                onChange={(e) => setThresholdText(e.target.value)}
+                disabled={busy}
+                title={isGrowth ? "Percent growth between manifests" : "Matching events needed in one check"}
+              />
+              {isGrowth && <span className="text-sm text-muted-foreground">%</span>}
+              <Button
+                size="sm"
+                onClick={() => addRule({ ...draft, threshold: Number(thresholdText) })}
+                disabled={busy || (!isGrowth && !draft.path.trim())}
+                className="gap-1"
+              >
+                {busy ? <Loader2 className="h-4 w-4 animate-spin" /> : <Plus className="h-4 w-4" />}
+                Add rule
+              </Button>
+            </div>
+            <div className="flex flex-wrap gap-1">
+              {PRESETS.map(({ label, rule }) => (
+                <Button
+                  key={label}
+                  size="sm"
+                  variant="outline"
+                  className="h-6 px-2 text-xs"
+                  onClick={() => addRule(rule)}
+                  disabled={busy}
+                >
+                  {label}
+                </Button>
+              ))}
+            </div>
+          </>
+        )}
+      </div>
+    </div>
+  )
+}
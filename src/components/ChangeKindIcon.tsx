@@ -0,0 +1,53 @@
+/**
+ * LHI Directory Monitor - Change Kind Icon
+ *
+ * Icon and colour for a change event's kind (created / modified / deleted /
+ * renamed), with folder variants when the event is for a directory.
+ */
+
+import {
+  ArrowRightLeft,
+  FileDiff,
+  FileMinus,
+  FilePen,
+  FilePlus,
+  FolderMinus,
+  FolderPen,
+  FolderPlus,
+  type LucideIcon,
+} from "lucide-react"
+import type { ChangeKind } from "../types"
+
+// Every kind the backend reports, in the order filters list them
+export const CHANGE_KINDS: ChangeKind[] = ["created", "modified", "deleted", "renamed", "changed"]
+
+const KIND_STYLES: Record<ChangeKind, { file: LucideIcon; folder: LucideIcon; color: string; label: string }> = {
+  created: { file: FilePlus, folder: FolderPlus, color: "text-green-500", label: "Created" },
+  modified: { file: FilePen, folder: FolderPen, color: "text-blue-500", label: "Modified" },
+  deleted: { file: FileMinus, folder: FolderMinus, color: "text-red-500", label: "Deleted" },
+  renamed: { file: ArrowRightLeft, folder: ArrowRightLeft, color: "text-amber-500", label: "Renamed" },
+  changed: { file: FileDiff, folder: FileDiff, color: "text-muted-foreground", label: "Changed" },
+}
+
+// Helper: Text colour class for a kind (unknown kinds look like "changed")
+export function changeKindColor(kind: string) {
+  return (KIND_STYLES[kind as ChangeKind] ?? KIND_STYLES.changed).color
+}
+
+export function ChangeKindIcon({
+  kind,
+  isDirectory,
+  className = "h-3 w-3",
+}: {
+  kind: string
+  isDirectory?: boolean
+  className?: string
+}) {
+  const style = KIND_STYLES[kind as ChangeKind] ?? KIND_STYLES.changed
+  const Icon = isDirectory ? style.folder : style.file
+  return (
+    <span title={`${style.label}${isDirectory ? " (directory)" : ""}`} className="shrink-0">
+      <Icon className={`${className} ${style.color}`} />
+    </span>
+  )
+}
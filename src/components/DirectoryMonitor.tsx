@@ -6,10 +6,10 @@
  * - Starting/stopping the directory monitor per-directory
  * - Viewing file system manifests (.lhi_manifest)
  * - Managing exclude patterns (.lhi_excludes)
- * - Real-time status monitoring with recent changes
+ * - Real-time status monitoring with recent changes (Server-Sent Events, polling fallback)
  */
 
-import { useState, useEffect, useCallback } from "react"
+import { useState, useEffect, useCallback, useRef, useMemo } from "react"
 import {
   FolderTree,
   Play,
@@ -20,69 +20,68 @@ import {
   ChevronRight,
   ChevronDown,
   Folder,
-  File,
   AlertCircle,
   CheckCircle2,
   Loader2,
-  EyeOff,
   Plus,
   Database,
   FolderPlus,
   X,
   Clock,
   Activity,
+  Radio,
+  History,
+  ShieldAlert,
+  KeyRound,
+  LogOut,
+  SlidersHorizontal,
+  HardDrive,
+  Bell,
 } from "lucide-react"
 import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "./ui/card"
 import { Button } from "./ui/button"
 import { Badge } from "./ui/badge"
 import { Collapsible, CollapsibleContent, CollapsibleTrigger } from "./ui/collapsible"
 import { Input } from "./ui/input"
+import { ExcludePatternEditor } from "./ExcludePatternEditor"
+import { MonitorSettingsPanel } from "./MonitorSettingsPanel"
+import { AlertsPanel, type AlertRuleDraft } from "./AlertsPanel"
+import { DirectoryPicker } from "./DirectoryPicker"
+import { ManifestHistory } from "./ManifestHistory"
+import { ActivityTimeline } from "./ActivityTimeline"
+import { DiskUsage } from "./DiskUsage"
+import { ExportMenu } from "./ExportMenu"
+import { ChangeKindIcon, changeKindColor } from "./ChangeKindIcon"
+import { FileTreeSearch } from "./FileTreeSearch"
+import { VirtualFileTree } from "./VirtualFileTree"
 import { PORTS } from "../config/ports"
-
-// Types
-interface RegisteredDirectory {
-  directory: string
-  manifest: string
-  lastUpdate: string
-  lastUpdateEst?: string
-}
-
-interface DirectoryStatus {
-  running: boolean
-  pid?: number
-  uptime?: string
-  lastManifestUpdate?: string
-}
-
-interface ManifestEntry {
-  path: string
-  type: "file" | "directory"
-  size?: number
-  modified?: string
-  children?: ManifestEntry[]
-  fileCount?: number  // Recursive count of files in this directory
-  dirCount?: number   // Recursive count of subdirectories in this directory
-}
-
-interface ManifestData {
-  directory: string
-  timestamp: string
-  total_files: number
-  total_directories: number
-  tree: ManifestEntry[]
-  error?: string
-}
-
-interface ExcludePattern {
-  pattern: string
-  isDirectory: boolean
-  comment?: string
-}
-
-interface RecentChange {
-  timestamp: string
-  file: string
-}
+import { apiFetch, withAccessToken, setApiToken } from "../lib/api"
+import { createMatcher } from "../../shared/excludeMatcher.js"
+import type {
+  RegisteredDirectory,
+  DirectoryStatus,
+  ManifestData,
+  ExcludePattern,
+  ExcludeSource,
+  ExcludePreview,
+  RecentChange,
+  ManifestSearchResult,
+  StreamState,
+  WatcherBackendInfo,
+  WatcherBackendName,
+  AuthInfo,
+  Job,
+  BulkAction,
+  BulkResponse,
+  MonitorHealth,
+  MonitorExit,
+  AutostartReport,
+  MonitorSettings,
+  AlertCounts,
+} from "../types"
+
+// Content shown below the exclude patterns for the selected directory
+type DirectoryView = "files" | "history" | "activity" | "usage"
 
 // API helper
 const getApiBaseUrl = () => {
@@ -101,100 +100,26 @@ const getApiBaseUrl = () => {
   return `http://localhost:${PORTS.BACKEND}/api`
 }
 
-// File tree node component - starts collapsed by default
-function FileTreeNode({
-  entry,
-  level = 0,
-  excludePatterns,
-  defaultOpen = false,
-}: {
-  entry: ManifestEntry
-  level?: number
-  excludePatterns: string[]
-  defaultOpen?: boolean
-}) {
-  const [isOpen, setIsOpen] = useState(defaultOpen)
-
-  const isExcluded = excludePatterns.some((pattern) => {
-    const cleanPattern = pattern.replace(/\*\*/g, "").replace(/\*/g, "")
-    return entry.path.includes(cleanPattern) || entry.path.endsWith(cleanPattern)
-  })
+// Seconds a job has been queued or running, e.g. "12s"
+const formatJobElapsed = (job: Job, now: number) =>
+  `${Math.max(0, Math.floor((now - (job.startedAt ?? job.createdAt)) / 1000))}s`
 
-  const Icon = entry.type === "directory" ? Folder : File
-  const hasChildren = entry.children && entry.children.length > 0
-
-  return (
-    <div style={{ marginLeft: `${level * 16}px` }}>
-      <div
-        className={`flex items-center gap-2 py-1 px-2 rounded hover:bg-accent/50 cursor-pointer ${
-          isExcluded ? "opacity-50" : ""
-        }`}
-        onClick={() => hasChildren && setIsOpen(!isOpen)}
-      >
-        {hasChildren ? (
-          isOpen ? (
-            <ChevronDown className="h-4 w-4 text-muted-foreground" />
-          ) : (
-            <ChevronRight className="h-4 w-4 text-muted-foreground" />
-          )
-        ) : (
-          <span className="w-4" />
-        )}
-        <Icon
-          className={`h-4 w-4 ${
-            entry.type === "directory" ? "text-yellow-500" : "text-blue-500"
-          } ${isExcluded ? "text-muted-foreground" : ""}`}
-        />
-        <span className={`text-sm ${isExcluded ? "text-muted-foreground line-through" : ""}`}>
-          {entry.path.split("/").pop() || entry.path}
-        </span>
-        {isExcluded && (
-          <Badge variant="outline" className="ml-2 text-xs">
-            <EyeOff className="h-3 w-3 mr-1" />
-            excluded
-          </Badge>
-        )}
-        {/* Show file/dir counts for directories */}
-        {entry.type === "directory" && (entry.fileCount !== undefined || entry.dirCount !== undefined) && (
-          <span className="text-xs text-muted-foreground ml-auto flex gap-2">
-            {entry.fileCount !== undefined && (
-              <span title="Files in this folder">{entry.fileCount.toLocaleString()} files</span>
-            )}
-            {entry.dirCount !== undefined && (
-              <span title="Subdirectories in this folder">{entry.dirCount.toLocaleString()} dirs</span>
-            )}
-          </span>
-        )}
-        {/* Show file size for files */}
-        {entry.type !== "directory" && entry.size !== undefined && (
-          <span className="text-xs text-muted-foreground ml-auto">
-            {formatFileSize(entry.size)}
-          </span>
-        )}
-      </div>
-      {hasChildren && isOpen && (
-        <div>
-          {entry.children!.map((child, i) => (
-            <FileTreeNode
-              key={`${child.path}-${i}`}
-              entry={child}
-              level={level + 1}
-              excludePatterns={excludePatterns}
-              defaultOpen={false}
-            />
-          ))}
-        </div>
-      )}
-    </div>
-  )
+// Tab dot colour and tooltip for each watchdog health state
+const HEALTH_DOT: Record<MonitorHealth, { className: string; label: string }> = {
+  healthy: { className: "bg-green-500", label: "Monitoring active" },
+  restarting: { className: "bg-amber-500 animate-pulse", label: "Monitor exited - restarting" },
+  "crash-looping": { className: "bg-red-500", label: "Monitor keeps crashing - restarts stopped" },
+  stopped: { className: "bg-gray-400", label: "Not monitoring" },
 }
 
-function formatFileSize(bytes: number): string {
-  if (bytes === 0) return "0 B"
-  const k = 1024
-  const sizes = ["B", "KB", "MB", "GB"]
-  const i = Math.floor(Math.log(bytes) / Math.log(k))
-  return parseFloat((bytes / Math.pow(k, i)).toFixed(1)) + " " + sizes[i]
+const healthOf = (status?: DirectoryStatus | null): MonitorHealth =>
+  status?.health ?? (status?.running ? "healthy" : "stopped")
+
+// How a monitor last exited, e.g. "SIGKILL at 10:42:07"
+const describeExit = (exit: MonitorExit) => {
+  const how =
+    exit.error ?? exit.signal ?? (exit.code !== null ? `exit code ${exit.code}` : "exited while the backend was down")
+  return `${how} at ${new Date(exit.at).toLocaleTimeString()}`
 }
 
 // Directory tab component
@@ -203,15 +128,22 @@ function DirectoryTab({
   isSelected,
   onClick,
   onRemove,
+  checked,
+  onCheck,
   status,
+  alerts,
 }: {
   dir: RegisteredDirectory
   isSelected: boolean
   onClick: () => void
-  onRemove: () => void
+  onRemove?: () => void  // Omitted for read-only API tokens
+  checked?: boolean  // Picked for a bulk action
+  onCheck?: (checked: boolean) => void  // Omitted for read-only API tokens
   status?: DirectoryStatus
+  alerts?: AlertCounts[string]  // Open and acknowledged alerts
 }) {
   const dirName = dir.directory.split("/").pop() || dir.directory
+  const dot = HEALTH_DOT[healthOf(status)]
 
   return (
     <div
@@ -222,32 +154,56 @@ function DirectoryTab({
       }`}
       onClick={onClick}
     >
+      {onCheck && (
+        <input
+          type="checkbox"
+          className="h-3 w-3 accent-primary cursor-pointer"
+          checked={checked ?? false}
+          onChange={(e) => onCheck(e.target.checked)}
+          onClick={(e) => e.stopPropagation()}
+          title="Include in bulk actions"
+        />
+      )}
       {/* Status indicator dot */}
       <span
-        className={`w-2 h-2 rounded-full ${
-          status?.running ? "bg-green-500" : "bg-gray-400"
-        }`}
-        title={status?.running ? "Monitoring active" : "Not monitoring"}
+        className={`w-2 h-2 rounded-full ${dot.className}`}
+        title={status?.lastExit ? `${dot.label} (last exit: ${describeExit(status.lastExit)})` : dot.label}
       />
       <Folder className="h-4 w-4" />
       <span className="text-sm font-medium truncate max-w-[150px]" title={dir.directory}>
         {dirName}
       </span>
-      <button
-        className="ml-1 p-0.5 rounded hover:bg-destructive/20 text-muted-foreground hover:text-destructive"
-        onClick={(e) => {
-          e.stopPropagation()
-          onRemove()
-        }}
-        title="Remove from registry"
-      >
-        <X className="h-3 w-3" />
-      </button>
+      {alerts && (
+        <Badge
+          variant={alerts.open > 0 ? "danger" : "warning"}
+          className="gap-1 px-1.5 py-0 text-xs font-normal"
+          title={`${alerts.open} open, ${alerts.acknowledged} acknowledged alert(s)`}
+        >
+          <Bell className="h-3 w-3" />
+          {alerts.open > 0 ? alerts.open : alerts.acknowledged}
+        </Badge>
+      )}
+      {onRemove && (
+        <button
+          className="ml-1 p-0.5 rounded hover:bg-destructive/20 text-muted-foreground hover:text-destructive"
+          onClick={(e) => {
+            e.stopPropagation()
+            onRemove()
+          }}
+          title="Remove from registry"
+        >
+          <X className="h-3 w-3" />
+        </button>
+      )}
     </div>
   )
 }
 
 export function DirectoryMonitor() {
+  // API token state
+  const [auth, setAuth] = useState<AuthInfo | null>(null)
+  const [tokenInput, setTokenInput] = useState("")
+
   // Registry state
   const [registry, setRegistry] = useState<RegisteredDirectory[]>([])
   const [selectedDir, setSelectedDir] = useState<string | null>(null)
@@ -258,42 +214,126 @@ export function DirectoryMonitor() {
   const [dirStatus, setDirStatus] = useState<DirectoryStatus | null>(null)
   const [manifest, setManifest] = useState<ManifestData | null>(null)
   const [excludePatterns, setExcludePatterns] = useState<ExcludePattern[]>([])
+  const [excludeSource, setExcludeSource] = useState<ExcludeSource>(null)
+  const [excludePreview, setExcludePreview] = useState<ExcludePreview | null>(null)
   const [recentChanges, setRecentChanges] = useState<RecentChange[]>([])
+  const [searchResult, setSearchResult] = useState<ManifestSearchResult | null>(null)
+  // Query string of the file tree search filters ("" = none), applied to manifest exports too
+  const [searchFilters, setSearchFilters] = useState("")
+  const [backends, setBackends] = useState<WatcherBackendInfo[]>([])
+  // Latest refresh job for the selected directory (active or just finished)
+  const [refreshJob, setRefreshJob] = useState<Job | null>(null)
+  // Directories picked for bulk start/stop/refresh (none = all), and the last bulk action's results
+  const [bulkSelection, setBulkSelection] = useState<string[]>([])
+  const [bulkResults, setBulkResults] = useState<BulkResponse | null>(null)
+  const [now, setNow] = useState(() => Date.now())
+  // The backend's 403 message when it refuses the selected directory
+  // (outside its allowed roots, or not registered)
+  const [accessDenied, setAccessDenied] = useState<string | null>(null)
 
   // UI state
   const [loading, setLoading] = useState(true)
   const [actionLoading, setActionLoading] = useState<string | null>(null)
   const [error, setError] = useState<string | null>(null)
   const [showExcludes, setShowExcludes] = useState(false)
+  const [showSettings, setShowSettings] = useState(false)
+  const [showAlerts, setShowAlerts] = useState(false)
+  const [view, setView] = useState<DirectoryView>("files")
+  const [streamState, setStreamState] = useState<StreamState>("connecting")
+  const [streamAttempt, setStreamAttempt] = useState(0)
 
   // Status map for all directories (for tab indicators)
   const [statusMap, setStatusMap] = useState<Record<string, DirectoryStatus>>({})
+  // Open and acknowledged alerts per directory (tab badges); the version tells the alerts panel to reload
+  const [alertCounts, setAlertCounts] = useState<AlertCounts>({})
+  const [alertsVersion, setAlertsVersion] = useState(0)
 
   const apiBase = getApiBaseUrl()
 
+  // Same gitignore-semantics matcher the backend uses
+  const excludeMatcher = useMemo(
+    () => createMatcher(excludePatterns.map((p) => p.pattern)),
+    [excludePatterns]
+  )
+
+  // Tree highlight for an exclude dry-run (only what isn't hidden already)
+  const previewPaths = useMemo(
+    () =>
+      excludePreview
+        ? new Set(excludePreview.matches.filter((m) => !m.alreadyExcluded).map((m) => m.path))
+        : undefined,
+    [excludePreview]
+  )
+
+  // Fetch whether the API needs a token, and the role of ours
+  const fetchAuth = useCallback(async () => {
+    try {
+      const response = await apiFetch(`${apiBase}/auth`)
+      if (response.ok) {
+        const data = (await response.json()) as AuthInfo
+        setAuth(data)
+        return data
+      }
+    } catch (err) {
+      console.error("Failed to fetch auth:", err)
+    }
+    return null
+  }, [apiBase])
+
   // Fetch registry
   const fetchRegistry = useCallback(async () => {
     try {
-      const response = await fetch(`${apiBase}/registry`)
+      const response = await apiFetch(`${apiBase}/registry`)
       if (response.ok) {
         const data = await response.json()
         setRegistry(data.monitors || [])
 
-        // Auto-select first directory if none selected
-        if (!selectedDir && data.monitors?.length > 0) {
-          setSelectedDir(data.monitors[0].directory)
+        // Auto-select first directory if none selected (through the updater, so this callback
+        // doesn't change - and re-run the initial fetch - with every directory switch)
+        if (data.monitors?.length > 0) {
+          setSelectedDir((prev) => prev ?? data.monitors[0].directory)
         }
       }
     } catch (err) {
       console.error("Failed to fetch registry:", err)
     }
-  }, [apiBase, selectedDir])
+  }, [apiBase])
+
+  // Fetch the watcher backends (for the backend selector)
+  const fetchBackends = useCallback(async () => {
+    try {
+      const response = await apiFetch(`${apiBase}/backends`)
+      if (response.ok) {
+        const data = await response.json()
+        setBackends(data.backends || [])
+      }
+    } catch (err) {
+      console.error("Failed to fetch backends:", err)
+    }
+  }, [apiBase])
+
+  // Report autostart directories the backend couldn't start when it came up
+  const fetchAutostartReport = useCallback(async () => {
+    try {
+      const response = await apiFetch(`${apiBase}/autostart`)
+      if (response.ok) {
+        const report: AutostartReport | null = await response.json()
+        if (report?.failed.length) {
+          setError(
+            `Autostart failed for:\n${report.failed.map((f) => `${f.directory}: ${f.error}`).join("\n")}`
+          )
+        }
+      }
+    } catch (err) {
+      console.error("Failed to fetch autostart report:", err)
+    }
+  }, [apiBase])
 
   // Fetch status for a specific directory
   const fetchDirStatus = useCallback(async (dir: string) => {
     try {
       const encodedPath = encodeURIComponent(dir)
-      const response = await fetch(`${apiBase}/status/${encodedPath}`)
+      const response = await apiFetch(`${apiBase}/status/${encodedPath}`)
       if (response.ok) {
         const data = await response.json()
         return data as DirectoryStatus
@@ -304,17 +344,48 @@ export function DirectoryMonitor() {
     return null
   }, [apiBase])
 
-  // Fetch status for all directories (for tab indicators)
+  // Pick up a refresh already running for dir (started before a reload, or by someone else)
+  const fetchActiveRefreshJob = useCallback(async (dir: string) => {
+    try {
+      const response = await apiFetch(`${apiBase}/jobs?directory=${encodeURIComponent(dir)}`)
+      if (response.ok) {
+        const data: { jobs: Job[] } = await response.json()
+        const active = data.jobs.find(
+          (job) => job.type === "refresh" && (job.state === "queued" || job.state === "running")
+        )
+        if (active) setRefreshJob((prev) => prev ?? active)
+      }
+    } catch (err) {
+      console.error("Failed to fetch refresh jobs:", err)
+    }
+  }, [apiBase])
+
+  // Fetch status for all directories (for tab indicators) - one request for the whole registry
   const fetchAllStatuses = useCallback(async () => {
-    const newStatusMap: Record<string, DirectoryStatus> = {}
-    for (const dir of registry) {
-      const status = await fetchDirStatus(dir.directory)
-      if (status) {
-        newStatusMap[dir.directory] = status
+    try {
+      const response = await apiFetch(`${apiBase}/statuses`)
+      if (response.ok) {
+        const data: { statuses: Record<string, DirectoryStatus> } = await response.json()
+        setStatusMap(data.statuses)
       }
+    } catch (err) {
+      console.error("Failed to fetch statuses:", err)
     }
-    setStatusMap(newStatusMap)
-  }, [registry, fetchDirStatus])
+  }, [apiBase])
+
+  // Fetch alert counts for all directories (for tab badges)
+  const fetchAlertCounts = useCallback(async () => {
+    try {
+      const response = await apiFetch(`${apiBase}/alerts`)
+      if (response.ok) {
+        const data: { counts: AlertCounts } = await response.json()
+        setAlertCounts(data.counts)
+        setAlertsVersion((v) => v + 1)
+      }
+    } catch (err) {
+      console.error("Failed to fetch alert counts:", err)
+    }
+  }, [apiBase])
 
   // Fetch manifest for selected directory
   const fetchManifest = useCallback(async () => {
@@ -322,10 +393,16 @@ export function DirectoryMonitor() {
 
     try {
       const encodedPath = encodeURIComponent(selectedDir)
-      const response = await fetch(`${apiBase}/manifest/${encodedPath}`)
+      // The tree itself is loaded a level at a time by VirtualFileTree
+      const response = await apiFetch(`${apiBase}/manifest/${encodedPath}?tree=false`)
       if (response.ok) {
         const data = await response.json()
         setManifest(data)
+        setAccessDenied(null)
+      } else if (response.status === 403) {
+        const data = await response.json()
+        setManifest(null)
+        setAccessDenied(data.error || "Access denied")
       }
     } catch (err) {
       console.error("Failed to fetch manifest:", err)
@@ -338,10 +415,11 @@ export function DirectoryMonitor() {
 
     try {
       const encodedPath = encodeURIComponent(selectedDir)
-      const response = await fetch(`${apiBase}/excludes/${encodedPath}`)
+      const response = await apiFetch(`${apiBase}/excludes/${encodedPath}`)
       if (response.ok) {
         const data = await response.json()
         setExcludePatterns(data.patterns || [])
+        setExcludeSource(data.source ?? null)
       }
     } catch (err) {
       console.error("Failed to fetch excludes:", err)
@@ -354,7 +432,7 @@ export function DirectoryMonitor() {
 
     try {
       const encodedPath = encodeURIComponent(selectedDir)
-      const response = await fetch(`${apiBase}/changes/${encodedPath}`)
+      const response = await apiFetch(`${apiBase}/changes/${encodedPath}`)
       if (response.ok) {
         const data = await response.json()
         setRecentChanges(data.recentChanges || [])
@@ -364,42 +442,148 @@ export function DirectoryMonitor() {
     }
   }, [apiBase, selectedDir])
 
+  // Latest values for the event stream handlers (the stream outlives directory switches)
+  const selectedDirRef = useRef(selectedDir)
+  const fetchRegistryRef = useRef(fetchRegistry)
+  const fetchManifestRef = useRef(fetchManifest)
+  const fetchRecentChangesRef = useRef(fetchRecentChanges)
+  const fetchAlertCountsRef = useRef(fetchAlertCounts)
+  useEffect(() => {
+    selectedDirRef.current = selectedDir
+    fetchRegistryRef.current = fetchRegistry
+    fetchManifestRef.current = fetchManifest
+    fetchRecentChangesRef.current = fetchRecentChanges
+    fetchAlertCountsRef.current = fetchAlertCounts
+  }, [selectedDir, fetchRegistry, fetchManifest, fetchRecentChanges, fetchAlertCounts])
+
+  // Subscribe to live updates; polling below takes over whenever the stream is down
+  useEffect(() => {
+    if (typeof EventSource === "undefined") {
+      setStreamState("polling")
+      return
+    }
+
+    const source = new EventSource(withAccessToken(`${apiBase}/events`))
+    let retryTimer: ReturnType<typeof setTimeout> | undefined
+    const parse = (e: Event) => JSON.parse((e as MessageEvent).data)
+
+    source.addEventListener("ready", () => {
+      setStreamState("live")
+      // Catch up on anything missed while we were polling or disconnected
+      fetchRegistryRef.current()
+      fetchManifestRef.current()
+      fetchRecentChangesRef.current()
+      fetchAlertCountsRef.current()
+    })
+
+    source.addEventListener("status", (e) => {
+      const { directory, status } = parse(e) as { directory: string; status: DirectoryStatus }
+      setStatusMap((prev) => ({ ...prev, [directory]: status }))
+      if (directory === selectedDirRef.current) setDirStatus(status)
+    })
+
+    source.addEventListener("changes", (e) => {
+      const { directory, changes } = parse(e) as { directory: string; changes: RecentChange[] }
+      if (directory === selectedDirRef.current) {
+        setRecentChanges((prev) => [...changes, ...prev].slice(0, 5))
+      }
+    })
+
+    source.addEventListener("manifest", (e) => {
+      const { directory } = parse(e) as { directory: string }
+      if (directory === selectedDirRef.current) fetchManifestRef.current()
+    })
+
+    source.addEventListener("job", (e) => {
+      const job = parse(e) as Job
+      if (job.type === "refresh" && job.key === selectedDirRef.current) setRefreshJob(job)
+    })
+
+    source.addEventListener("alerts", (e) => {
+      const { directory, counts } = parse(e) as { directory: string; counts: AlertCounts }
+      setAlertCounts(counts)
+      if (directory === selectedDirRef.current) setAlertsVersion((v) => v + 1)
+    })
+
+    source.addEventListener("registry", () => {
+      fetchRegistryRef.current()
+    })
+
+    source.onerror = () => {
+      setStreamState("polling")
+      // EventSource retries by itself unless the server refused the stream outright
+      if (source.readyState === EventSource.CLOSED) {
+        retryTimer = setTimeout(() => setStreamAttempt((n) => n + 1), 30000)
+      }
+    }
+
+    return () => {
+      clearTimeout(retryTimer)
+      source.close()
+    }
+  }, [apiBase, streamAttempt])
+
+  const isLive = streamState === "live"
+  // The backend wants a token and hasn't accepted ours
+  const signedOut = auth?.authRequired === true && !auth.role
+  // Start/stop/refresh and registry or exclude edits need an operator token (or an open API)
+  const canOperate = auth?.role === "operator"
+  const refreshActive = refreshJob?.state === "queued" || refreshJob?.state === "running"
+  const selectedEntry = registry.find((r) => r.directory === selectedDir)
+
   // Initial fetch
   useEffect(() => {
     const init = async () => {
       setLoading(true)
-      await fetchRegistry()
+      const info = await fetchAuth()
+      // Without an accepted token there's nothing to load until one is entered
+      if (!info?.authRequired || info.role) {
+        await Promise.all([fetchRegistry(), fetchBackends(), fetchAutostartReport(), fetchAlertCounts()])
+      }
       setLoading(false)
     }
     init()
+  }, [fetchAuth, fetchRegistry, fetchBackends, fetchAutostartReport, fetchAlertCounts])
+
+  // Poll registry and alert counts every 10 seconds (fallback when the event stream is down)
+  useEffect(() => {
+    if (isLive) return
 
-    // Poll registry every 10 seconds
     const interval = setInterval(() => {
       fetchRegistry()
+      fetchAlertCounts()
     }, 10000)
     return () => clearInterval(interval)
-  }, [fetchRegistry])
+  }, [isLive, fetchRegistry, fetchAlertCounts])
 
   // Fetch all statuses when registry changes
   useEffect(() => {
     if (registry.length > 0) {
       fetchAllStatuses()
     }
+    // Drop bulk picks for directories that are gone
+    setBulkSelection((prev) => prev.filter((dir) => registry.some((r) => r.directory === dir)))
   }, [registry, fetchAllStatuses])
 
-  // Poll statuses every 5 seconds
+  // Poll statuses every 5 seconds (fallback when the event stream is down)
   useEffect(() => {
+    if (isLive) return
+
     const interval = setInterval(() => {
       if (registry.length > 0) {
         fetchAllStatuses()
       }
     }, 5000)
     return () => clearInterval(interval)
-  }, [registry, fetchAllStatuses])
+  }, [isLive, registry, fetchAllStatuses])
 
   // Fetch manifest, excludes, and status when selected directory changes
   useEffect(() => {
+    setExcludePreview(null)
+    setAccessDenied(null)
+    setRefreshJob(null)
     if (selectedDir) {
+      fetchActiveRefreshJob(selectedDir)
       fetchManifest()
       fetchExcludes()
       fetchRecentChanges()
@@ -407,11 +591,55 @@ export function DirectoryMonitor() {
         if (status) setDirStatus(status)
       })
     }
-  }, [selectedDir, fetchManifest, fetchExcludes, fetchRecentChanges, fetchDirStatus])
+  }, [selectedDir, fetchManifest, fetchExcludes, fetchRecentChanges, fetchDirStatus, fetchActiveRefreshJob])
 
-  // Poll selected directory's data every 5 seconds
+  // Follow a running refresh job every second (fallback when the event stream is down)
   useEffect(() => {
-    if (!selectedDir) return
+    if (!refreshActive || isLive || !refreshJob) return
+
+    const interval = setInterval(async () => {
+      try {
+        const response = await apiFetch(`${apiBase}/jobs/${refreshJob.id}`)
+        if (response.ok) {
+          const job: Job = await response.json()
+          setRefreshJob((prev) => (prev?.id === job.id ? job : prev))
+        }
+      } catch (err) {
+        console.error("Failed to fetch refresh job:", err)
+      }
+    }, 1000)
+    return () => clearInterval(interval)
+  }, [apiBase, refreshActive, isLive, refreshJob?.id])
+
+  // Tick the elapsed time shown on the Refresh button
+  useEffect(() => {
+    if (!refreshActive) return
+
+    setNow(Date.now())
+    const interval = setInterval(() => setNow(Date.now()), 1000)
+    return () => clearInterval(interval)
+  }, [refreshActive])
+
+  // Act on a refresh job finishing: show the new manifest, or why it failed - once per job, as
+  // the same finished job can arrive again (event stream and polling)
+  const finishedJobRef = useRef<string | null>(null)
+  useEffect(() => {
+    if (!refreshJob || refreshJob.key !== selectedDirRef.current) return
+    if (refreshJob.state === "queued" || refreshJob.state === "running") return
+    if (finishedJobRef.current === refreshJob.id) return
+    finishedJobRef.current = refreshJob.id
+
+    if (refreshJob.state === "succeeded") {
+      fetchManifestRef.current()
+    } else if (refreshJob.state === "failed" || refreshJob.state === "timed-out") {
+      const stderr = refreshJob.stderr.trim().split("\n").slice(-5).join("\n")
+      setError(`Refresh ${refreshJob.state}: ${refreshJob.error}${stderr ? `\n${stderr}` : ""}`)
+    }
+  }, [refreshJob])
+
+  // Poll selected directory's data every 5 seconds (fallback when the event stream is down)
+  useEffect(() => {
+    if (!selectedDir || isLive) return
 
     const interval = setInterval(() => {
       fetchManifest()
@@ -421,7 +649,7 @@ export function DirectoryMonitor() {
       })
     }, 5000)
     return () => clearInterval(interval)
-  }, [selectedDir, fetchManifest, fetchRecentChanges, fetchDirStatus])
+  }, [selectedDir, isLive, fetchManifest, fetchRecentChanges, fetchDirStatus])
 
   // Add directory to registry
   const addDirectory = async () => {
@@ -429,7 +657,7 @@ export function DirectoryMonitor() {
 
     setActionLoading("add")
     try {
-      const response = await fetch(`${apiBase}/registry/add`, {
+      const response = await apiFetch(`${apiBase}/registry/add`, {
         method: "POST",
         headers: { "Content-Type": "application/json" },
         body: JSON.stringify({ directory: newDirPath.trim() }),
@@ -455,7 +683,7 @@ export function DirectoryMonitor() {
   const removeDirectory = async (directory: string) => {
     setActionLoading("remove")
     try {
-      const response = await fetch(`${apiBase}/registry/remove`, {
+      const response = await apiFetch(`${apiBase}/registry/remove`, {
         method: "POST",
         headers: { "Content-Type": "application/json" },
         body: JSON.stringify({ directory }),
@@ -478,6 +706,58 @@ export function DirectoryMonitor() {
     setActionLoading(null)
   }
 
+  // Use a new API token (null to forget the stored one)
+  const saveToken = async (token: string | null) => {
+    setApiToken(token)
+    setTokenInput("")
+    setError(null)
+    const info = await fetchAuth()
+    if (info?.role) {
+      await Promise.all([fetchRegistry(), fetchBackends()])
+      // Reconnect the event stream with the new token
+      setStreamAttempt((n) => n + 1)
+    } else if (token) {
+      setError("The backend did not accept that API token")
+    }
+  }
+
+  // Change the selected directory's registry settings: its watcher backend (only while
+  // stopped), whether it starts with the backend, and its monitor settings
+  const updateDirectorySettings = async (changes: {
+    backend?: WatcherBackendName
+    autostart?: boolean
+    settings?: Partial<MonitorSettings>
+    alertRules?: AlertRuleDraft[]
+  }) => {
+    if (!selectedDir) return false
+
+    setActionLoading("settings")
+    setError(null)
+    let ok = false
+    try {
+      const encodedPath = encodeURIComponent(selectedDir)
+      const response = await apiFetch(`${apiBase}/registry/${encodedPath}`, {
+        method: "PATCH",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify(changes),
+      })
+
+      if (response.ok) {
+        ok = true
+        await fetchRegistry()
+        const status = await fetchDirStatus(selectedDir)
+        if (status) setDirStatus(status)
+      } else {
+        const data = await response.json()
+        setError(data.error || "Failed to change settings")
+      }
+    } catch (err) {
+      setError("Failed to change settings")
+    }
+    setActionLoading(null)
+    return ok
+  }
+
   // Start monitor for selected directory
   const startMonitor = async () => {
     if (!selectedDir) return
@@ -486,7 +766,7 @@ export function DirectoryMonitor() {
     setError(null) // Clear any previous errors
     try {
       const encodedPath = encodeURIComponent(selectedDir)
-      const response = await fetch(`${apiBase}/start/${encodedPath}`, {
+      const response = await apiFetch(`${apiBase}/start/${encodedPath}`, {
         method: "POST",
       })
       const data = await response.json()
@@ -516,7 +796,7 @@ export function DirectoryMonitor() {
     setError(null) // Clear any previous errors
     try {
       const encodedPath = encodeURIComponent(selectedDir)
-      const response = await fetch(`${apiBase}/stop/${encodedPath}`, {
+      const response = await apiFetch(`${apiBase}/stop/${encodedPath}`, {
         method: "POST",
       })
       const data = await response.json()
@@ -536,16 +816,22 @@ export function DirectoryMonitor() {
     setActionLoading(null)
   }
 
-  // Refresh manifest for selected directory
+  // Refresh manifest for selected directory - starts a job, followed above until it finishes
   const refreshManifest = async () => {
     if (!selectedDir) return
 
     setActionLoading("refresh")
+    setError(null)
     try {
       const encodedPath = encodeURIComponent(selectedDir)
-      const response = await fetch(`${apiBase}/refresh/${encodedPath}`, { method: "POST" })
+      const response = await apiFetch(`${apiBase}/refresh/${encodedPath}`, { method: "POST" })
+      const data = await response.json()
+
       if (response.ok) {
-        await fetchManifest()
+        // A quick job may already have been reported over the event stream
+        setRefreshJob((prev) => (prev?.id === data.job.id ? prev : data.job))
+      } else {
+        setError(data.error || "Failed to refresh manifest")
       }
     } catch (err) {
       setError("Failed to refresh manifest")
@@ -553,25 +839,104 @@ export function DirectoryMonitor() {
     setActionLoading(null)
   }
 
-  // Get the root directory name for display
-  const getRootDirName = () => {
-    if (!selectedDir) return null
-    return selectedDir.split("/").pop() || selectedDir
+  // Start, stop or refresh the picked directories (all of them if none are picked)
+  const runBulkAction = async (action: BulkAction) => {
+    setActionLoading(`bulk-${action}`)
+    setError(null)
+    setBulkResults(null)
+    try {
+      const response = await apiFetch(`${apiBase}/bulk/${action}`, {
+        method: "POST",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify(bulkSelection.length > 0 ? { directories: bulkSelection } : {}),
+      })
+      const data = await response.json()
+
+      if (response.ok) {
+        setBulkResults(data)
+        const selected = (data as BulkResponse).results.find((r) => r.directory === selectedDir)
+        if (selected?.job) setRefreshJob(selected.job)
+        await fetchAllStatuses()
+        if (selectedDir) {
+          const status = await fetchDirStatus(selectedDir)
+          if (status) setDirStatus(status)
+        }
+      } else {
+        setError(data.error || `Failed to ${action} directories`)
+      }
+    } catch (err) {
+      console.error("Bulk action error:", err)
+      setError(`Failed to ${action} directories: ${err instanceof Error ? err.message : "Network error"}`)
+    }
+    setActionLoading(null)
+  }
+
+  // Edit .lhi_excludes for selected directory
+  // route "excludes" takes POST (add), PUT (replace all), DELETE (remove); "excludes-init" creates from .gitignore
+  const updateExcludes = async (
+    method: "POST" | "PUT" | "DELETE",
+    body: object = {},
+    route = "excludes"
+  ) => {
+    if (!selectedDir) return false
+
+    setActionLoading("excludes")
+    setError(null)
+    let ok = false
+    try {
+      const encodedPath = encodeURIComponent(selectedDir)
+      const response = await apiFetch(`${apiBase}/${route}/${encodedPath}`, {
+        method,
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify(body),
+      })
+      const data = await response.json()
+
+      if (response.ok) {
+        setExcludePatterns(data.patterns || [])
+        setExcludeSource(data.source ?? null)
+        setExcludePreview(null)
+        ok = true
+      } else {
+        setError(data.error || "Failed to update exclude patterns")
+        // The file may have changed underneath us - show what's on disk now
+        if (response.status === 409) await fetchExcludes()
+      }
+    } catch (err) {
+      setError("Failed to update exclude patterns")
+    }
+    setActionLoading(null)
+    return ok
   }
 
-  // Build tree with root directory wrapper
-  const getTreeWithRoot = () => {
-    if (!manifest?.tree || manifest.tree.length === 0) return []
+  // Dry-run candidate exclude patterns against the current manifest
+  const previewExcludes = async (patterns: string[]) => {
+    if (!selectedDir) return
 
-    const rootName = getRootDirName()
-    if (!rootName) return manifest.tree
+    setActionLoading("excludes-preview")
+    try {
+      const encodedPath = encodeURIComponent(selectedDir)
+      const response = await apiFetch(`${apiBase}/excludes-preview/${encodedPath}`, {
+        method: "POST",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({ patterns }),
+      })
+      const data = await response.json()
+      if (response.ok) {
+        setExcludePreview(data)
+      } else {
+        setError(data.error || "Failed to preview exclude patterns")
+      }
+    } catch (err) {
+      setError("Failed to preview exclude patterns")
+    }
+    setActionLoading(null)
+  }
 
-    // Wrap the tree in a root directory node
-    return [{
-      path: rootName,
-      type: "directory" as const,
-      children: manifest.tree,
-    }]
+  // Get the root directory name for display
+  const getRootDirName = () => {
+    if (!selectedDir) return null
+    return selectedDir.split("/").pop() || selectedDir
   }
 
   if (loading) {
@@ -595,13 +960,44 @@ export function DirectoryMonitor() {
             Real-time file system monitoring with manifest generation
           </p>
         </div>
+        <div className="flex items-center gap-2">
+          {/* API token role */}
+          {auth?.authRequired && auth.role && (
+            <>
+              <Badge variant="outline" className="gap-1" title="Role of the API token in use">
+                <KeyRound className="h-3 w-3" />
+                {auth.role === "viewer" ? "Read-only" : "Operator"}
+              </Badge>
+              <Button variant="ghost" size="sm" className="h-7 px-2" onClick={() => saveToken(null)} title="Forget the API token">
+                <LogOut className="h-4 w-4" />
+              </Button>
+            </>
+          )}
+          {/* Live update connection state */}
+          {streamState === "live" ? (
+            <Badge variant="success" className="gap-1" title="Receiving live updates from the backend">
+              <Radio className="h-3 w-3" />
+              Live
+            </Badge>
+          ) : streamState === "polling" ? (
+            <Badge variant="warning" className="gap-1" title="Live stream unavailable - refreshing every 5 seconds">
+              <RefreshCw className="h-3 w-3" />
+              Polling
+            </Badge>
+          ) : (
+            <Badge variant="outline" className="gap-1">
+              <Loader2 className="h-3 w-3 animate-spin" />
+              Connecting
+            </Badge>
+          )}
+        </div>
       </div>
 
       {/* Error banner */}
       {error && (
         <div className="bg-destructive/10 border border-destructive/20 rounded-lg p-4 flex items-center gap-3">
           <AlertCircle className="h-5 w-5 text-destructive" />
-          <span className="text-destructive">{error}</span>
+          <span className="text-destructive whitespace-pre-line">{error}</span>
           <Button
             variant="ghost"
             size="sm"
@@ -613,256 +1009,594 @@ export function DirectoryMonitor() {
         </div>
       )}
 
-      {/* Main Registry Card - contains everything */}
-      <Card>
-        <CardHeader className="pb-3">
-          <div className="flex items-center justify-between">
-            <div>
-              <CardTitle className="text-sm font-medium flex items-center gap-2">
-                <Database className="h-4 w-4" />
-                Registered Directories ({registry.length})
-              </CardTitle>
-              <CardDescription>
-                Select a directory to view and manage its monitor
-              </CardDescription>
+      {/* API token prompt */}
+      {signedOut && (
+        <Card>
+          <CardHeader className="pb-3">
+            <CardTitle className="text-sm font-medium flex items-center gap-2">
+              <KeyRound className="h-4 w-4" />
+              API token required
+            </CardTitle>
+            <CardDescription>
+              This backend only answers requests with a valid API token (LHI_API_TOKENS)
+            </CardDescription>
+          </CardHeader>
+          <CardContent>
+            <div className="flex items-center gap-2">
+              <Input
+                type="password"
+                placeholder="API token"
+                value={tokenInput}
+                onChange={(e) => setTokenInput(e.target.value)}
+                onKeyDown={(e) => e.key === "Enter" && tokenInput.trim() && saveToken(tokenInput.trim())}
+                className="flex-1 font-mono"
+              />
+              <Button size="sm" onClick={() => saveToken(tokenInput.trim())} disabled={!tokenInput.trim()}>
+                Connect
+              </Button>
             </div>
-            <Button
-              variant="outline"
-              size="sm"
-              onClick={() => setShowAddDialog(true)}
-              className="gap-1"
-            >
-              <FolderPlus className="h-4 w-4" />
-              Add Directory
-            </Button>
-          </div>
-        </CardHeader>
-        <CardContent className="space-y-4">
-          {/* Add Directory Dialog */}
-          {showAddDialog && (
-            <div className="p-3 border rounded-lg bg-muted/30">
-              <div className="flex items-center gap-2">
-                <Input
-                  placeholder="/path/to/directory"
-                  value={newDirPath}
-                  onChange={(e) => setNewDirPath(e.target.value)}
-                  onKeyDown={(e) => e.key === "Enter" && addDirectory()}
-                  className="flex-1"
-                />
-                <Button
-                  size="sm"
-                  onClick={addDirectory}
-                  disabled={actionLoading === "add" || !newDirPath.trim()}
-                >
-                  {actionLoading === "add" ? (
-                    <Loader2 className="h-4 w-4 animate-spin" />
-                  ) : (
-                    <Plus className="h-4 w-4" />
-                  )}
-                </Button>
-                <Button
-                  size="sm"
-                  variant="ghost"
-                  onClick={() => {
-                    setShowAddDialog(false)
-                    setNewDirPath("")
-                  }}
-                >
-                  <X className="h-4 w-4" />
-                </Button>
-              </div>
-            </div>
-          )}
-
-          {/* Directory Tabs */}
-          {registry.length > 0 ? (
-            <div className="flex flex-wrap gap-1 border-b">
-              {registry.map((dir) => (
-                <DirectoryTab
-                  key={dir.directory}
-                  dir={dir}
-                  isSelected={selectedDir === dir.directory}
-                  onClick={() => setSelectedDir(dir.directory)}
-                  onRemove={() => removeDirectory(dir.directory)}
-                  status={statusMap[dir.directory]}
-                />
-              ))}
-            </div>
-          ) : (
-            <div className="flex flex-col items-center justify-center py-8 text-muted-foreground">
-              <Database className="h-8 w-8 mb-2" />
-              <p>No directories registered</p>
-              <p className="text-xs">Click "Add Directory" to start monitoring</p>
-            </div>
-          )}
-
-          {/* Selected Directory Content */}
-          {selectedDir && (
-            <div className="space-y-4 pt-2">
-              {/* Directory Info Bar with Controls */}
-              <div className="flex items-center justify-between p-3 bg-muted/30 rounded-lg">
-                <div className="flex items-center gap-4">
-                  {/* Status Badge */}
-                  <div className="flex items-center gap-2">
-                    {dirStatus?.running ? (
-                      <Badge variant="default" className="gap-1">
-                        <Activity className="h-3 w-3" />
-                        Monitoring
-                      </Badge>
-                    ) : (
-                      <Badge variant="secondary" className="gap-1">
-                        <Square className="h-3 w-3" />
-                        Stopped
-                      </Badge>
-                    )}
-                    {dirStatus?.pid && (
-                      <span className="text-xs text-muted-foreground">
-                        PID: {dirStatus.pid}
-                      </span>
-                    )}
-                    {dirStatus?.uptime && (
-                      <span className="text-xs text-muted-foreground">
-                        Uptime: {dirStatus.uptime}
-                      </span>
-                    )}
-                  </div>
+          </CardContent>
+        </Card>
+      )}
 
-                  {/* Manifest Stats */}
-                  {manifest && !manifest.error && (
-                    <div className="flex items-center gap-2 text-xs text-muted-foreground border-l pl-4">
-                      <FileJson className="h-3 w-3" />
-                      <span>{manifest.total_files} files</span>
-                      <span>•</span>
-                      <span>{manifest.total_directories} dirs</span>
-                    </div>
+      {/* Main Registry Card - contains everything */}
+      {!signedOut && (
+        <Card>
+          <CardHeader className="pb-3">
+            <div className="flex items-center justify-between">
+              <div>
+                <CardTitle className="text-sm font-medium flex items-center gap-2">
+                  <Database className="h-4 w-4" />
+                  Registered Directories ({registry.length})
+                </CardTitle>
+                <CardDescription>
+                  Select a directory to view and manage its monitor
+                </CardDescription>
+              </div>
+              {canOperate && (
+                <div className="flex items-center gap-2">
+                  {registry.length > 0 && (
+                    <>
+                      {([
+                        ["start", "Start", Play],
+                        ["stop", "Stop", Square],
+                        ["refresh", "Refresh", RefreshCw],
+                      ] as const).map(([action, label, Icon]) => (
+                        <Button
+                          key={action}
+                          variant="ghost"
+                          size="sm"
+                          onClick={() => runBulkAction(action)}
+                          disabled={actionLoading !== null}
+                          className="gap-1"
+                          title={
+                            bulkSelection.length > 0
+                              ? `${label} the ${bulkSelection.length} checked directories`
+                              : `${label} every registered directory`
+                          }
+                        >
+                          {actionLoading === `bulk-${action}` ? (
+                            <Loader2 className="h-4 w-4 animate-spin" />
+                          ) : (
+                            <Icon className="h-4 w-4" />
+                          )}
+                          {bulkSelection.length > 0 ? `${label} (${bulkSelection.length})` : `${label} all`}
+                        </Button>
+                      ))}
+                    </>
                   )}
+                  <Button
+                    variant="outline"
+                    size="sm"
+                    onClick={() => setShowAddDialog(true)}
+                    className="gap-1"
+                  >
+                    <FolderPlus className="h-4 w-4" />
+                    Add Directory
+                  </Button>
                 </div>
-
-                {/* Control Buttons */}
-                <div className="flex gap-2">
+              )}
+            </div>
+          </CardHeader>
+          <CardContent className="space-y-4">
+            {/* Add Directory Dialog */}
+            {showAddDialog && canOperate && (
+              <div className="p-3 border rounded-lg bg-muted/30">
+                <div className="flex items-start gap-2">
+                  <div className="flex-1 min-w-0">
+                    <DirectoryPicker
+                      apiBase={apiBase}
+                      value={newDirPath}
+                      onChange={setNewDirPath}
+                      onSubmit={addDirectory}
+                    />
+                  </div>
                   <Button
-                    variant={dirStatus?.running ? "destructive" : "default"}
                     size="sm"
-                    onClick={dirStatus?.running ? stopMonitor : startMonitor}
-                    disabled={actionLoading !== null}
+                    onClick={addDirectory}
+                    disabled={actionLoading === "add" || !newDirPath.trim()}
                   >
-                    {actionLoading === "start" || actionLoading === "stop" ? (
-                      <Loader2 className="h-4 w-4 mr-1 animate-spin" />
-                    ) : dirStatus?.running ? (
-                      <Square className="h-4 w-4 mr-1" />
+                    {actionLoading === "add" ? (
+                      <Loader2 className="h-4 w-4 animate-spin" />
                     ) : (
-                      <Play className="h-4 w-4 mr-1" />
+                      <Plus className="h-4 w-4" />
                     )}
-                    {dirStatus?.running ? "Stop" : "Start"}
                   </Button>
                   <Button
-                    variant="outline"
                     size="sm"
-                    onClick={refreshManifest}
-                    disabled={actionLoading !== null}
+                    variant="ghost"
+                    onClick={() => {
+                      setShowAddDialog(false)
+                      setNewDirPath("")
+                    }}
                   >
-                    {actionLoading === "refresh" ? (
-                      <Loader2 className="h-4 w-4 mr-1 animate-spin" />
-                    ) : (
-                      <RefreshCw className="h-4 w-4 mr-1" />
-                    )}
-                    Refresh
+                    <X className="h-4 w-4" />
                   </Button>
                 </div>
               </div>
+            )}
 
-              {/* Recent Changes */}
-              {recentChanges.length > 0 && (
-                <div className="p-3 bg-muted/20 rounded-lg">
-                  <div className="flex items-center gap-2 mb-2">
-                    <Clock className="h-4 w-4 text-muted-foreground" />
-                    <span className="text-sm font-medium">Recent Changes</span>
-                  </div>
-                  <div className="space-y-1 font-mono text-xs">
-                    {recentChanges.slice(0, 3).map((change, i) => (
-                      <div key={i} className="flex items-center gap-2 text-muted-foreground">
-                        <span className="text-blue-500">{change.timestamp}</span>
-                        <span>→</span>
-                        <span className="truncate">{change.file}</span>
-                      </div>
-                    ))}
-                  </div>
+            {/* Bulk action results, one line per directory */}
+            {bulkResults && (
+              <div className="p-3 border rounded-lg bg-muted/30 space-y-1">
+                <div className="flex items-center justify-between text-sm font-medium">
+                  <span>
+                    Bulk {bulkResults.action}: {bulkResults.results.filter((r) => r.success).length} of{" "}
+                    {bulkResults.results.length} succeeded
+                  </span>
+                  <Button variant="ghost" size="sm" onClick={() => setBulkResults(null)}>
+                    <X className="h-4 w-4" />
+                  </Button>
                 </div>
-              )}
+                {bulkResults.results.map((result) => (
+                  <div key={result.directory} className="flex items-center gap-2 text-xs">
+                    {result.success ? (
+                      <CheckCircle2 className="h-3 w-3 text-green-500 shrink-0" />
+                    ) : (
+                      <AlertCircle className="h-3 w-3 text-destructive shrink-0" />
+                    )}
+                    <span className="font-mono truncate" title={result.directory}>
+                      {result.directory}
+                    </span>
+                    <span className={`truncate ${result.success ? "text-muted-foreground" : "text-destructive"}`}>
+                      {result.error ??
+                        result.message ??
+                        (result.existing ? "Refresh already in progress" : "Refresh started")}
+                    </span>
+                  </div>
+                ))}
+              </div>
+            )}
 
-              {/* Path Display */}
-              <div className="text-xs text-muted-foreground font-mono p-2 bg-muted/20 rounded">
-                {selectedDir}
+            {/* Directory Tabs */}
+            {registry.length > 0 ? (
+              <div className="flex flex-wrap gap-1 border-b">
+                {registry.map((dir) => (
+                  <DirectoryTab
+                    key={dir.directory}
+                    dir={dir}
+                    isSelected={selectedDir === dir.directory}
+                    onClick={() => setSelectedDir(dir.directory)}
+                    onRemove={canOperate ? () => removeDirectory(dir.directory) : undefined}
+                    checked={bulkSelection.includes(dir.directory)}
+                    onCheck={
+                      canOperate
+                        ? (checked) =>
+                            setBulkSelection((prev) =>
+                              checked ? [...prev, dir.directory] : prev.filter((d) => d !== dir.directory)
+                            )
+                        : undefined
+                    }
+                    status={statusMap[dir.directory]}
+                    alerts={alertCounts[dir.directory]}
+                  />
+                ))}
               </div>
+            ) : (
+              <div className="flex flex-col items-center justify-center py-8 text-muted-foreground">
+                <Database className="h-8 w-8 mb-2" />
+                <p>No directories registered</p>
+                <p className="text-xs">Click "Add Directory" to start monitoring</p>
+              </div>
+            )}
 
-              {/* Exclude Patterns */}
-              <Collapsible open={showExcludes} onOpenChange={setShowExcludes}>
-                <CollapsibleTrigger className="flex items-center justify-between w-full p-2 hover:bg-muted/50 rounded">
-                  <span className="text-sm font-medium flex items-center gap-2">
-                    <FileX className="h-4 w-4" />
-                    Exclude Patterns ({excludePatterns.length})
-                  </span>
-                  {showExcludes ? (
-                    <ChevronDown className="h-4 w-4" />
-                  ) : (
-                    <ChevronRight className="h-4 w-4" />
-                  )}
-                </CollapsibleTrigger>
-                <CollapsibleContent>
-                  <div className="pt-2">
-                    {excludePatterns.length > 0 ? (
-                      <div className="space-y-1 font-mono text-sm max-h-32 overflow-auto">
-                        {excludePatterns.map((p, i) => (
-                          <div
-                            key={i}
-                            className="flex items-center gap-2 px-2 py-1 rounded bg-muted/50"
-                          >
-                            <EyeOff className="h-3 w-3 text-muted-foreground" />
-                            <span>{p.pattern}</span>
-                          </div>
-                        ))}
+            {/* Directory the backend refuses */}
+            {selectedDir && accessDenied && (
+              <div className="flex flex-col items-center justify-center gap-2 py-8 text-center">
+                <ShieldAlert className="h-8 w-8 text-destructive" />
+                <p className="font-medium">Access denied</p>
+                <p className="text-sm text-muted-foreground max-w-xl break-all">{accessDenied}</p>
+                <p className="text-xs text-muted-foreground">
+                  The backend only serves registered directories inside its allowed roots (LHI_ALLOWED_ROOTS).
+                </p>
+              </div>
+            )}
+
+            {/* Selected Directory Content */}
+            {selectedDir && !accessDenied && (
+              <div className="space-y-4 pt-2">
+                {/* Directory Info Bar with Controls */}
+                <div className="flex items-center justify-between p-3 bg-muted/30 rounded-lg">
+                  <div className="flex items-center gap-4">
+                    {/* Status Badge */}
+                    <div className="flex items-center gap-2">
+                      {healthOf(dirStatus) === "restarting" ? (
+                        <Badge
+                          variant="warning"
+                          className="gap-1"
+                          title={
+                            dirStatus?.nextRestartAt
+                              ? `Next restart at ${new Date(dirStatus.nextRestartAt).toLocaleTimeString()}`
+                              : undefined
+                          }
+                        >
+                          <Loader2 className="h-3 w-3 animate-spin" />
+                          Restarting
+                        </Badge>
+                      ) : healthOf(dirStatus) === "crash-looping" ? (
+                        <Badge variant="danger" className="gap-1" title="Start the monitor to try again">
+                          <AlertCircle className="h-3 w-3" />
+                          Crash-looping
+                        </Badge>
+                      ) : dirStatus?.running ? (
+                        <Badge variant="default" className="gap-1">
+                          <Activity className="h-3 w-3" />
+                          Monitoring
+                        </Badge>
+                      ) : (
+                        <Badge variant="secondary" className="gap-1">
+                          <Square className="h-3 w-3" />
+                          Stopped
+                        </Badge>
+                      )}
+                      {dirStatus?.pid && (
+                        <span className="text-xs text-muted-foreground">
+                          PID: {dirStatus.pid}
+                        </span>
+                      )}
+                      {dirStatus?.uptime && (
+                        <span className="text-xs text-muted-foreground">
+                          Uptime: {dirStatus.uptime}
+                        </span>
+                      )}
+                      {dirStatus?.lastExit && (
+                        <span className="text-xs text-muted-foreground">
+                          Last exit: {describeExit(dirStatus.lastExit)}
+                          {!!dirStatus.restarts && ` · ${dirStatus.restarts} restart${dirStatus.restarts === 1 ? "" : "s"}`}
+                        </span>
+                      )}
+                    </div>
+
+                    {/* Watcher Backend */}
+                    {backends.length > 0 && (
+                      <div className="flex items-center gap-2 text-xs text-muted-foreground border-l pl-4">
+                        <span>Backend</span>
+                        <select
+                          className="h-7 rounded-md border border-input bg-background px-2 text-xs"
+                          value={selectedEntry?.backend ?? ""}
+                          onChange={(e) => updateDirectorySettings({ backend: e.target.value as WatcherBackendName })}
+                          disabled={!canOperate || dirStatus?.running || actionLoading !== null}
+                          title={dirStatus?.running ? "Stop the monitor to switch backends" : "How this directory is watched"}
+                        >
+                          {backends.map((b) => (
+                            <option key={b.name} value={b.name} disabled={!b.available} title={b.description}>
+                              {b.name}
+                              {!b.available && " (unavailable)"}
+                            </option>
+                          ))}
+                        </select>
+                      </div>
+                    )}
+
+                    {/* Manifest Stats */}
+                    {manifest && !manifest.error && (
+                      <div className="flex items-center gap-2 text-xs text-muted-foreground border-l pl-4">
+                        <FileJson className="h-3 w-3" />
+                        <span>{manifest.total_files} files</span>
+                        <span>•</span>
+                        <span>{manifest.total_directories} dirs</span>
                       </div>
-                    ) : (
-                      <p className="text-sm text-muted-foreground">No exclude patterns configured</p>
                     )}
                   </div>
-                </CollapsibleContent>
-              </Collapsible>
 
-              {/* File Tree */}
-              <div>
-                <div className="flex items-center gap-2 mb-2">
-                  <FolderTree className="h-4 w-4" />
-                  <span className="text-sm font-medium">File Tree</span>
-                  {manifest?.timestamp && (
-                    <span className="text-xs text-muted-foreground ml-auto">
-                      Last update: {manifest.timestamp}
-                    </span>
+                  {/* Control Buttons */}
+                  {canOperate && (
+                    <div className="flex items-center gap-2">
+                      <label
+                        className="flex items-center gap-1 text-xs text-muted-foreground cursor-pointer"
+                        title="Start this directory's monitor whenever the backend starts"
+                      >
+                        <input
+                          type="checkbox"
+                          className="h-3 w-3 accent-primary"
+                          checked={selectedEntry?.autostart ?? false}
+                          onChange={(e) => updateDirectorySettings({ autostart: e.target.checked })}
+                          disabled={actionLoading !== null}
+                        />
+                        Autostart
+                      </label>
+                      <Button
+                        variant={dirStatus?.running ? "destructive" : "default"}
+                        size="sm"
+                        onClick={dirStatus?.running ? stopMonitor : startMonitor}
+                        disabled={actionLoading !== null}
+                      >
+                        {actionLoading === "start" || actionLoading === "stop" ? (
+                          <Loader2 className="h-4 w-4 mr-1 animate-spin" />
+                        ) : dirStatus?.running ? (
+                          <Square className="h-4 w-4 mr-1" />
+                        ) : (
+                          <Play className="h-4 w-4 mr-1" />
+                        )}
+                        {dirStatus?.running ? "Stop" : "Start"}
+                      </Button>
+                      <Button
+                        variant="outline"
+                        size="sm"
+                        onClick={refreshManifest}
+                        disabled={actionLoading !== null || refreshActive}
+                        title={refreshActive ? refreshJob?.progress ?? `Refresh ${refreshJob?.state}` : undefined}
+                      >
+                        {actionLoading === "refresh" || refreshActive ? (
+                          <Loader2 className="h-4 w-4 mr-1 animate-spin" />
+                        ) : (
+                          <RefreshCw className="h-4 w-4 mr-1" />
+                        )}
+                        {refreshActive && refreshJob
+                          ? `${refreshJob.state === "queued" ? "Queued" : refreshJob.progress ?? "Refreshing"} ${formatJobElapsed(refreshJob, now)}`
+                          : "Refresh"}
+                      </Button>
+                    </div>
                   )}
                 </div>
-                {manifest?.tree && manifest.tree.length > 0 ? (
-                  <div className="max-h-80 overflow-auto border rounded-lg p-2">
-                    {getTreeWithRoot().map((entry, i) => (
-                      <FileTreeNode
-                        key={`${entry.path}-${i}`}
-                        entry={entry}
-                        excludePatterns={excludePatterns.map((p) => p.pattern)}
-                        defaultOpen={true} // Root is open by default
-                      />
-                    ))}
-                  </div>
-                ) : (
-                  <div className="flex flex-col items-center justify-center h-24 text-muted-foreground border rounded-lg">
-                    <FolderTree className="h-6 w-6 mb-1" />
-                    <p className="text-sm">No manifest data available</p>
-                    <p className="text-xs">Click "Refresh" to generate a manifest</p>
+
+                {/* Recent Changes */}
+                {recentChanges.length > 0 && (
+                  <div className="p-3 bg-muted/20 rounded-lg">
+                    <div className="flex items-center gap-2 mb-2">
+                      <Clock className="h-4 w-4 text-muted-foreground" />
+                      <span className="text-sm font-medium">Recent Changes</span>
+                    </div>
+                    <div className="space-y-1 font-mono text-xs">
+                      {recentChanges.slice(0, 3).map((change, i) => (
+                        <div key={i} className="flex items-center gap-2 text-muted-foreground">
+                          <span className="text-blue-500">{change.timestamp}</span>
+                          <ChangeKindIcon kind={change.kind} isDirectory={change.isDirectory} />
+                          {change.oldPath && (
+                            <span className="truncate line-through" title={change.oldPath}>
+                              {change.oldPath}
+                            </span>
+                          )}
+                          <span>→</span>
+                          <span className={`truncate ${changeKindColor(change.kind)}`} title={change.kind}>
+                            {change.file}
+                          </span>
+                        </div>
+                      ))}
+                    </div>
                   </div>
                 )}
+
+                {/* Path Display */}
+                <div className="text-xs text-muted-foreground font-mono p-2 bg-muted/20 rounded">
+                  {selectedDir}
+                </div>
+
+                {/* Alerts */}
+                {selectedEntry && (
+                  <Collapsible open={showAlerts} onOpenChange={setShowAlerts}>
+                    <CollapsibleTrigger className="flex items-center justify-between w-full p-2 hover:bg-muted/50 rounded">
+                      <span className="text-sm font-medium flex items-center gap-2">
+                        <Bell className="h-4 w-4" />
+                        Alerts
+                        {alertCounts[selectedEntry.directory]?.open > 0 && (
+                          <Badge variant="danger" className="text-xs font-normal">
+                            {alertCounts[selectedEntry.directory].open} open
+                          </Badge>
+                        )}
+                        {alertCounts[selectedEntry.directory]?.acknowledged > 0 && (
+                          <Badge variant="warning" className="text-xs font-normal">
+                            {alertCounts[selectedEntry.directory].acknowledged} acknowledged
+                          </Badge>
+                        )}
+                      </span>
+                      {showAlerts ? (
+                        <ChevronDown className="h-4 w-4" />
+                      ) : (
+                        <ChevronRight className="h-4 w-4" />
+                      )}
+                    </CollapsibleTrigger>
+                    <CollapsibleContent>
+                      <div className="pt-2 px-2">
+                        <AlertsPanel
+                          apiBase={apiBase}
+                          directory={selectedEntry.directory}
+                          rules={selectedEntry.alertRules}
+                          refreshKey={alertsVersion}
+                          busy={actionLoading === "settings"}
+                          onSaveRules={(alertRules) => updateDirectorySettings({ alertRules })}
+                          onAlertsChanged={fetchAlertCounts}
+                          readOnly={!canOperate}
+                        />
+                      </div>
+                    </CollapsibleContent>
+                  </Collapsible>
+                )}
+
+                {/* Monitor Settings */}
+                {selectedEntry && (
+                  <Collapsible open={showSettings} onOpenChange={setShowSettings}>
+                    <CollapsibleTrigger className="flex items-center justify-between w-full p-2 hover:bg-muted/50 rounded">
+                      <span className="text-sm font-medium flex items-center gap-2">
+                        <SlidersHorizontal className="h-4 w-4" />
+                        Monitor Settings
+                      </span>
+                      {showSettings ? (
+                        <ChevronDown className="h-4 w-4" />
+                      ) : (
+                        <ChevronRight className="h-4 w-4" />
+                      )}
+                    </CollapsibleTrigger>
+                    <CollapsibleContent>
+                      <div className="pt-2 px-2">
+                        <MonitorSettingsPanel
+                          settings={selectedEntry.settings}
+                          backend={selectedEntry.backend}
+                          running={dirStatus?.running ?? false}
+                          busy={actionLoading === "settings"}
+                          onSave={(settings) => updateDirectorySettings({ settings })}
+                          readOnly={!canOperate}
+                        />
+                      </div>
+                    </CollapsibleContent>
+                  </Collapsible>
+                )}
+
+                {/* Exclude Patterns */}
+                <Collapsible open={showExcludes} onOpenChange={setShowExcludes}>
+                  <CollapsibleTrigger className="flex items-center justify-between w-full p-2 hover:bg-muted/50 rounded">
+                    <span className="text-sm font-medium flex items-center gap-2">
+                      <FileX className="h-4 w-4" />
+                      Exclude Patterns ({excludePatterns.length})
+                      {excludeSource && (
+                        <span className="text-xs font-normal text-muted-foreground font-mono">{excludeSource}</span>
+                      )}
+                    </span>
+                    {showExcludes ? (
+                      <ChevronDown className="h-4 w-4" />
+                    ) : (
+                      <ChevronRight className="h-4 w-4" />
+                    )}
+                  </CollapsibleTrigger>
+                  <CollapsibleContent>
+                    <div className="pt-2">
+                      <ExcludePatternEditor
+                        patterns={excludePatterns}
+                        source={excludeSource}
+                        busy={actionLoading === "excludes"}
+                        preview={excludePreview}
+                        previewing={actionLoading === "excludes-preview"}
+                        onPreview={previewExcludes}
+                        onClearPreview={() => setExcludePreview(null)}
+                        onAdd={(pattern) => updateExcludes("POST", { pattern })}
+                        onRemove={(index, pattern) => updateExcludes("DELETE", { index, pattern })}
+                        onReplace={(patterns) => updateExcludes("PUT", { patterns })}
+                        onCreateFromGitignore={() => updateExcludes("POST", {}, "excludes-init")}
+                        readOnly={!canOperate}
+                      />
+                    </div>
+                  </CollapsibleContent>
+                </Collapsible>
+
+                {/* File Tree / History / Activity / Usage */}
+                <div>
+                  <div className="flex items-center gap-1 mb-2">
+                    <Button
+                      variant={view === "files" ? "secondary" : "ghost"}
+                      size="sm"
+                      className="h-7 gap-2 px-2"
+                      onClick={() => setView("files")}
+                    >
+                      <FolderTree className="h-4 w-4" />
+                      File Tree
+                    </Button>
+                    <Button
+                      variant={view === "history" ? "secondary" : "ghost"}
+                      size="sm"
+                      className="h-7 gap-2 px-2"
+                      onClick={() => setView("history")}
+                    >
+                      <History className="h-4 w-4" />
+                      History
+                    </Button>
+                    <Button
+                      variant={view === "activity" ? "secondary" : "ghost"}
+                      size="sm"
+                      className="h-7 gap-2 px-2"
+                      onClick={() => setView("activity")}
+                    >
+                      <Activity className="h-4 w-4" />
+                      Activity
+                    </Button>
+                    <Button
+                      variant={view === "usage" ? "secondary" : "ghost"}
+                      size="sm"
+                      className="h-7 gap-2 px-2"
+                      onClick={() => setView("usage")}
+                    >
+                      <HardDrive className="h-4 w-4" />
+                      Usage
+                    </Button>
+                    {manifest?.timestamp && (
+                      <span className="text-xs text-muted-foreground ml-auto">
+                        Last update: {manifest.timestamp}
+                      </span>
+                    )}
+                    {manifest?.format && (
+                      <Badge
+                        variant="outline"
+                        className="text-xs font-normal"
+                        title={
+                          manifest.format === "json"
+                            ? `Structured JSON manifest, schema version ${manifest.version}`
+                            : "Text manifest written by lhi_directory_monitor.sh"
+                        }
+                      >
+                        {manifest.format === "json" ? `JSON v${manifest.version}` : "Text"}
+                      </Badge>
+                    )}
+                    {view === "files" && manifest && !manifest.error && manifest.total_files > 0 && (
+                      <ExportMenu
+                        title={searchFilters ? "Download the files matching the search" : "Download the file listing"}
+                        shapes
+                        exportUrl={(format, shape) =>
+                          `${apiBase}/manifest-export/${encodeURIComponent(selectedDir)}?format=${format}&shape=${shape}${
+                            searchFilters ? `&${searchFilters}` : ""
+                          }`
+                        }
+                      />
+                    )}
+                  </div>
+                  {view === "history" ? (
+                    <ManifestHistory apiBase={apiBase} directory={selectedDir} />
+                  ) : view === "activity" ? (
+                    <ActivityTimeline apiBase={apiBase} directory={selectedDir} />
+                  ) : view === "usage" ? (
+                    <DiskUsage apiBase={apiBase} directory={selectedDir} manifestTimestamp={manifest?.timestamp} />
+                  ) : manifest && !manifest.error && manifest.total_files > 0 ? (
+                    <>
+                      <FileTreeSearch
+                        apiBase={apiBase}
+                        directory={selectedDir}
+                        manifestTimestamp={manifest.timestamp}
+                        result={searchResult}
+                        onResult={setSearchResult}
+                        onFiltersChange={setSearchFilters}
+                      />
+                      <VirtualFileTree
+                        key={selectedDir}
+                        apiBase={apiBase}
+                        directory={selectedDir}
+                        rootName={getRootDirName() || selectedDir}
+                        manifestTimestamp={manifest.timestamp}
+                        matcher={excludeMatcher}
+                        previewPaths={previewPaths}
+                        searchResult={searchResult}
+                      />
+                    </>
+                  ) : (
+                    <div className="flex flex-col items-center justify-center h-24 text-muted-foreground border rounded-lg">
+                      <FolderTree className="h-6 w-6 mb-1" />
+                      <p className="text-sm">No manifest data available</p>
+                      <p className="text-xs">Click "Refresh" to generate a manifest</p>
+                    </div>
+                  )}
+                </div>
               </div>
-            </div>
-          )}
-        </CardContent>
-      </Card>
+            )}
+          </CardContent>
+        </Card>
+      )}
     </div>
   )
 }
@@ -0,0 +1,202 @@
+/**
+ * LHI Directory Monitor - Directory Picker
+ *
+ * Path input for Add Directory with a server-side browser (GET /browse):
+ * breadcrumbs and a subdirectory list under the backend's allowed roots, and
+ * type-ahead completion of the last path segment as you type. Already
+ * registered directories are marked and can't be picked.
+ */
+
+import { useCallback, useEffect, useState } from "react"
+import { ChevronRight, CornerLeftUp, Folder, FolderSymlink, Home, Loader2 } from "lucide-react"
+import { Button } from "./ui/button"
+import { Input } from "./ui/input"
+import { apiFetch } from "../lib/api"
+import type { BrowseEntry, BrowseListing } from "../types"
+
+// How long typing pauses before completions are fetched
+const COMPLETE_DELAY = 200
+
+// Helper: Split a typed path into the directory to list and the name prefix being typed
+const splitPath = (value: string) => {
+  const slash = value.lastIndexOf("/")
+  return { dir: value.slice(0, slash) || "/", prefix: value.slice(slash + 1) }
+}
+
+export function DirectoryPicker({
+  apiBase,
+  value,
+  onChange,
+  onSubmit,
+}: {
+  apiBase: string
+  value: string
+  onChange: (path: string) => void
+  onSubmit: () => void
+}) {
+  const [listing, setListing] = useState<BrowseListing | null>(null)
+  const [completions, setCompletions] = useState<BrowseEntry[]>([])
+  const [loading, setLoading] = useState(false)
+  const [browseError, setBrowseError] = useState<string | null>(null)
+
+  // Fetch a listing: the allowed roots without a path
+  const fetchListing = useCallback(
+    async (dir: string | null, query = "") => {
+      const params = new URLSearchParams()
+      if (dir) params.set("path", dir)
+      if (query) params.set("q", query)
+      const response = await apiFetch(`${apiBase}/browse?${params}`)
+      const data = await response.json()
+      if (!response.ok) throw new Error(data.error || "Failed to list directory")
+      return data as BrowseListing
+    },
+    [apiBase]
+  )
+
+  const browse = useCallback(
+    async (dir: string | null) => {
+      setLoading(true)
+      setBrowseError(null)
+      try {
+        setListing(await fetchListing(dir))
+      } catch (err) {
+        setBrowseError(err instanceof Error ? err.message : "Failed to list directory")
+      }
+      setLoading(false)
+    },
+    [fetchListing]
+  )
+
+  // Start at the allowed roots
+  useEffect(() => {
+    browse(null)
+  }, [browse])
+
+  // Type-ahead: subdirectories of the typed directory that start with the last segment
+  useEffect(() => {
+    if (!value.startsWith("/")) {
+      setCompletions([])
+      return
+    }
+    let cancelled = false
+    const timer = setTimeout(async () => {
+      const { dir, prefix } = splitPath(value)
+      try {
+        const data = await fetchListing(dir, prefix)
+        if (!cancelled) setCompletions(data.entries.filter((e) => e.path !== value).slice(0, 8))
+      } catch {
+        if (!cancelled) setCompletions([])
+      }
+    }, COMPLETE_DELAY)
+    return () => {
+      cancelled = true
+      clearTimeout(timer)
+    }
+  }, [value, fetchListing])
+
+  // Pick a directory: fill the input and show what's inside it
+  const pick = (path: string) => {
+    onChange(path)
+    setCompletions([])
+    browse(path)
+  }
+
+  return (
+    <div className="space-y-2">
+      <div className="relative">
+        <Input
+          placeholder="/path/to/directory"
+          value={value}
+          onChange={(e) => onChange(e.target.value)}
+          onKeyDown={(e) => {
+            if (e.key === "Enter") onSubmit()
+            // Tab completes the first suggestion
+            if (e.key === "Tab" && completions.length > 0) {
+              e.preventDefault()
+              pick(completions[0].path)
+            }
+            if (e.key === "Escape") setCompletions([])
+          }}
+          className="font-mono"
+        />
+        {completions.length > 0 && (
+          <div className="absolute z-10 mt-1 w-full rounded-md border bg-background shadow-md">
+            {completions.map((entry) => (
+              <button
+                key={entry.path}
+                className="flex w-full items-center gap-2 px-3 py-1.5 text-left text-sm font-mono hover:bg-muted disabled:opacity-50"
+                onClick={() => pick(entry.path)}
+                disabled={entry.registered}
+              >
+                <Folder className="h-3 w-3 shrink-0" />
+                <span className="truncate">{entry.path}</span>
+                {entry.registered && <span className="ml-auto text-xs text-muted-foreground">registered</span>}
+              </button>
+            ))}
+          </div>
+        )}
+      </div>
+
+      {/* Browser */}
+      <div className="rounded-md border">
+        <div className="flex items-center gap-1 border-b px-2 py-1 text-xs">
+          <Button variant="ghost" size="sm" className="h-6 px-1" onClick={() => browse(null)} title="Allowed roots">
+            <Home className="h-3 w-3" />
+          </Button>
+          <Button
+            variant="ghost"
+            size="sm"
+            className="h-6 px-1"
+            onClick={() => listing?.parent && browse(listing.parent)}
+            disabled={!listing?.parent}
+            title="Up"
+          >
+            <CornerLeftUp className="h-3 w-3" />
+          </Button>
+          <div className="flex min-w-0 items-center overflow-x-auto font-mono">
+            {listing?.breadcrumbs.map((crumb, i) => (
+              <span key={crumb.path} className="flex items-center">
+                {i > 0 && <ChevronRight className="h-3 w-3 text-muted-foreground" />}
+                <button className="whitespace-nowrap rounded px-1 hover:bg-muted" onClick={() => pick(crumb.path)}>
+                  {crumb.name}
+                </button>
+              </span>
+            ))}
+          </div>
+          {loading && <Loader2 className="ml-auto h-3 w-3 animate-spin" />}
+        </div>
+
+        <div className="max-h-48 overflow-y-auto py-1">
+          {browseError ? (
+            <p className="px-3 py-2 text-xs text-destructive">{browseError}</p>
+          ) : listing && listing.entries.length === 0 ? (
+            <p className="px-3 py-2 text-xs text-muted-foreground">
+              {listing.path ? "No subdirectories" : "No allowed roots - set LHI_ALLOWED_ROOTS on the backend"}
+            </p>
+          ) : (
+            listing?.entries.map((entry) => (
+              <button
+                key={entry.path}
+                className="flex w-full items-center gap-2 px-3 py-1 text-left text-sm hover:bg-muted disabled:opacity-50"
+                onClick={() => pick(entry.path)}
+                disabled={entry.registered}
+                title={entry.registered ? "Already registered" : entry.path}
+              >
+                {entry.symlink ? (
+                  <FolderSymlink className="h-4 w-4 shrink-0" />
+                ) : (
+                  <Folder className="h-4 w-4 shrink-0" />
+                )}
+                <span className="truncate font-mono">{entry.name}</span>
+                {entry.registered && <span className="ml-auto text-xs text-muted-foreground">registered</span>}
+              </button>
+            ))
+          )}
+          {listing?.truncated && (
+            <p className="px-3 py-1 text-xs text-muted-foreground">Showing the first {listing.entries.length}</p>
+          )}
+        </div>
+      </div>
+    </div>
+  )
+}
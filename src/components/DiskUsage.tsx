@@ -0,0 +1,378 @@
+/**
+ * LHI Directory Monitor - Disk Usage View
+ *
+ * Where a directory's bytes are (GET /manifest-usage): a squarified treemap
+ * two levels deep - click a folder to zoom into it, breadcrumbs to zoom back
+ * out - next to the largest files and folders and a breakdown by extension,
+ * all for the folder currently zoomed into.
+ */
+
+import { useState, useEffect, useRef } from "react"
+import { ChevronRight, HardDrive, Loader2 } from "lucide-react"
+import { formatFileSize } from "../lib/utils"
+import { apiFetch } from "../lib/api"
+import type { ManifestUsage, UsageTreemapNode } from "../types"
+
+// Treemap layout space; rectangles are rendered as percentages of it
+const LAYOUT_WIDTH = 1000
+const LAYOUT_HEIGHT = 400
+
+const TOP_OPTIONS = [10, 20, 50]
+
+// File colours by extension (hashed), so the same type has the same colour everywhere
+const FILE_COLORS = [
+  "bg-sky-500/70",
+  "bg-emerald-500/70",
+  "bg-amber-500/70",
+  "bg-rose-500/70",
+  "bg-violet-500/70",
+  "bg-teal-500/70",
+  "bg-orange-500/70",
+  "bg-fuchsia-500/70",
+]
+
+interface Rect {
+  x: number
+  y: number
+  w: number
+  h: number
+}
+
+// Helper: Lower-case extension without the dot ("" if none) - same rule as the backend
+function extensionOf(name: string) {
+  const dot = name.lastIndexOf(".")
+  return dot > 0 ? name.slice(dot + 1).toLowerCase() : ""
+}
+
+// Helper: Colour class for a treemap node
+function nodeColor(node: UsageTreemapNode) {
+  if (node.type === "directory") return "bg-primary/10"
+  if (node.type === "other") return "bg-muted"
+  const ext = extensionOf(node.name)
+  let hash = 0
+  for (const char of ext) hash = (hash * 31 + char.charCodeAt(0)) | 0
+  return FILE_COLORS[Math.abs(hash) % FILE_COLORS.length]
+}
+
+// Helper: Worst aspect ratio of a treemap row laid along a side of length `side`
+function worstRatio(row: number[], side: number) {
+  const sum = row.reduce((a, b) => a + b, 0)
+  const max = Math.max(...row)
+  const min = Math.min(...row)
+  return Math.max((side * side * max) / (sum * sum), (sum * sum) / (side * side * min))
+}
+
+// Helper: Squarified treemap layout of `sizes` (largest first) in `bounds`
+function squarify(sizes: number[], bounds: Rect): Rect[] {
+  const total = sizes.reduce((a, b) => a + b, 0)
+  if (total <= 0) return sizes.map(() => ({ ...bounds, w: 0, h: 0 }))
+  const scale = (bounds.w * bounds.h) / total
+  const areas = sizes.map((size) => size * scale)
+
+  const rects: Rect[] = []
+  let free = { ...bounds }
+  let row: number[] = []
+
+  // Lay a finished row along the shorter side of the free space
+  const placeRow = () => {
+    const sum = row.reduce((a, b) => a + b, 0)
+    if (free.w >= free.h) {
+      const width = sum / free.h
+      let y = free.y
+      for (const area of row) {
+        rects.push({ x: free.x, y, w: width, h: area / width })
+        y += area / width
+      }
+      free = { x: free.x + width, y: free.y, w: free.w - width, h: free.h }
+    } else {
+      const height = sum / free.w
+      let x = free.x
+      for (const area of row) {
+        rects.push({ x, y: free.y, w: area / height, h: height })
+        x += area / height
+      }
+      free = { x: free.x, y: free.y + height, w: free.w, h: free.h - height }
+    }
+    row = []
+  }
+
+  for (const area of areas) {
+    const side = Math.min(free.w, free.h)
+    if (row.length === 0 || worstRatio([...row, area], side) <= worstRatio(row, side)) {
+      row.push(area)
+    } else {
+      placeRow()
+      row.push(area)
+    }
+  }
+  if (row.length > 0) placeRow()
+  return rects
+}
+
+// Helper: Percentage position of `rect` inside `parent`
+function rectStyle(rect: Rect, parent: Rect) {
+  return {
+    left: `${((rect.x - parent.x) / parent.w) * 100}%`,
+    top: `${((rect.y - parent.y) / parent.h) * 100}%`,
+    width: `${(rect.w / parent.w) * 100}%`,
+    height: `${(rect.h / parent.h) * 100}%`,
+  }
+}
+
+// One treemap rectangle, with its children laid out inside it
+function TreemapNode({
+  node,
+  rect,
+  parent,
+  totalSize,
+  onZoom,
+}: {
+  node: UsageTreemapNode
+  rect: Rect
+  parent: Rect
+  totalSize: number
+  onZoom: (dir: string) => void
+}) {
+  const children = node.children ?? []
+  const childRects = squarify(children.map((c) => c.size), rect)
+  // Labels only where there is room for them (in layout units)
+  const labelled = rect.w > 60 && rect.h > 24
+  const percent = totalSize > 0 ? ((node.size / totalSize) * 100).toFixed(1) : "0"
+
+  return (
+    <div
+      className={`absolute overflow-hidden border border-background ${nodeColor(node)} ${
+        node.type === "directory" ? "cursor-pointer hover:ring-1 hover:ring-primary" : ""
+      }`}
+      style={rectStyle(rect, parent)}
+      title={`${node.path ?? node.name} - ${formatFileSize(node.size)} (${percent}%)`}
+      onClick={(e) => {
+        if (node.type !== "directory" || !node.path) return
+        e.stopPropagation()
+        onZoom(node.path)
+      }}
+    >
+      {labelled && (
+        <div className="truncate px-1 text-[10px] leading-4 font-mono">
+          {node.name} <span className="text-muted-foreground">{formatFileSize(node.size)}</span>
+        </div>
+      )}
+      {children.length > 0 && (
+        <div className={`absolute inset-x-0 bottom-0 ${labelled ? "top-4" : "top-0"}`}>
+          {children.map((child, i) => (
+            <TreemapNode
+              key={child.path ?? `other-${i}`}
+              node={child}
+              rect={childRects[i]}
+              parent={rect}
+              totalSize={totalSize}
+              onZoom={onZoom}
+            />
+          ))}
+        </div>
+      )}
+    </div>
+  )
+}
+
+// A list row with a bar for its share of the total
+function SizeRow({
+  label,
+  detail,
+  size,
+  totalSize,
+  onClick,
+}: {
+  label: string
+  detail?: string
+  size: number
+  totalSize: number
+  onClick?: () => void
+}) {
+  const share = totalSize > 0 ? (size / totalSize) * 100 : 0
+  return (
+    <div
+      className={`relative px-2 py-1 text-xs ${onClick ? "cursor-pointer hover:bg-muted" : ""}`}
+      onClick={onClick}
+      title={`${label} - ${share.toFixed(1)}%`}
+    >
+      <div className="absolute inset-y-0 left-0 bg-primary/10" style={{ width: `${share}%` }} />
+      <div className="relative flex items-center gap-2">
+        <span className="truncate font-mono">{label}</span>
+        {detail && <span className="text-muted-foreground whitespace-nowrap">{detail}</span>}
+        <span className="ml-auto text-muted-foreground whitespace-nowrap">{formatFileSize(size)}</span>
+      </div>
+    </div>
+  )
+}
+
+export function DiskUsage({
+  apiBase,
+  directory,
+  manifestTimestamp,
+}: {
+  apiBase: string
+  directory: string
+  manifestTimestamp?: string | null  // Refetched when the manifest is rewritten
+}) {
+  const [dir, setDir] = useState("")
+  const [top, setTop] = useState(20)
+  const [usage, setUsage] = useState<ManifestUsage | null>(null)
+  const [loading, setLoading] = useState(false)
+  const [error, setError] = useState<string | null>(null)
+  // Ignore responses for a previous directory/zoom
+  const requestId = useRef(0)
+
+  // Back to the whole tree for another directory
+  useEffect(() => {
+    setDir("")
+  }, [directory])
+
+  useEffect(() => {
+    const id = ++requestId.current
+    const load = async () => {
+      setLoading(true)
+      try {
+        const params = new URLSearchParams({ dir, depth: "2", top: String(top) })
+        const encodedPath = encodeURIComponent(directory)
+        const response = await apiFetch(`${apiBase}/manifest-usage/${encodedPath}?${params}`)
+        const data = await response.json()
+        if (id !== requestId.current) return
+
+        if (response.ok) {
+          setUsage(data)
+          setError(null)
+        } else if (response.status === 404 && dir) {
+          // The folder is gone from the rewritten manifest
+          setDir("")
+        } else {
+          setUsage(null)
+          setError(data.error || "Failed to load disk usage")
+        }
+      } catch (err) {
+        if (id === requestId.current) setError("Failed to load disk usage")
+      }
+      if (id === requestId.current) setLoading(false)
+    }
+    load()
+  }, [apiBase, directory, dir, top, manifestTimestamp])
+
+  const bounds: Rect = { x: 0, y: 0, w: LAYOUT_WIDTH, h: LAYOUT_HEIGHT }
+  const rects = usage ? squarify(usage.treemap.map((n) => n.size), bounds) : []
+  const crumbs = dir ? dir.split("/") : []
+
+  return (
+    <div className="space-y-3">
+      {/* Breadcrumbs and totals */}
+      <div className="flex flex-wrap items-center gap-1 text-xs">
+        <HardDrive className="h-4 w-4 text-muted-foreground" />
+        <button className="rounded px-1 font-mono hover:bg-muted" onClick={() => setDir("")}>
+          {directory.split("/").pop() || directory}
+        </button>
+        {crumbs.map((part, i) => (
+          <span key={i} className="flex items-center">
+            <ChevronRight className="h-3 w-3 text-muted-foreground" />
+            <button
+              className="rounded px-1 font-mono hover:bg-muted"
+              onClick={() => setDir(crumbs.slice(0, i + 1).join("/"))}
+            >
+              {part}
+            </button>
+          </span>
+        ))}
+        {loading && <Loader2 className="h-3 w-3 animate-spin" />}
+        {usage && (
+          <span className="ml-auto text-muted-foreground">
+            {formatFileSize(usage.totalSize)} in {usage.totalFiles.toLocaleString()} files,{" "}
+            {usage.totalDirectories.toLocaleString()} folders
+          </span>
+        )}
+      </div>
+
+      {error && <p className="text-sm text-destructive">{error}</p>}
+
+      {usage && usage.totalSize === 0 && (
+        <p className="text-sm text-muted-foreground">No file sizes to show here</p>
+      )}
+
+      {/* Treemap */}
+      {usage && usage.totalSize > 0 && (
+        <div className="relative w-full rounded-md border" style={{ aspectRatio: `${LAYOUT_WIDTH} / ${LAYOUT_HEIGHT}` }}>
+          {usage.treemap.map((node, i) => (
+            <TreemapNode
+              key={node.path ?? `other-${i}`}
+              node={node}
+              rect={rects[i]}
+              parent={bounds}
+              totalSize={usage.totalSize}
+              onZoom={setDir}
+            />
+          ))}
+        </div>
+      )}
+
+      {/* Top N and extensions */}
+      {usage && usage.totalFiles > 0 && (
+        <div className="grid grid-cols-1 gap-3 md:grid-cols-3">
+          <div className="rounded-md border">
+            <div className="flex items-center border-b px-2 py-1 text-xs font-medium">
+              Largest files
+              <select
+                className="ml-auto rounded border bg-background text-xs"
+                value={top}
+                onChange={(e) => setTop(Number(e.target.value))}
+                title="How many to list"
+              >
+                {TOP_OPTIONS.map((n) => (
+                  <option key={n} value={n}>
+                    Top {n}
+                  </option>
+                ))}
+              </select>
+            </div>
+            <div className="max-h-72 overflow-y-auto">
+              {usage.largestFiles.map((file) => (
+                <SizeRow key={file.path} label={file.path} size={file.size} totalSize={usage.totalSize} />
+              ))}
+            </div>
+          </div>
+
+          <div className="rounded-md border">
+            <div className="border-b px-2 py-1 text-xs font-medium">Largest folders</div>
+            <div className="max-h-72 overflow-y-auto">
+              {usage.largestDirectories.length === 0 ? (
+                <p className="px-2 py-1 text-xs text-muted-foreground">No subfolders</p>
+              ) : (
+                usage.largestDirectories.map((folder) => (
+                  <SizeRow
+                    key={folder.path}
+                    label={folder.path}
+                    detail={`${folder.fileCount.toLocaleString()} files`}
+                    size={folder.size}
+                    totalSize={usage.totalSize}
+                    onClick={() => setDir(folder.path)}
+                  />
+                ))
+              )}
+            </div>
+          </div>
+
+          <div className="rounded-md border">
+            <div className="border-b px-2 py-1 text-xs font-medium">By extension</div>
+            <div className="max-h-72 overflow-y-auto">
+              {usage.extensions.map((ext) => (
+                <SizeRow
+                  key={ext.ext}
+                  label={ext.ext ? `.${ext.ext}` : "(none)"}
+                  detail={`${ext.count.toLocaleString()} files`}
+                  size={ext.size}
+                  totalSize={usage.totalSize}
+                />
+              ))}
+            </div>
+          </div>
+        </div>
+      )}
+    </div>
+  )
+}
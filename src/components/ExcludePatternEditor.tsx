@@ -0,0 +1,227 @@
+/**
+ * LHI Directory Monitor - Exclude Pattern Editor
+ *
+ * Inline editor for .lhi_excludes: add, remove, reorder and edit patterns.
+ * Comments and blank lines in the file are preserved by the backend.
+ * When patterns only come from .gitignore, offers to create .lhi_excludes
+ * from it (.lhi_excludes is the single source of truth).
+ * A new pattern can be previewed against the current manifest before saving.
+ */
+
+import { useState } from "react"
+import { ArrowDown, ArrowUp, Eye, EyeOff, FilePlus, Loader2, Plus, Trash2, X } from "lucide-react"
+import { Button } from "./ui/button"
+import { Input } from "./ui/input"
+import { formatFileSize } from "../lib/utils"
+import type { ExcludePattern, ExcludePreview, ExcludeSource } from "../types"
+
+export function ExcludePatternEditor({
+  patterns,
+  source,
+  busy,
+  preview,
+  previewing,
+  onAdd,
+  onRemove,
+  onReplace,
+  onCreateFromGitignore,
+  onPreview,
+  onClearPreview,
+  readOnly = false,
+}: {
+  patterns: ExcludePattern[]
+  source: ExcludeSource
+  busy: boolean
+  preview: ExcludePreview | null
+  previewing: boolean
+  onAdd: (pattern: string) => Promise<boolean>
+  onRemove: (index: number, pattern: string) => Promise<boolean>
+  onReplace: (patterns: string[]) => Promise<boolean>
+  onCreateFromGitignore: () => Promise<boolean>
+  onPreview: (patterns: string[]) => void
+  onClearPreview: () => void
+  readOnly?: boolean  // Viewer API token - patterns are shown but can't be changed
+}) {
+  const [newPattern, setNewPattern] = useState("")
+  const [editIndex, setEditIndex] = useState<number | null>(null)
+  const [editValue, setEditValue] = useState("")
+
+  // Patterns from .gitignore are read-only until .lhi_excludes exists
+  const editable = !readOnly && source !== ".gitignore"
+
+  const addPattern = async () => {
+    if (!newPattern.trim()) return
+    if (await onAdd(newPattern.trim())) {
+      setNewPattern("")
+    }
+  }
+
+  const movePattern = (index: number, offset: number) => {
+    const target = index + offset
+    if (target < 0 || target >= patterns.length) return
+    const next = patterns.map((p) => p.pattern)
+    ;[next[index], next[target]] = [next[target], next[index]]
+    onReplace(next)
+  }
+
+  const startEdit = (index: number) => {
+    if (!editable || busy) return
+    setEditIndex(index)
+    setEditValue(patterns[index].pattern)
+  }
+
+  const saveEdit = async () => {
+    if (editIndex === null) return
+    const value = editValue.trim()
+    if (!value || value === patterns[editIndex].pattern) {
+      setEditIndex(null)
+      return
+    }
+    const next = patterns.map((p, i) => (i === editIndex ? value : p.pattern))
+    if (await onReplace(next)) {
+      setEditIndex(null)
+    }
+  }
+
+  return (
+    <div className="space-y-2">
+      {/* Offer to adopt .gitignore as the single source of truth */}
+      {source === ".gitignore" && !readOnly && (
+        <div className="flex items-center gap-2 p-2 rounded border border-dashed text-xs text-muted-foreground">
+          <span className="flex-1">
+            Showing patterns from <code>.gitignore</code>. Create <code>.lhi_excludes</code> from it
+            to edit them - it is the single source of truth for all LHI tools.
+          </span>
+          <Button size="sm" variant="outline" onClick={onCreateFromGitignore} disabled={busy} className="gap-1">
+            {busy ? <Loader2 className="h-4 w-4 animate-spin" /> : <FilePlus className="h-4 w-4" />}
+            Create .lhi_excludes
+          </Button>
+        </div>
+      )}
+
+      {patterns.length > 0 ? (
+        <div className="space-y-1 font-mono text-sm max-h-48 overflow-auto">
+          {patterns.map((p, i) => (
+            <div
+              key={`${p.pattern}-${i}`}
+              className="group flex items-center gap-2 px-2 py-1 rounded bg-muted/50"
+            >
+              <EyeOff className="h-3 w-3 text-muted-foreground shrink-0" />
+              {editIndex === i ? (
+                <Input
+                  autoFocus
+                  value={editValue}
+                  onChange={(e) => setEditValue(e.target.value)}
+                  onKeyDown={(e) => {
+                    if (e.key === "Enter") saveEdit()
+                    if (e.key === "Escape") setEditIndex(null)
+                  }}
+                  onBlur={() => setEditIndex(null)}
+                  className="h-7 flex-1 font-mono text-sm"
+                />
+              ) : (
+                <span
+                  className={`flex-1 truncate ${editable ? "cursor-text" : ""}`}
+                  onClick={() => startEdit(i)}
+                  title={editable ? "Click to edit" : undefined}
+                >
+                  {p.pattern}
+                  {p.comment && (
+                    <span className="ml-2 font-sans text-xs text-muted-foreground"># {p.comment}</span>
+                  )}
+                </span>
+              )}
+              {editable && editIndex !== i && (
+                <div className="flex gap-0.5 opacity-0 group-hover:opacity-100">
+                  <button
+                    className="p-0.5 rounded hover:bg-accent text-muted-foreground disabled:opacity-30"
+                    onClick={() => movePattern(i, -1)}
+                    disabled={busy || i === 0}
+                    title="Move up"
+                  >
+                    <ArrowUp className="h-3 w-3" />
+                  </button>
+                  <button
+                    className="p-0.5 rounded hover:bg-accent text-muted-foreground disabled:opacity-30"
+                    onClick={() => movePattern(i, 1)}
+                    disabled={busy || i === patterns.length - 1}
+                    title="Move down"
+                  >
+                    <ArrowDown className="h-3 w-3" />
+                  </button>
+                  <button
+                    className="p-0.5 rounded hover:bg-destructive/20 text-muted-foreground hover:text-destructive disabled:opacity-30"
+                    onClick={() => onRemove(i, p.pattern)}
+                    disabled={busy}
+                    title="Remove pattern"
+                  >
+                    <Trash2 className="h-3 w-3" />
+                  </button>
+                </div>
+              )}
+            </div>
+          ))}
+        </div>
+      ) : (
+        <p className="text-sm text-muted-foreground">No exclude patterns configured</p>
+      )}
+
+      {/* Add pattern */}
+      {editable && (
+        <div className="flex items-center gap-2">
+          <Input
+            placeholder="node_modules/, *.log, /build"
+            value={newPattern}
+            onChange={(e) => {
+              setNewPattern(e.target.value)
+              // The preview was for the old text
+              if (preview) onClearPreview()
+            }}
+            onKeyDown={(e) => e.key === "Enter" && addPattern()}
+            className="h-8 flex-1 font-mono text-sm"
+          />
+          <Button
+            size="sm"
+            variant="outline"
+            onClick={() => onPreview([...patterns.map((p) => p.pattern), newPattern.trim()])}
+            disabled={previewing || !newPattern.trim()}
+            title="Highlight what this pattern would hide in the file tree"
+          >
+            {previewing ? <Loader2 className="h-4 w-4 animate-spin" /> : <Eye className="h-4 w-4" />}
+          </Button>
+          <Button size="sm" onClick={addPattern} disabled={busy || !newPattern.trim()}>
+            {busy ? <Loader2 className="h-4 w-4 animate-spin" /> : <Plus className="h-4 w-4" />}
+          </Button>
+        </div>
+      )}
+
+      {/* Dry-run summary - matching entries are highlighted in the file tree */}
+      {preview && (
+        <div className="flex items-center gap-2 p-2 rounded bg-amber-500/10 text-xs">
+          <Eye className="h-3 w-3 text-amber-600 shrink-0" />
+          <span className="flex-1">
+            Would hide {preview.added.files.toLocaleString()} files and{" "}
+            {preview.added.directories.toLocaleString()} dirs ({formatFileSize(preview.added.bytes)})
+            {preview.total.files + preview.total.directories >
+              preview.added.files + preview.added.directories && (
+              <span className="text-muted-foreground">
+                {" "}
+                - {preview.total.files.toLocaleString()} files,{" "}
+                {preview.total.directories.toLocaleString()} dirs ({formatFileSize(preview.total.bytes)})
+                hidden in total
+              </span>
+            )}
+            {preview.truncated && <span className="text-muted-foreground"> - list truncated</span>}
+          </span>
+          <button
+            className="p-0.5 rounded hover:bg-accent text-muted-foreground"
+            onClick={onClearPreview}
+            title="Clear preview"
+          >
+            <X className="h-3 w-3" />
+          </button>
+        </div>
+      )}
+    </div>
+  )
+}
@@ -0,0 +1,86 @@
+/**
+ * LHI Directory Monitor - Export Menu
+ *
+ * Download button for the backend's streamed exports (GET /manifest-export,
+ * /history-export): pick JSON, CSV or NDJSON - and flat or nested for the
+ * manifest. Downloads are plain links (the token goes in ?access_token=), so
+ * the browser streams them to disk instead of the page holding them.
+ */
+
+import { useState, useEffect, useRef } from "react"
+import { Download } from "lucide-react"
+import { Button } from "./ui/button"
+import { withAccessToken } from "../lib/api"
+
+export type ExportFormat = "json" | "csv" | "ndjson"
+export type ExportShape = "flat" | "nested"
+
+const FORMATS: { format: ExportFormat; label: string }[] = [
+  { format: "json", label: "JSON" },
+  { format: "csv", label: "CSV" },
+  { format: "ndjson", label: "NDJSON" },
+]
+
+export function ExportMenu({
+  exportUrl,
+  shapes = false,
+  title,
+}: {
+  exportUrl: (format: ExportFormat, shape: ExportShape) => string
+  shapes?: boolean  // Offer flat / nested (manifest exports)
+  title: string
+}) {
+  const [open, setOpen] = useState(false)
+  const [shape, setShape] = useState<ExportShape>("flat")
+  const menuRef = useRef<HTMLDivElement>(null)
+
+  // Close when clicking anywhere else
+  useEffect(() => {
+    if (!open) return
+    const close = (e: MouseEvent) => {
+      if (!menuRef.current?.contains(e.target as Node)) setOpen(false)
+    }
+    document.addEventListener("mousedown", close)
+    return () => document.removeEventListener("mousedown", close)
+  }, [open])
+
+  return (
+    <div className="relative" ref={menuRef}>
+      <Button variant="ghost" size="sm" className="h-7 gap-1 px-2" onClick={() => setOpen(!open)} title={title}>
+        <Download className="h-4 w-4" />
+        Export
+      </Button>
+      {open && (
+        <div className="absolute right-0 z-10 mt-1 w-40 rounded-md border bg-background p-1 shadow-md">
+          {shapes && (
+            <div className="mb-1 flex gap-1 border-b pb-1">
+              {(["flat", "nested"] as const).map((s) => (
+                <Button
+                  key={s}
+                  variant={shape === s ? "secondary" : "ghost"}
+                  size="sm"
+                  className="h-6 flex-1 px-1 text-xs capitalize"
+                  onClick={() => setShape(s)}
+                  title={s === "flat" ? "One row per file" : "Directories with their contents"}
+                >
+                  {s}
+                </Button>
+              ))}
+            </div>
+          )}
+          {FORMATS.map(({ format, label }) => (
+            <a
+              key={format}
+              href={withAccessToken(exportUrl(format, shape))}
+              download
+              className="block rounded px-2 py-1 text-sm hover:bg-muted"
+              onClick={() => setOpen(false)}
+            >
+              {label}
+            </a>
+          ))}
+        </div>
+      )}
+    </div>
+  )
+}
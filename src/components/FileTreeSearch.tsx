@@ -0,0 +1,215 @@
+/**
+ * LHI Directory Monitor - File Tree Search
+ *
+ * Search box and facet filters (extension, size range, modified date range)
+ * shown above the file tree. Queries run on the backend (GET /manifest-search)
+ * and the matches are handed to the tree, which expands their ancestors and
+ * highlights the matched text.
+ */
+
+import { useState, useEffect, useRef } from "react"
+import { Loader2, Search, SlidersHorizontal, X } from "lucide-react"
+import { Button } from "./ui/button"
+import { Input } from "./ui/input"
+import { apiFetch } from "../lib/api"
+import type { ManifestSearchResult } from "../types"
+
+interface SearchFilters {
+  query: string
+  ext: string | null  // null = all, "" = no extension
+  minKb: string
+  maxKb: string
+  since: string       // date input value (YYYY-MM-DD)
+  until: string
+}
+
+const EMPTY_FILTERS: SearchFilters = { query: "", ext: null, minKb: "", maxKb: "", since: "", until: "" }
+
+// Wait for typing to pause before querying
+const SEARCH_DEBOUNCE = 250
+
+// Helper: Query string for the filters, or null if nothing is being searched for
+function searchParams(filters: SearchFilters) {
+  const params = new URLSearchParams()
+  if (filters.query.trim()) params.set("q", filters.query.trim())
+  if (filters.ext !== null) params.set("ext", filters.ext)
+  if (filters.minKb) params.set("minSize", String(Math.round(Number(filters.minKb) * 1024)))
+  if (filters.maxKb) params.set("maxSize", String(Math.round(Number(filters.maxKb) * 1024)))
+  // Whole days, in local time like the manifest's timestamps
+  if (filters.since) params.set("since", String(new Date(`${filters.since}T00:00:00`).getTime()))
+  if (filters.until) params.set("until", String(new Date(`${filters.until}T23:59:59.999`).getTime()))
+  return [...params.keys()].length > 0 ? params : null
+}
+
+export function FileTreeSearch({
+  apiBase,
+  directory,
+  manifestTimestamp,
+  result,
+  onResult,
+  onFiltersChange,
+}: {
+  apiBase: string
+  directory: string
+  manifestTimestamp: string | null  // Searches re-run when the manifest is rewritten
+  result: ManifestSearchResult | null
+  onResult: (result: ManifestSearchResult | null) => void  // Should be stable (e.g. a state setter)
+  onFiltersChange?: (params: string) => void  // Query string of the filters ("" = none); should be stable
+}) {
+  const [filters, setFilters] = useState<SearchFilters>(EMPTY_FILTERS)
+  const [showFacets, setShowFacets] = useState(false)
+  const [extensions, setExtensions] = useState<ManifestSearchResult["extensions"]>([])
+  const [loading, setLoading] = useState(false)
+  const [error, setError] = useState<string | null>(null)
+  // Ignore responses for an older query
+  const requestId = useRef(0)
+
+  // New directory - start over
+  useEffect(() => {
+    setFilters(EMPTY_FILTERS)
+    setExtensions([])
+  }, [directory])
+
+  // The same filters as a query string, for exports
+  useEffect(() => {
+    onFiltersChange?.(searchParams(filters)?.toString() ?? "")
+  }, [filters, onFiltersChange])
+
+  useEffect(() => {
+    const params = searchParams(filters)
+    // Without a query the backend only returns facet counts - fetch those for the extension list
+    if (!params && !showFacets) {
+      requestId.current++
+      setLoading(false)
+      setError(null)
+      onResult(null)
+      return
+    }
+
+    const id = ++requestId.current
+    const timer = setTimeout(async () => {
+      setLoading(true)
+      try {
+        const encodedPath = encodeURIComponent(directory)
+        const response = await apiFetch(`${apiBase}/manifest-search/${encodedPath}?${params ?? ""}`)
+        const data = await response.json()
+        if (id !== requestId.current) return
+        if (response.ok) {
+          setExtensions(data.extensions)
+          onResult(params ? data : null)
+          setError(null)
+        } else {
+          onResult(null)
+          setError(data.error || "Search failed")
+        }
+      } catch (err) {
+        if (id === requestId.current) setError("Search failed")
+      }
+      if (id === requestId.current) setLoading(false)
+    }, SEARCH_DEBOUNCE)
+
+    return () => clearTimeout(timer)
+  }, [apiBase, directory, filters, showFacets, manifestTimestamp, onResult])
+
+  const update = (changes: Partial<SearchFilters>) => setFilters((prev) => ({ ...prev, ...changes }))
+  const active = searchParams(filters) !== null
+  const inputClass = "h-8 text-xs"
+
+  return (
+    <div className="space-y-2 mb-2">
+      <div className="flex items-center gap-2">
+        <div className="relative flex-1">
+          <Search className="absolute left-2 top-2 h-4 w-4 text-muted-foreground" />
+          <Input
+            placeholder="Search names, or a glob like src/**/*.ts"
+            value={filters.query}
+            onChange={(e) => update({ query: e.target.value })}
+            onKeyDown={(e) => e.key === "Escape" && update({ query: "" })}
+            className={`${inputClass} pl-8 font-mono`}
+          />
+        </div>
+        <Button
+          variant={showFacets ? "secondary" : "ghost"}
+          size="sm"
+          className="h-8 px-2"
+          onClick={() => setShowFacets(!showFacets)}
+          title="Filter by type, size and date"
+        >
+          <SlidersHorizontal className="h-4 w-4" />
+        </Button>
+      </div>
+
+      {showFacets && (
+        <div className="flex flex-wrap items-center gap-2">
+          <select
+            className="h-8 rounded-md border border-input bg-background px-2 text-xs"
+            value={filters.ext ?? "*"}
+            onChange={(e) => update({ ext: e.target.value === "*" ? null : e.target.value })}
+          >
+            <option value="*">All types</option>
+            {extensions.map(({ ext, count }) => (
+              <option key={ext} value={ext}>
+                {ext ? `.${ext}` : "(no extension)"} ({count.toLocaleString()})
+              </option>
+            ))}
+          </select>
+          <Input
+            type="number"
+            min={0}
+            placeholder="Min KB"
+            value={filters.minKb}
+            onChange={(e) => update({ minKb: e.target.value })}
+            className={`${inputClass} w-24`}
+          />
+          <span className="text-xs text-muted-foreground">-</span>
+          <Input
+            type="number"
+            min={0}
+            placeholder="Max KB"
+            value={filters.maxKb}
+            onChange={(e) => update({ maxKb: e.target.value })}
+            className={`${inputClass} w-24`}
+          />
+          <Input
+            type="date"
+            value={filters.since}
+            onChange={(e) => update({ since: e.target.value })}
+            className={`${inputClass} w-auto`}
+            title="Modified on or after"
+          />
+          <span className="text-xs text-muted-foreground">to</span>
+          <Input
+            type="date"
+            value={filters.until}
+            onChange={(e) => update({ until: e.target.value })}
+            className={`${inputClass} w-auto`}
+            title="Modified on or before"
+          />
+        </div>
+      )}
+
+      {(active || error) && (
+        <div className="flex items-center gap-2 text-xs text-muted-foreground">
+          {loading && <Loader2 className="h-3 w-3 animate-spin" />}
+          {error ? (
+            <span className="text-destructive">{error}</span>
+          ) : (
+            result && (
+              <span>
+                {result.total.toLocaleString()} matches
+                {result.truncated && ` - showing the first ${result.matches.length.toLocaleString()}`}
+              </span>
+            )
+          )}
+          <button
+            className="ml-auto flex items-center gap-1 underline hover:text-foreground"
+            onClick={() => setFilters(EMPTY_FILTERS)}
+          >
+            <X className="h-3 w-3" />
+            Clear search
+          </button>
+        </div>
+      )}
+    </div>
+  )
+}
@@ -0,0 +1,269 @@
+/**
+ * LHI Directory Monitor - Manifest History View
+ *
+ * Lists the backend's manifest snapshots for a directory and shows the diff
+ * between any two of them as a tree with change badges
+ * (added / removed / modified / resized).
+ */
+
+import { useState, useEffect, useMemo } from "react"
+import { ChevronDown, ChevronRight, File, Folder, History, Loader2 } from "lucide-react"
+import { Badge } from "./ui/badge"
+import { formatFileSize } from "../lib/utils"
+import { apiFetch } from "../lib/api"
+import type { SnapshotDiff, SnapshotMeta } from "../types"
+
+type ChangeKind = "added" | "removed" | "modified" | "resized"
+
+interface DiffNode {
+  name: string
+  path: string
+  children: Map<string, DiffNode>
+  change?: { kind: ChangeKind; sizeDelta?: number }
+  changeCount: number  // Changed files at or below this node
+}
+
+// Helper: Build a nested tree from the flat diff lists
+function buildDiffTree(diff: SnapshotDiff): DiffNode {
+  const root: DiffNode = { name: "", path: "", children: new Map(), changeCount: 0 }
+
+  const add = (filePath: string, change: DiffNode["change"]) => {
+    const parts = filePath.split("/")
+    let node = root
+    node.changeCount++
+    parts.forEach((part, i) => {
+      const childPath = parts.slice(0, i + 1).join("/")
+      let child = node.children.get(part)
+      if (!child) {
+        child = { name: part, path: childPath, children: new Map(), changeCount: 0 }
+        node.children.set(part, child)
+      }
+      child.changeCount++
+      node = child
+    })
+    node.change = change
+  }
+
+  diff.added.forEach((f) => add(f.path, { kind: "added" }))
+  diff.removed.forEach((f) => add(f.path, { kind: "removed" }))
+  diff.modified.forEach((f) => add(f.path, { kind: "modified" }))
+  diff.resized.forEach((f) => add(f.path, { kind: "resized", sizeDelta: f.after.size - f.before.size }))
+
+  return root
+}
+
+// Helper: Directories first, then alphabetical (same order as the file tree)
+function sortedChildren(node: DiffNode): DiffNode[] {
+  return [...node.children.values()].sort((a, b) => {
+    const aDir = a.children.size > 0
+    const bDir = b.children.size > 0
+    if (aDir !== bDir) return aDir ? -1 : 1
+    return a.name.toLowerCase().localeCompare(b.name.toLowerCase())
+  })
+}
+
+function ChangeBadge({ change }: { change: NonNullable<DiffNode["change"]> }) {
+  switch (change.kind) {
+    case "added":
+      return <Badge variant="success" className="text-xs font-normal">added</Badge>
+    case "removed":
+      return <Badge variant="danger" className="text-xs font-normal">removed</Badge>
+    case "modified":
+      return <Badge variant="outline" className="text-xs font-normal">modified</Badge>
+    case "resized": {
+      const delta = change.sizeDelta ?? 0
+      return (
+        <Badge variant="warning" className="text-xs font-normal">
+          {delta >= 0 ? "+" : "-"}
+          {formatFileSize(Math.abs(delta))}
+        </Badge>
+      )
+    }
+  }
+}
+
+function DiffTreeNode({ node, level = 0, defaultOpen }: { node: DiffNode; level?: number; defaultOpen: boolean }) {
+  const [isOpen, setIsOpen] = useState(defaultOpen)
+  const isDirectory = node.children.size > 0
+  const Icon = isDirectory ? Folder : File
+
+  return (
+    <div style={{ marginLeft: `${level * 16}px` }}>
+      <div
+        className={`flex items-center gap-2 py-1 px-2 rounded hover:bg-accent/50 ${isDirectory ? "cursor-pointer" : ""}`}
+        onClick={() => isDirectory && setIsOpen(!isOpen)}
+      >
+        {isDirectory ? (
+          isOpen ? (
+            <ChevronDown className="h-4 w-4 text-muted-foreground" />
+          ) : (
+            <ChevronRight className="h-4 w-4 text-muted-foreground" />
+          )
+        ) : (
+          <span className="w-4" />
+        )}
+        <Icon className={`h-4 w-4 ${isDirectory ? "text-yellow-500" : "text-blue-500"}`} />
+        <span className={`text-sm ${node.change?.kind === "removed" ? "line-through text-muted-foreground" : ""}`}>
+          {node.name}
+        </span>
+        {node.change && <ChangeBadge change={node.change} />}
+        {isDirectory && (
+          <span className="text-xs text-muted-foreground ml-auto">
+            {node.changeCount.toLocaleString()} changed
+          </span>
+        )}
+      </div>
+      {isDirectory && isOpen && (
+        <div>
+          {sortedChildren(node).map((child) => (
+            <DiffTreeNode key={child.path} node={child} level={level + 1} defaultOpen={defaultOpen} />
+          ))}
+        </div>
+      )}
+    </div>
+  )
+}
+
+// Helper: Label for a snapshot in the pickers
+function snapshotLabel(snapshot: SnapshotMeta) {
+  return `${new Date(snapshot.capturedAt).toLocaleString()} - ${snapshot.total_files.toLocaleString()} files`
+}
+
+export function ManifestHistory({ apiBase, directory }: { apiBase: string; directory: string }) {
+  const [snapshots, setSnapshots] = useState<SnapshotMeta[]>([])
+  const [fromId, setFromId] = useState<string | null>(null)
+  const [toId, setToId] = useState<string | null>(null)
+  const [diff, setDiff] = useState<SnapshotDiff | null>(null)
+  const [loading, setLoading] = useState(false)
+  const [error, setError] = useState<string | null>(null)
+
+  // Load snapshot list; default to comparing the two newest
+  useEffect(() => {
+    let cancelled = false
+    setSnapshots([])
+    setDiff(null)
+    setError(null)
+
+    const load = async () => {
+      try {
+        const encodedPath = encodeURIComponent(directory)
+        const response = await apiFetch(`${apiBase}/snapshots/${encodedPath}`)
+        const data = await response.json()
+        if (cancelled) return
+        if (!response.ok) {
+          setError(data.error || "Failed to load history")
+          return
+        }
+        const list: SnapshotMeta[] = data.snapshots || []
+        setSnapshots(list)
+        setToId(list[0]?.id ?? null)
+        setFromId(list[1]?.id ?? null)
+      } catch (err) {
+        if (!cancelled) setError("Failed to load history")
+      }
+    }
+    load()
+    return () => {
+      cancelled = true
+    }
+  }, [apiBase, directory])
+
+  // Load the diff whenever the selection changes
+  useEffect(() => {
+    if (!fromId || !toId) return
+    let cancelled = false
+
+    const load = async () => {
+      setLoading(true)
+      try {
+        const encodedPath = encodeURIComponent(directory)
+        const response = await apiFetch(
+          `${apiBase}/snapshot-diff/${encodedPath}?from=${fromId}&to=${toId}`
+        )
+        const data = await response.json()
+        if (cancelled) return
+        if (response.ok) {
+          setDiff(data)
+          setError(null)
+        } else {
+          setError(data.error || "Failed to load diff")
+        }
+      } catch (err) {
+        if (!cancelled) setError("Failed to load diff")
+      }
+      if (!cancelled) setLoading(false)
+    }
+    load()
+    return () => {
+      cancelled = true
+    }
+  }, [apiBase, directory, fromId, toId])
+
+  const tree = useMemo(() => (diff ? buildDiffTree(diff) : null), [diff])
+
+  if (snapshots.length < 2) {
+    return (
+      <div className="flex flex-col items-center justify-center h-24 text-muted-foreground border rounded-lg">
+        <History className="h-6 w-6 mb-1" />
+        <p className="text-sm">{error || "Not enough history yet"}</p>
+        <p className="text-xs">
+          A snapshot is recorded each time the manifest changes ({snapshots.length} so far)
+        </p>
+      </div>
+    )
+  }
+
+  const selectClass = "h-8 rounded-md border border-input bg-background px-2 text-xs"
+
+  return (
+    <div className="space-y-2">
+      {/* Snapshot pickers */}
+      <div className="flex flex-wrap items-center gap-2 text-xs">
+        <span className="text-muted-foreground">Compare</span>
+        <select className={selectClass} value={fromId ?? ""} onChange={(e) => setFromId(e.target.value)}>
+          {snapshots.map((s) => (
+            <option key={s.id} value={s.id}>{snapshotLabel(s)}</option>
+          ))}
+        </select>
+        <span className="text-muted-foreground">with</span>
+        <select className={selectClass} value={toId ?? ""} onChange={(e) => setToId(e.target.value)}>
+          {snapshots.map((s) => (
+            <option key={s.id} value={s.id}>{snapshotLabel(s)}</option>
+          ))}
+        </select>
+        {loading && <Loader2 className="h-4 w-4 animate-spin text-muted-foreground" />}
+      </div>
+
+      {error && <p className="text-xs text-destructive">{error}</p>}
+
+      {/* Summary */}
+      {diff && (
+        <div className="flex flex-wrap items-center gap-2 text-xs">
+          <Badge variant="success" className="font-normal">{diff.added.length} added</Badge>
+          <Badge variant="danger" className="font-normal">{diff.removed.length} removed</Badge>
+          <Badge variant="outline" className="font-normal">{diff.modified.length} modified</Badge>
+          <Badge variant="warning" className="font-normal">{diff.resized.length} resized</Badge>
+          <span className="text-muted-foreground ml-auto">
+            {formatFileSize(diff.from.total_bytes)} → {formatFileSize(diff.to.total_bytes)}
+          </span>
+        </div>
+      )}
+
+      {/* Diff tree */}
+      {tree && tree.changeCount > 0 ? (
+        <div className="max-h-80 overflow-auto border rounded-lg p-2">
+          {sortedChildren(tree).map((node) => (
+            // Expand everything for small diffs; large ones start collapsed
+            <DiffTreeNode key={node.path} node={node} defaultOpen={tree.changeCount <= 200} />
+          ))}
+        </div>
+      ) : (
+        diff && (
+          <div className="flex items-center justify-center h-16 text-sm text-muted-foreground border rounded-lg">
+            No file changes between these snapshots
+          </div>
+        )
+      )}
+    </div>
+  )
+}
@@ -0,0 +1,182 @@
+/**
+ * LHI Directory Monitor - Monitor Settings Panel
+ *
+ * Edits a directory's monitor settings (server/monitorSettings.js): debounce,
+ * verbose logging, scan depth, symlinks, hidden files and the manifest
+ * regeneration interval. They are saved to the registry and take effect the
+ * next time the monitor starts; the backend validates them. The script
+ * backend only applies verbose, so the rest are locked for its directories.
+ */
+
+import { useEffect, useState } from "react"
+import { Loader2, RotateCcw, Save } from "lucide-react"
+import { Button } from "./ui/button"
+import { Input } from "./ui/input"
+import type { MonitorSettings, WatcherBackendName } from "../types"
+
+// Same ranges as SETTING_LIMITS in server/monitorSettings.js
+const LIMITS = {
+  debounce: [0, 60000],
+  maxDepth: [1, 100],
+  regenInterval: [10, 86400],
+} as const
+
+// Helper: Number input text for a nullable setting ("" = null)
+const toText = (value: number | null) => (value === null ? "" : String(value))
+const toValue = (text: string) => (text.trim() === "" ? null : Number(text))
+
+export function MonitorSettingsPanel({
+  settings,
+  backend,
+  running,
+  busy,
+  onSave,
+  readOnly = false,
+}: {
+  settings: MonitorSettings
+  backend: WatcherBackendName
+  running: boolean  // Changes wait for the next start
+  busy: boolean
+  onSave: (changes: Partial<MonitorSettings>) => Promise<boolean>
+  readOnly?: boolean  // Viewer API token - settings are shown but can't be changed
+}) {
+  const [draft, setDraft] = useState(settings)
+  const [debounceText, setDebounceText] = useState(String(settings.debounce))
+  const [maxDepthText, setMaxDepthText] = useState(toText(settings.maxDepth))
+  const [regenText, setRegenText] = useState(toText(settings.regenInterval))
+
+  const reset = (from: MonitorSettings) => {
+    setDraft(from)
+    setDebounceText(String(from.debounce))
+    setMaxDepthText(toText(from.maxDepth))
+    setRegenText(toText(from.regenInterval))
+  }
+
+  // Start over from the saved settings whenever they change (other directory, or saved) -
+  // compared by value, since every registry fetch brings new objects
+  const savedKey = JSON.stringify(settings)
+  useEffect(() => {
+    reset(settings)
+  }, [savedKey])
+
+  const edited: MonitorSettings = {
+    ...draft,
+    debounce: Number(debounceText),
+    maxDepth: toValue(maxDepthText),
+    regenInterval: toValue(regenText),
+  }
+  const changes = Object.fromEntries(
+    Object.entries(edited).filter(([name, value]) => settings[name as keyof MonitorSettings] !== value)
+  ) as Partial<MonitorSettings>
+  const dirty = Object.keys(changes).length > 0
+
+  // Same as NATIVE_ONLY_SETTINGS in server/monitorSettings.js - lhi_directory_monitor.sh only has --verbose
+  const nativeOnly = backend === "script"
+  const nativeOnlyHint = (hint: string) => (nativeOnly ? `${hint} - native backend only` : hint)
+
+  const toggle = (
+    name: "verbose" | "followSymlinks" | "includeHidden",
+    label: string,
+    hint: string,
+    locked = false
+  ) => (
+    <label className="flex items-center gap-2 text-sm cursor-pointer" title={hint}>
+      <input
+        type="checkbox"
+        className="h-3 w-3 accent-primary"
+        checked={draft[name]}
+        onChange={(e) => setDraft((prev) => ({ ...prev, [name]: e.target.checked }))}
+        disabled={readOnly || busy || locked}
+      />
+      {label}
+    </label>
+  )
+
+  return (
+    <div className="space-y-3">
+      <div className="grid grid-cols-1 sm:grid-cols-3 gap-3">
+        <label className="space-y-1 text-sm">
+          <span className="text-muted-foreground">Debounce (ms)</span>
+          <Input
+            type="number"
+            className="h-8"
+            min={LIMITS.debounce[0]}
+            max={LIMITS.debounce[1]}
+            value={debounceText}
+            onChange={(e) => setDebounceText(e.target.value)}
+            disabled={readOnly || busy || nativeOnly}
+            title={nativeOnlyHint("How long to wait after a change before rescanning")}
+          />
+        </label>
+        <label className="space-y-1 text-sm">
+          <span className="text-muted-foreground">Max depth</span>
+          <Input
+            type="number"
+            className="h-8"
+            min={LIMITS.maxDepth[0]}
+            max={LIMITS.maxDepth[1]}
+            placeholder="No limit"
+            value={maxDepthText}
+            onChange={(e) => setMaxDepthText(e.target.value)}
+            disabled={readOnly || busy || nativeOnly}
+            title={nativeOnlyHint("Directory levels below the root to include (1 = only its direct contents)")}
+          />
+        </label>
+        <label className="space-y-1 text-sm">
+          <span className="text-muted-foreground">Regenerate every (s)</span>
+          <Input
+            type="number"
+            className="h-8"
+            min={LIMITS.regenInterval[0]}
+            max={LIMITS.regenInterval[1]}
+            placeholder="Only on change"
+            value={regenText}
+            onChange={(e) => setRegenText(e.target.value)}
+            disabled={readOnly || busy || nativeOnly}
+            title={nativeOnlyHint("Rewrite the whole manifest on this interval even without changes")}
+          />
+        </label>
+      </div>
+
+      <div className="flex flex-wrap gap-4">
+        {toggle("verbose", "Verbose logging", "Log every change")}
+        {toggle(
+          "followSymlinks",
+          "Follow symlinks",
+          nativeOnlyHint("Descend into symlinked directories and list symlinked files"),
+          nativeOnly
+        )}
+        {toggle("includeHidden", "Include hidden files", nativeOnlyHint("Include dot files and directories"), nativeOnly)}
+      </div>
+
+      {nativeOnly && (
+        <div className="text-xs text-muted-foreground">
+          lhi_directory_monitor.sh only supports verbose logging - switch this directory to the native backend to
+          use the other settings
+        </div>
+      )}
+
+      {!readOnly && (
+        <div className="flex items-center gap-2">
+          <Button size="sm" onClick={() => onSave(changes)} disabled={!dirty || busy} className="gap-1">
+            {busy ? <Loader2 className="h-4 w-4 animate-spin" /> : <Save className="h-4 w-4" />}
+            Save
+          </Button>
+          <Button
+            size="sm"
+            variant="ghost"
+            onClick={() => reset(settings)}
+            disabled={!dirty || busy}
+            className="gap-1"
+          >
+            <RotateCcw className="h-4 w-4" />
+            Discard
+          </Button>
+          <span className="text-xs text-muted-foreground">
+            {running ? "Saved settings apply when the monitor is next started" : "Applied on the next start"}
+          </span>
+        </div>
+      )}
+    </div>
+  )
+}
@@ -0,0 +1,366 @@
+/**
+ * LHI Directory Monitor - Virtualized File Tree
+ *
+ * Renders the manifest tree as a flat list of fixed-height rows and only
+ * mounts the rows in view, so very large manifests stay responsive.
+ * Directory levels are fetched on demand from GET /manifest-children when a
+ * folder is expanded, and reloaded together when the manifest is rewritten.
+ *
+ * While a search is active only matches and the folders leading to them are
+ * shown (expanded); everything inside a matching folder is shown as usual.
+ */
+
+import { useState, useEffect, useMemo, useRef, useCallback } from "react"
+import { ChevronDown, ChevronRight, EyeOff, File, Folder, Loader2 } from "lucide-react"
+import { Badge } from "./ui/badge"
+import { formatFileSize } from "../lib/utils"
+import { apiFetch } from "../lib/api"
+import type { ExcludeMatcher } from "../../shared/excludeMatcher.js"
+import type { ManifestChildren, ManifestEntry, ManifestSearchResult } from "../types"
+
+const ROW_HEIGHT = 28
+const VIEWPORT_HEIGHT = 320  // Same as the max-h-80 used by the other views
+const OVERSCAN = 10          // Rows mounted above and below the viewport
+const INDENT = 16
+// Most levels /manifest-children accepts per request
+const CHILDREN_BATCH = 500
+
+// Active search: matched paths (with the name range to highlight), the folders
+// leading to them ("" = root) and the matching children of each of those folders
+interface TreeSearch {
+  matches: Map<string, [number, number] | null>
+  ancestors: Set<string>
+  children: Map<string, ManifestEntry[]>
+}
+
+interface TreeRow {
+  key: string  // Entry path, "" for the root row
+  entry: ManifestEntry
+  level: number
+  expanded: boolean
+  isRoot: boolean
+}
+
+// Helper: Parent directory of a relative path ("" for the top level)
+function parentOf(entryPath: string) {
+  const slash = entryPath.lastIndexOf("/")
+  return slash === -1 ? "" : entryPath.slice(0, slash)
+}
+
+// Helper: Directories first, then alphabetical (same order as the backend's tree)
+function compareEntries(a: ManifestEntry, b: ManifestEntry) {
+  if (a.type !== b.type) return a.type === "directory" ? -1 : 1
+  const nameA = (a.path.split("/").pop() || a.path).toLowerCase()
+  const nameB = (b.path.split("/").pop() || b.path).toLowerCase()
+  return nameA.localeCompare(nameB)
+}
+
+// Helper: Index search matches by parent folder, adding the folders in between
+function buildTreeSearch(result: ManifestSearchResult): TreeSearch {
+  const matches = new Map(result.matches.map((m) => [m.path, m.highlight] as const))
+  const ancestors = new Set<string>([""])
+  const entries = new Map<string, ManifestEntry>()
+
+  for (const match of result.matches) {
+    entries.set(match.path, { path: match.path, type: match.type, size: match.size, modified: match.modified })
+    let dir = parentOf(match.path)
+    while (dir && !ancestors.has(dir)) {
+      ancestors.add(dir)
+      if (!entries.has(dir)) entries.set(dir, { path: dir, type: "directory" })
+      dir = parentOf(dir)
+    }
+  }
+
+  const children = new Map<string, ManifestEntry[]>()
+  for (const entry of entries.values()) {
+    const parent = parentOf(entry.path)
+    if (!children.has(parent)) children.set(parent, [])
+    children.get(parent)!.push(entry)
+  }
+  for (const list of children.values()) list.sort(compareEntries)
+
+  return { matches, ancestors, children }
+}
+
+// Name with the matched range highlighted
+function HighlightedName({ name, range }: { name: string; range: [number, number] | null }) {
+  if (!range) return <>{name}</>
+  const [start, end] = range
+  return (
+    <>
+      {name.slice(0, start)}
+      <mark className="bg-yellow-300/60 text-inherit rounded-sm">{name.slice(start, end)}</mark>
+      {name.slice(end)}
+    </>
+  )
+}
+
+// Mount with key={directory} - loaded levels belong to one directory
+export function VirtualFileTree({
+  apiBase,
+  directory,
+  rootName,
+  manifestTimestamp,
+  matcher,
+  previewPaths,
+  searchResult,
+}: {
+  apiBase: string
+  directory: string
+  rootName: string
+  manifestTimestamp: string | null  // Loaded levels are refetched when this changes
+  matcher: ExcludeMatcher
+  previewPaths?: Set<string>  // Paths a candidate pattern would newly hide
+  searchResult: ManifestSearchResult | null
+}) {
+  // Loaded tree levels by directory ("" = top level)
+  const [levels, setLevels] = useState<Map<string, ManifestEntry[]>>(new Map())
+  const [expanded, setExpanded] = useState<Set<string>>(new Set([""]))
+  // Search ancestors start expanded; these are the ones folded by hand
+  const [foldedInSearch, setFoldedInSearch] = useState<Set<string>>(new Set())
+  const [loadingDirs, setLoadingDirs] = useState<Set<string>>(new Set())
+  const [scrollTop, setScrollTop] = useState(0)
+  const [error, setError] = useState<string | null>(null)
+
+  // Levels asked for since the manifest last changed (a folder that no longer
+  // exists stays missing - don't ask again until there's a new manifest)
+  const requested = useRef(new Set<string>())
+  const levelsRef = useRef(levels)
+  useEffect(() => {
+    levelsRef.current = levels
+  }, [levels])
+
+  const loadLevels = useCallback(
+    async (dirs: string[]) => {
+      if (dirs.length === 0) return
+      dirs.forEach((d) => requested.current.add(d))
+      setLoadingDirs((prev) => new Set([...prev, ...dirs]))
+
+      const batches: string[][] = []
+      for (let i = 0; i < dirs.length; i += CHILDREN_BATCH) {
+        batches.push(dirs.slice(i, i + CHILDREN_BATCH))
+      }
+
+      await Promise.all(
+        batches.map(async (batch) => {
+          try {
+            const params = new URLSearchParams(batch.map((d) => ["dir", d]))
+            const encodedPath = encodeURIComponent(directory)
+            const response = await apiFetch(`${apiBase}/manifest-children/${encodedPath}?${params}`)
+            const data = await response.json()
+            if (response.ok) {
+              const { children } = data as ManifestChildren
+              setLevels((prev) => {
+                const next = new Map(prev)
+                for (const d of batch) {
+                  if (children[d]) next.set(d, children[d])
+                  else next.delete(d)
+                }
+                return next
+              })
+              setError(null)
+            } else {
+              setError(data.error || "Failed to load folder")
+            }
+          } catch (err) {
+            setError("Failed to load folder")
+          }
+        })
+      )
+
+      setLoadingDirs((prev) => {
+        const next = new Set(prev)
+        dirs.forEach((d) => next.delete(d))
+        return next
+      })
+    },
+    [apiBase, directory]
+  )
+
+  // Manifest rewritten - refetch every level we have, in one go
+  const lastTimestamp = useRef(manifestTimestamp)
+  useEffect(() => {
+    if (manifestTimestamp === lastTimestamp.current) return
+    lastTimestamp.current = manifestTimestamp
+    requested.current.clear()
+    loadLevels([...new Set(["", ...levelsRef.current.keys()])])
+  }, [manifestTimestamp, loadLevels])
+
+  // Expand folders that contain preview matches (a matching folder is highlighted itself)
+  useEffect(() => {
+    if (!previewPaths || previewPaths.size === 0) return
+    const dirs = new Set<string>()
+    for (const p of previewPaths) {
+      let dir = parentOf(p)
+      while (dir && !dirs.has(dir)) {
+        dirs.add(dir)
+        dir = parentOf(dir)
+      }
+    }
+    setExpanded((prev) => new Set([...prev, ...dirs]))
+  }, [previewPaths])
+
+  const search = useMemo(() => (searchResult ? buildTreeSearch(searchResult) : null), [searchResult])
+
+  // A new search starts fully expanded
+  useEffect(() => {
+    setFoldedInSearch(new Set())
+  }, [search])
+
+  // Flatten the expanded part of the tree into rows; also collect expanded
+  // folders whose level hasn't been loaded yet
+  const { rows, missing } = useMemo(() => {
+    const rows: TreeRow[] = []
+    const missing: string[] = []
+    const isOpen = (dirPath: string) =>
+      search?.ancestors.has(dirPath) ? !foldedInSearch.has(dirPath) : expanded.has(dirPath)
+
+    const visit = (dir: string, level: number, filtered: boolean) => {
+      const loaded = levels.get(dir)
+      let entries = loaded
+      if (filtered && search) {
+        // Prefer the loaded entries - they carry the file/dir counts
+        const loadedByPath = new Map(loaded?.map((e) => [e.path, e]))
+        entries = (search.children.get(dir) || []).map((e) => loadedByPath.get(e.path) ?? e)
+      } else if (!loaded) {
+        missing.push(dir)
+        return
+      }
+
+      for (const entry of entries || []) {
+        const open = entry.type === "directory" && isOpen(entry.path)
+        rows.push({ key: entry.path, entry, level, expanded: open, isRoot: false })
+        if (open) visit(entry.path, level + 1, filtered && !search!.matches.has(entry.path))
+      }
+    }
+
+    const rootOpen = isOpen("")
+    rows.push({ key: "", entry: { path: rootName, type: "directory" }, level: 0, expanded: rootOpen, isRoot: true })
+    if (rootOpen) visit("", 1, search !== null)
+    return { rows, missing }
+  }, [levels, expanded, foldedInSearch, search, rootName])
+
+  // Fetch levels for newly expanded folders
+  useEffect(() => {
+    const toLoad = missing.filter((d) => !requested.current.has(d))
+    if (toLoad.length > 0) loadLevels(toLoad)
+  }, [missing, loadLevels])
+
+  const toggle = (row: TreeRow) => {
+    if (row.entry.type !== "directory") return
+    const update = (set: Set<string>) => {
+      const next = new Set(set)
+      if (next.has(row.key)) next.delete(row.key)
+      else next.add(row.key)
+      return next
+    }
+    if (search?.ancestors.has(row.key)) {
+      setFoldedInSearch(update)
+    } else {
+      // Reopening a folder whose level failed to load tries again
+      if (!row.expanded && !levels.has(row.key)) requested.current.delete(row.key)
+      setExpanded(update)
+    }
+  }
+
+  // Only the rows in (or near) the viewport are mounted
+  const start = Math.max(0, Math.floor(scrollTop / ROW_HEIGHT) - OVERSCAN)
+  const end = Math.min(rows.length, Math.ceil((scrollTop + VIEWPORT_HEIGHT) / ROW_HEIGHT) + OVERSCAN)
+
+  return (
+    <div>
+      <div
+        className="overflow-auto border rounded-lg p-2"
+        style={{ maxHeight: VIEWPORT_HEIGHT }}
+        onScroll={(e) => setScrollTop(e.currentTarget.scrollTop)}
+      >
+        <div className="relative" style={{ height: rows.length * ROW_HEIGHT }}>
+          {rows.slice(start, end).map((row, i) => {
+            const { entry, isRoot } = row
+            const isDirectory = entry.type === "directory"
+            const exclusion = isRoot ? null : matcher.match(entry.path, isDirectory)
+            const isExcluded = exclusion?.excluded ?? false
+            const wouldHide = !isRoot && (previewPaths?.has(entry.path) ?? false)
+            const isSearchMatch = !isRoot && (search?.matches.has(entry.path) ?? false)
+            const name = entry.path.split("/").pop() || entry.path
+            const Icon = isDirectory ? Folder : File
+
+            return (
+              <div
+                key={row.key}
+                className={`absolute left-0 right-0 flex items-center gap-2 px-2 rounded hover:bg-accent/50 cursor-pointer whitespace-nowrap ${
+                  isExcluded ? "opacity-50" : ""
+                } ${wouldHide ? "bg-amber-500/15" : isSearchMatch ? "bg-yellow-500/10" : ""}`}
+                style={{
+                  top: (start + i) * ROW_HEIGHT,
+                  height: ROW_HEIGHT,
+                  paddingLeft: 8 + row.level * INDENT,
+                }}
+                onClick={() => toggle(row)}
+              >
+                {isDirectory ? (
+                  loadingDirs.has(row.key) ? (
+                    <Loader2 className="h-4 w-4 shrink-0 animate-spin text-muted-foreground" />
+                  ) : row.expanded ? (
+                    <ChevronDown className="h-4 w-4 shrink-0 text-muted-foreground" />
+                  ) : (
+                    <ChevronRight className="h-4 w-4 shrink-0 text-muted-foreground" />
+                  )
+                ) : (
+                  <span className="w-4 shrink-0" />
+                )}
+                <Icon
+                  className={`h-4 w-4 shrink-0 ${isDirectory ? "text-yellow-500" : "text-blue-500"} ${
+                    isExcluded ? "text-muted-foreground" : ""
+                  }`}
+                />
+                <span className={`text-sm truncate ${isExcluded ? "text-muted-foreground line-through" : ""}`}>
+                  {isSearchMatch ? <HighlightedName name={name} range={search!.matches.get(entry.path)!} /> : name}
+                </span>
+                {isExcluded && (
+                  <Badge
+                    variant="outline"
+                    className="ml-2 text-xs font-normal"
+                    title={
+                      exclusion?.excludedBy
+                        ? `Inside excluded directory ${exclusion.excludedBy}`
+                        : `Excluded by pattern ${exclusion?.pattern}`
+                    }
+                  >
+                    <EyeOff className="h-3 w-3 mr-1" />
+                    excluded by <span className="ml-1 font-mono">{exclusion?.pattern}</span>
+                  </Badge>
+                )}
+                {wouldHide && (
+                  <Badge variant="warning" className="ml-2 text-xs font-normal">
+                    <EyeOff className="h-3 w-3 mr-1" />
+                    would hide
+                  </Badge>
+                )}
+                {/* Show file/dir counts and total size for directories */}
+                {isDirectory && (entry.fileCount !== undefined || entry.dirCount !== undefined) && (
+                  <span className="text-xs text-muted-foreground ml-auto flex gap-2">
+                    {entry.fileCount !== undefined && (
+                      <span title="Files in this folder">{entry.fileCount.toLocaleString()} files</span>
+                    )}
+                    {entry.dirCount !== undefined && (
+                      <span title="Subdirectories in this folder">{entry.dirCount.toLocaleString()} dirs</span>
+                    )}
+                    {entry.totalSize !== undefined && (
+                      <span title="Size of the files in this folder">{formatFileSize(entry.totalSize)}</span>
+                    )}
+                  </span>
+                )}
+                {/* Show file size for files */}
+                {!isDirectory && entry.size !== undefined && (
+                  <span className="text-xs text-muted-foreground ml-auto">{formatFileSize(entry.size)}</span>
+                )}
+              </div>
+            )
+          })}
+        </div>
+      </div>
+      {error && <p className="mt-1 text-xs text-destructive">{error}</p>}
+    </div>
+  )
+}
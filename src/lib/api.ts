@@ -0,0 +1,43 @@
+/**
+ * LHI Directory Monitor - API Access
+ *
+ * Every request to the backend goes through apiFetch so it carries the API
+ * token the user entered (kept in localStorage). EventSource and download
+ * links can't set headers, so their URLs get the token as ?access_token= instead.
+ */
+
+const TOKEN_KEY = "lhi-directory-monitor-token"
+
+export function getApiToken(): string | null {
+  try {
+    return localStorage.getItem(TOKEN_KEY)
+  } catch {
+    return null
+  }
+}
+
+export function setApiToken(token: string | null) {
+  try {
+    if (token) localStorage.setItem(TOKEN_KEY, token)
+    else localStorage.removeItem(TOKEN_KEY)
+  } catch {
+    // Storage disabled - the token just won't persist
+  }
+}
+
+// fetch() with the Authorization header added
+export function apiFetch(url: string, init: RequestInit = {}) {
+  const token = getApiToken()
+  if (!token) return fetch(url, init)
+
+  const headers = new Headers(init.headers)
+  headers.set("Authorization", `Bearer ${token}`)
+  return fetch(url, { ...init, headers })
+}
+
+// URL with the token as a query parameter (for EventSource and download links)
+export function withAccessToken(url: string) {
+  const token = getApiToken()
+  if (!token) return url
+  return `${url}${url.includes("?") ? "&" : "?"}access_token=${encodeURIComponent(token)}`
+}
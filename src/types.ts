@@ -0,0 +1,322 @@
+/**
+ * LHI Directory Monitor - Shared Types
+ *
+ * Shapes of the data returned by the backend API (server/index.js).
+ */
+
+export interface RegisteredDirectory {
+  directory: string
+  manifest: string
+  lastUpdate: string
+  lastUpdateEst?: string
+  backend: WatcherBackendName
+  autostart: boolean      // Started when the backend starts
+  settings: MonitorSettings
+  alertRules: AlertRule[]
+}
+
+// Per-directory monitor settings (server/monitorSettings.js), applied on the next start
+export interface MonitorSettings {
+  debounce: number              // ms after a change before rescanning
+  verbose: boolean
+  maxDepth: number | null       // Levels below the root, null = no limit
+  followSymlinks: boolean
+  includeHidden: boolean
+  regenInterval: number | null  // Seconds between full regenerations, null = only on change
+}
+
+// Alert rules (server/alerts.js) - event kinds match change events whose path matches the
+// glob; "growth" compares a directory's rollup between manifests
+export type AlertRuleKind = "created" | "modified" | "deleted" | "renamed" | "changed" | "any" | "growth"
+
+export interface AlertRule {
+  id: string
+  name: string
+  kind: AlertRuleKind
+  path: string                  // Glob for event rules; directory for growth ("" = the whole tree)
+  metric?: "fileCount" | "totalSize"  // Growth rules
+  threshold: number             // Matching events per check, or growth in percent
+  enabled: boolean
+}
+
+export type AlertState = "open" | "acknowledged" | "resolved"
+
+// GET /alerts/<dir>
+export interface Alert {
+  id: string
+  ruleId: string
+  ruleName: string
+  kind: AlertRuleKind
+  state: AlertState
+  message: string
+  paths: string[]               // Example paths that triggered it (up to 20)
+  count: number                 // Times it fired while open or acknowledged
+  firstAt: number               // Epoch ms
+  lastAt: number
+  acknowledgedAt: number | null
+  resolvedAt: number | null
+}
+
+// GET /alerts - open and acknowledged counts of directories that have any
+export type AlertCounts = Record<string, { open: number; acknowledged: number }>
+
+// GET /autostart - what happened to the autostart directories when the backend started
+export interface AutostartReport {
+  finishedAt: number
+  started: string[]
+  failed: { directory: string; error: string }[]
+}
+
+// GET /browse - subdirectories for the Add Directory picker
+export interface BrowseEntry {
+  name: string
+  path: string
+  symlink: boolean
+  registered: boolean     // Already a registered directory - can't be added again
+}
+
+export interface BrowseListing {
+  path: string | null     // null = the allowed roots
+  parent: string | null   // null at a root
+  breadcrumbs: { name: string; path: string }[]
+  entries: BrowseEntry[]
+  truncated: boolean
+}
+
+export interface DirectoryStatus {
+  running: boolean
+  pid?: number
+  uptime?: string
+  lastManifestUpdate?: string
+  backend?: WatcherBackendName
+  health?: MonitorHealth
+  restarts?: number              // Automatic restarts since it was last started by hand
+  lastExit?: MonitorExit | null  // Last unexpected exit
+  nextRestartAt?: number | null  // Epoch ms, while restarting
+}
+
+// Watchdog health (server/watchdog.js)
+export type MonitorHealth = "healthy" | "restarting" | "crash-looping" | "stopped"
+
+export interface MonitorExit {
+  code: number | null     // null when killed by a signal or the exit wasn't observed
+  signal: string | null
+  error?: string          // A restart that failed to start the monitor at all
+  at: number              // Epoch ms
+}
+
+// "script" = lhi_directory_monitor.sh (fswatch / inotifywait), "native" = built-in Node watcher
+export type WatcherBackendName = "script" | "native"
+
+export type JobState = "queued" | "running" | "succeeded" | "failed" | "timed-out" | "cancelled"
+
+// Background job (e.g. a manifest refresh) from POST /refresh, GET /jobs and "job" events
+export interface Job {
+  id: string
+  type: "refresh"
+  key: string  // The directory
+  state: JobState
+  progress: string | null
+  error: string | null
+  stderr: string
+  timeout: number
+  createdAt: number
+  startedAt: number | null
+  finishedAt: number | null
+}
+
+export type BulkAction = "start" | "stop" | "refresh"
+
+// POST /bulk/:action - one result per directory
+export interface BulkResult {
+  directory: string
+  success: boolean
+  message?: string        // start / stop
+  job?: Job               // refresh
+  existing?: boolean      // refresh: the job was already running
+  error?: string
+}
+
+export interface BulkResponse {
+  action: BulkAction
+  results: BulkResult[]
+}
+
+// API token roles: viewers can only read, operators can also start/stop/refresh and edit
+export type ApiRole = "viewer" | "operator"
+
+export interface AuthInfo {
+  authRequired: boolean
+  role: ApiRole | null  // null = no token, or one the backend doesn't accept
+}
+
+export interface WatcherBackendInfo {
+  name: WatcherBackendName
+  description: string
+  available: boolean
+}
+
+export interface ManifestEntry {
+  path: string
+  type: "file" | "directory"
+  size?: number
+  modified?: string
+  children?: ManifestEntry[]
+  fileCount?: number  // Recursive count of files in this directory
+  dirCount?: number   // Recursive count of subdirectories in this directory
+  totalSize?: number  // Recursive bytes of the files in this directory
+}
+
+// .lhi_manifest formats (server/manifestFormat.js): the script's text layout, or the versioned JSON schema
+export type ManifestFormat = "text" | "json"
+
+export interface ManifestData {
+  directory: string
+  format?: ManifestFormat     // Left out when there is no manifest
+  version?: number | null     // JSON schema version; null for text
+  timestamp: string
+  total_files: number
+  total_directories: number
+  tree?: ManifestEntry[]  // Left out when requested with ?tree=false
+  error?: string
+}
+
+// Tree levels by directory (GET /manifest-children) - entries have no children of their own
+export interface ManifestChildren {
+  timestamp: string | null
+  children: Record<string, ManifestEntry[]>  // "" = top level
+}
+
+// File tree search (GET /manifest-search)
+// GET /manifest-usage - disk usage of one directory in the manifest (server/manifestUsage.js)
+export interface UsageTreemapNode {
+  name: string
+  path: string | null          // null for the merged "other" node
+  type: "file" | "directory" | "other"
+  size: number                 // Bytes, rolled up for directories
+  fileCount?: number
+  children?: UsageTreemapNode[]
+}
+
+export interface ManifestUsage {
+  timestamp: string | null
+  dir: string                  // Relative to the watch path, "" = the whole tree
+  totalSize: number
+  totalFiles: number
+  totalDirectories: number
+  treemap: UsageTreemapNode[]
+  largestFiles: { path: string; size: number; modified?: string }[]
+  largestDirectories: { path: string; size: number; fileCount: number }[]
+  extensions: { ext: string; count: number; size: number }[]
+}
+
+export interface ManifestSearchMatch {
+  path: string
+  type: "file" | "directory"
+  size?: number
+  modified?: string
+  highlight: [number, number] | null  // Matched [start, end) of the name, null for facet-only matches
+}
+
+export interface ManifestSearchResult {
+  matches: ManifestSearchMatch[]
+  total: number             // All matches, not just the ones returned
+  truncated: boolean
+  extensions: { ext: string; count: number }[]  // Over the whole manifest, "" = no extension
+}
+
+export interface ExcludePattern {
+  pattern: string
+  isDirectory: boolean
+  comment?: string
+}
+
+// Where exclude patterns were read from (.lhi_excludes wins over .gitignore)
+export type ExcludeSource = ".lhi_excludes" | ".gitignore" | null
+
+// Dry-run result from POST /excludes-preview
+export interface ExcludePreviewMatch {
+  path: string
+  type: "file" | "directory"
+  size?: number
+  pattern: string | null
+  alreadyExcluded: boolean  // Hidden by the saved patterns too
+}
+
+export interface ExcludePreviewTotals {
+  files: number
+  directories: number
+  bytes: number
+}
+
+export interface ExcludePreview {
+  matches: ExcludePreviewMatch[]
+  truncated: boolean
+  total: ExcludePreviewTotals  // Everything the candidate patterns hide
+  added: ExcludePreviewTotals  // Only what the saved patterns don't already hide
+}
+
+// Manifest history (GET /snapshots, GET /snapshot-diff)
+export interface SnapshotMeta {
+  id: string
+  directory: string
+  capturedAt: string      // When the backend recorded the snapshot (ISO)
+  manifestMtime: string   // .lhi_manifest mtime at that point (ISO)
+  timestamp: string | null // Timestamp from the manifest header
+  total_files: number
+  total_directories: number
+  total_bytes: number
+}
+
+export interface SnapshotFile {
+  path: string
+  size: number
+  modified: string
+}
+
+export interface SnapshotFileChange {
+  path: string
+  before: SnapshotFile
+  after: SnapshotFile
+}
+
+export interface SnapshotDiff {
+  from: SnapshotMeta
+  to: SnapshotMeta
+  added: SnapshotFile[]
+  removed: SnapshotFile[]
+  modified: SnapshotFileChange[]  // Same size, new modification time
+  resized: SnapshotFileChange[]   // Size changed
+}
+
+// What happened to a file; "changed" = the watcher didn't say (plain fswatch output)
+export type ChangeKind = "created" | "modified" | "deleted" | "renamed" | "changed"
+
+export interface RecentChange {
+  timestamp: string
+  file: string
+  kind: ChangeKind
+  oldPath?: string        // Previous path, for renames
+  isDirectory?: boolean   // Unset when the watcher doesn't report it
+}
+
+// Change history (GET /history) - one event from the monitor logs
+export interface ChangeEvent {
+  id: string              // "<log dir>/<log file>:<line>"
+  time: number | null     // Epoch ms, null if the log timestamp couldn't be parsed
+  timestamp: string       // As written in the log
+  file: string            // As written in the log (usually absolute)
+  path: string            // Relative to the watched directory when possible
+  kind: ChangeKind
+  oldPath?: string        // Previous path as written in the log, for renames
+  isDirectory?: boolean
+}
+
+export interface ChangeHistoryPage {
+  events: ChangeEvent[]
+  nextCursor: string | null
+  total: number           // All matching events, not just this page
+}
+
+// Live update connection: "live" = /events stream open, "polling" = stream down, using intervals
+export type StreamState = "connecting" | "live" | "polling"
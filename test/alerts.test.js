@@ -0,0 +1,181 @@
+/**
+ * Alert rules and the alert store (server/alerts.js)
+ *
+ * Which change events fire an event rule (kind, glob, threshold), when a
+ * growth rule fires, and how the store keeps alerts: a rule firing again adds
+ * to its open or acknowledged alert, acknowledge / resolve are checked, and
+ * only the newest resolved alerts are kept.
+ *
+ * Run with: npm test
+ */
+
+import { test, before, after } from "node:test"
+import assert from "node:assert/strict"
+import fs from "node:fs/promises"
+import os from "node:os"
+import path from "node:path"
+import {
+  validateRules,
+  matchEventRules,
+  checkGrowth,
+  createAlertStore,
+  AlertError,
+  RESOLVED_KEPT,
+} from "../server/alerts.js"
+
+let tmp
+
+before(async () => {
+  tmp = await fs.mkdtemp(path.join(os.tmpdir(), "lhi-alerts-"))
+})
+
+after(async () => {
+  await fs.rm(tmp, { recursive: true, force: true })
+})
+
+// Helper: A change event as readChangeEvents returns it
+const event = (kind, relPath) => ({ kind, path: relPath, isDirectory: false })
+
+// Helper: A fresh store with its own state file
+let stores = 0
+function newStore(onChange) {
+  return createAlertStore({ stateFile: path.join(tmp, `alerts-${++stores}.json`), onChange })
+}
+
+test("rules get ids, names and defaults; invalid ones are refused", () => {
+  const [pem, growth] = validateRules([
+    { kind: "created", path: "*.pem" },
+    { kind: "growth", path: "src/", threshold: 20 },
+  ])
+  assert.equal(typeof pem.id, "string")
+  assert.equal(pem.name, "*.pem created")
+  assert.equal(pem.threshold, 1)
+  assert.equal(pem.enabled, true)
+  assert.deepEqual({ path: growth.path, metric: growth.metric }, { path: "src", metric: "fileCount" })
+
+  for (const rules of [
+    [{ kind: "exploded", path: "*" }],
+    [{ kind: "created" }],
+    [{ kind: "created", path: "*.pem", threshold: 0 }],
+    [{ kind: "growth", path: "../up", threshold: 10 }],
+    [{ kind: "growth", path: "", threshold: -5 }],
+    [{ id: "same", kind: "any", path: "a" }, { id: "same", kind: "any", path: "b" }],
+    "not a list",
+  ]) {
+    assert.throws(() => validateRules(rules), AlertError, JSON.stringify(rules))
+  }
+})
+
+test("an event rule fires once the matching events reach its threshold", () => {
+  const [rule] = validateRules([{ kind: "created", path: "*.pem", threshold: 2 }])
+
+  assert.deepEqual(matchEventRules([rule], [event("created", "a.pem"), event("created", "a.txt")]), [])
+
+  const [fired] = matchEventRules([rule], [event("created", "a.pem"), event("created", "certs/b.pem")])
+  assert.equal(fired.count, 2)
+  assert.deepEqual(fired.paths, ["a.pem", "certs/b.pem"])
+
+  // Disabled rules never fire
+  assert.deepEqual(matchEventRules([{ ...rule, enabled: false }], [event("created", "a.pem"), event("created", "b.pem")]), [])
+})
+
+test("an event rule of one kind ignores the others; any matches every kind", () => {
+  const [modified, any] = validateRules([
+    { kind: "modified", path: "package-lock.json" },
+    { kind: "any", path: "/.env" },
+  ])
+  const events = [event("deleted", "package-lock.json"), event("renamed", ".env"), event("created", "sub/.env")]
+
+  const fired = matchEventRules([modified, any], events)
+  assert.equal(fired.length, 1)
+  assert.equal(fired[0].rule, any)
+  // "/.env" is anchored to the root
+  assert.deepEqual(fired[0].paths, [".env"])
+
+  assert.equal(matchEventRules([modified], [event("modified", "app/package-lock.json")]).length, 1)
+})
+
+test("a growth rule fires above its threshold - never from zero, never when shrinking", () => {
+  const [rule] = validateRules([{ kind: "growth", path: "", threshold: 20 }])
+
+  assert.equal(checkGrowth(rule, 100, 120), null)
+  const fired = checkGrowth(rule, 100, 121)
+  assert.equal(fired.rule, rule)
+  assert.match(fired.message, /\+21%/)
+
+  assert.equal(checkGrowth(rule, 0, 500), null)
+  assert.equal(checkGrowth(rule, undefined, 500), null)
+  assert.equal(checkGrowth(rule, 100, 50), null)
+  assert.equal(checkGrowth(rule, 100, null), null)
+})
+
+test("a rule firing again adds to its open or acknowledged alert", async () => {
+  const changed = []
+  const store = newStore((directory) => changed.push(directory))
+  const [rule] = validateRules([{ kind: "created", path: "*.pem" }])
+  const fire = (paths) => ({ rule, count: paths.length, paths, message: `${rule.name}: ${paths.length} paths` })
+
+  await store.record("/w", { since: 1 }, [fire(["a.pem"])])
+  await store.record("/w", { since: 2 }, [fire(["b.pem"])])
+  let [alert, ...others] = await store.list("/w")
+  assert.equal(others.length, 0)
+  assert.equal(alert.count, 2)
+  assert.deepEqual(alert.paths, ["b.pem", "a.pem"])
+  assert.equal((await store.checkpoint("/w")).since, 2)
+
+  await store.setState("/w", alert.id, "acknowledged")
+  await store.record("/w", { since: 3 }, [fire(["c.pem"])])
+  ;[alert, ...others] = await store.list("/w")
+  assert.equal(others.length, 0)
+  assert.deepEqual([alert.state, alert.count], ["acknowledged", 3])
+  assert.deepEqual(await store.counts(), { "/w": { open: 0, acknowledged: 1 } })
+
+  // Once resolved, the next firing is a new alert
+  await store.setState("/w", alert.id, "resolved")
+  await store.record("/w", { since: 4 }, [fire(["d.pem"])])
+  const alerts = await store.list("/w")
+  assert.deepEqual(alerts.map((a) => a.state).sort(), ["open", "resolved"])
+
+  // Four firings and two state changes - a check without firings isn't a change
+  await store.record("/w", { since: 5 }, [])
+  assert.equal(changed.length, 6)
+})
+
+test("setState refuses unknown alerts, resolved ones and other states", async () => {
+  const store = newStore()
+  const [rule] = validateRules([{ kind: "any", path: "*" }])
+  await store.record("/w", { since: 1 }, [{ rule, count: 1, paths: ["a"], message: "a" }])
+  const [alert] = await store.list("/w")
+
+  await assert.rejects(store.setState("/w", "nope", "resolved"), { name: "AlertError", status: 404 })
+  await assert.rejects(store.setState("/other", alert.id, "resolved"), { status: 404 })
+  await assert.rejects(store.setState("/w", alert.id, "open"), { status: 400 })
+
+  await store.setState("/w", alert.id, "resolved")
+  await assert.rejects(store.setState("/w", alert.id, "resolved"), { status: 409 })
+  await assert.rejects(store.setState("/w", alert.id, "acknowledged"), { status: 409 })
+})
+
+test(`only the newest ${RESOLVED_KEPT} resolved alerts are kept`, async () => {
+  const stateFile = path.join(tmp, "prune.json")
+  const resolved = Array.from({ length: RESOLVED_KEPT }, (_, i) => ({
+    id: `old-${i + 1}`,
+    ruleId: "r",
+    state: "resolved",
+    paths: [],
+    count: 1,
+    firstAt: i + 1,
+    lastAt: i + 1,
+  }))
+  const open = { id: "newest", ruleId: "r", state: "open", paths: [], count: 1, firstAt: 1000, lastAt: 1000 }
+  await fs.writeFile(stateFile, JSON.stringify({ directories: { "/w": { alerts: [...resolved, open] } } }))
+
+  const store = createAlertStore({ stateFile })
+  await store.setState("/w", "newest", "resolved")
+
+  const ids = (await store.list("/w")).map((a) => a.id)
+  assert.equal(ids.length, RESOLVED_KEPT)
+  assert.equal(ids[0], "newest")
+  assert.ok(!ids.includes("old-1"), "the oldest resolved alert is dropped")
+  assert.ok(ids.includes("old-2"))
+})
@@ -0,0 +1,161 @@
+/**
+ * Change events: log line parsers and scan diffs
+ *
+ * Sample lines from each watcher's log (server/logParsers.js) - fswatch,
+ * inotifywait and the built-in watcher - and how rename halves are paired
+ * into one event. Then the built-in watcher's scan diff
+ * (server/nativeWatcher.js diffScans): inode-based renames and changes
+ * inside created or deleted directories folded into that directory's event.
+ *
+ * Run with: npm test
+ */
+
+import { test } from "node:test"
+import assert from "node:assert/strict"
+import { parseChangeLine, parseChangeLines, streamChangeLines } from "../server/logParsers.js"
+import { diffScans } from "../server/nativeWatcher.js"
+
+const TS = "2026-10-19 10:00:00"
+
+test("fswatch lines: flags give the kind, the path may contain spaces", () => {
+  assert.deepEqual(parseChangeLine(`[${TS}][fswatch] Change detected: /w/a b.txt Created IsFile`), {
+    timestamp: TS,
+    file: "/w/a b.txt",
+    kind: "created",
+    isDirectory: false,
+  })
+  assert.deepEqual(parseChangeLine(`[${TS}][fswatch] Change detected: /w/dir Removed IsDir`), {
+    timestamp: TS,
+    file: "/w/dir",
+    kind: "deleted",
+    isDirectory: true,
+  })
+  // Coalesced flags - the most significant wins
+  assert.equal(parseChangeLine(`[${TS}][fswatch] Change detected: /w/a Created Updated Removed IsFile`).kind, "deleted")
+  assert.equal(parseChangeLine(`[${TS}][fswatch] Change detected: /w/a Updated IsFile`).kind, "modified")
+  // Without -x there are no flags
+  assert.deepEqual(parseChangeLine(`[${TS}][fswatch] Change detected: /w/a.txt`), {
+    timestamp: TS,
+    file: "/w/a.txt",
+    kind: "changed",
+  })
+})
+
+test("inotifywait lines in all three formats; read-only events are skipped", () => {
+  assert.deepEqual(parseChangeLine(`[${TS}][inotifywait] Change detected: /w/dir/ CREATE,ISDIR sub dir`), {
+    timestamp: TS,
+    file: "/w/dir/sub dir",
+    kind: "created",
+    isDirectory: true,
+  })
+  assert.deepEqual(parseChangeLine(`[${TS}][inotifywait] Change detected: /w/a.txt CLOSE_WRITE,CLOSE`), {
+    timestamp: TS,
+    file: "/w/a.txt",
+    kind: "modified",
+    isDirectory: false,
+  })
+  assert.deepEqual(parseChangeLine(`${TS} /w/a.txt DELETE`), {
+    timestamp: TS,
+    file: "/w/a.txt",
+    kind: "deleted",
+    isDirectory: false,
+  })
+  assert.equal(parseChangeLine(`[${TS}][inotifywait] Change detected: /w/a.txt OPEN`), null)
+  assert.equal(parseChangeLine(`[${TS}][inotifywait] Change detected: /w/a.txt CLOSE_NOWRITE,CLOSE`), null)
+})
+
+test("built-in watcher lines are JSON; anything else is not a change", () => {
+  assert.deepEqual(
+    parseChangeLine(`[${TS}][native] {"kind":"renamed","file":"/w/new","oldPath":"/w/old","isDirectory":false}`),
+    { timestamp: TS, file: "/w/new", kind: "renamed", isDirectory: false, oldPath: "/w/old" }
+  )
+  assert.equal(parseChangeLine(`[${TS}][native] {"kind":"exploded","file":"/w/a"}`), null)
+  assert.equal(parseChangeLine(`[${TS}][native] {not json}`), null)
+  assert.equal(parseChangeLine(`[${TS}][monitor] Monitor started`), null)
+  assert.equal(parseChangeLine(""), null)
+})
+
+test("rename halves are paired; lone halves are moves in or out of the tree", () => {
+  const prefix = `[${TS}][inotifywait] Change detected:`
+  assert.deepEqual(
+    parseChangeLines([`${prefix} /w/ MOVED_FROM old.txt`, `${prefix} /w/ MOVED_TO new.txt`]),
+    [{ timestamp: TS, file: "/w/new.txt", kind: "renamed", isDirectory: false, oldPath: "/w/old.txt", line: 2 }]
+  )
+
+  // Moved out, then an unrelated change; moved in on its own
+  const events = parseChangeLines([
+    `${prefix} /w/ MOVED_FROM gone.txt`,
+    `${prefix} /w/ MODIFY a.txt`,
+    `${prefix} /w/ MOVED_TO arrived.txt`,
+  ])
+  assert.deepEqual(
+    events.map(({ file, kind, line }) => [file, kind, line]),
+    [
+      ["/w/gone.txt", "deleted", 1],
+      ["/w/a.txt", "modified", 2],
+      ["/w/arrived.txt", "created", 3],
+    ]
+  )
+
+  // fswatch's Renamed doesn't say which half it is: two in a row pair up, one alone stays a rename
+  const fswatch = parseChangeLines([
+    `[${TS}][fswatch] Change detected: /w/old Renamed IsFile`,
+    `[${TS}][fswatch] Change detected: /w/new Renamed IsFile`,
+    `[${TS}][fswatch] Change detected: /w/lone Renamed IsFile`,
+  ])
+  assert.deepEqual(
+    fswatch.map(({ file, kind, oldPath }) => [file, kind, oldPath]),
+    [
+      ["/w/new", "renamed", "/w/old"],
+      ["/w/lone", "renamed", undefined],
+    ]
+  )
+})
+
+test("streamed lines give the same events as a whole log", async () => {
+  const prefix = `[${TS}][inotifywait] Change detected:`
+  const lines = [
+    `${prefix} /w/ MOVED_FROM old.txt`,
+    `${prefix} /w/ MOVED_TO new.txt`,
+    `${prefix} /w/ MOVED_FROM gone.txt`,
+    "not a change",
+    `${prefix} /w/ MODIFY a.txt`,
+    `${prefix} /w/ MOVED_FROM last.txt`,
+  ]
+  const streamed = []
+  for await (const event of streamChangeLines(lines)) streamed.push(event)
+  assert.deepEqual(streamed, parseChangeLines(lines))
+  assert.equal(streamed.length, 4)
+})
+
+// Helper: A scan (as scanDirectory returns it) from { path: [ino, size, mtimeMs] } and directories
+function scan(files, directories = []) {
+  return {
+    files: new Map(Object.entries(files).map(([p, [ino, size, mtimeMs]]) => [p, { ino, size, mtimeMs }])),
+    directories: new Set(directories),
+  }
+}
+
+test("diffScans: modified files and inode-based renames", () => {
+  const before = scan({ "a.txt": [1, 10, 100], "b.txt": [2, 20, 200], "c.txt": [3, 30, 300] })
+  const after = scan({ "a.txt": [1, 11, 101], "renamed.txt": [2, 20, 200], "d.txt": [3, 31, 300] })
+
+  assert.deepEqual(diffScans(before, after), [
+    { kind: "modified", path: "a.txt", isDirectory: false },
+    { kind: "renamed", path: "renamed.txt", oldPath: "b.txt", isDirectory: false },
+    // Same inode but a different size - not a rename
+    { kind: "created", path: "d.txt", isDirectory: false },
+    { kind: "deleted", path: "c.txt", isDirectory: false },
+  ])
+  assert.deepEqual(diffScans(before, before), [])
+})
+
+test("diffScans: changes inside a created or deleted directory fold into it", () => {
+  const before = scan({ "old/x.txt": [1, 1, 1], "old/deep/y.txt": [2, 2, 2] }, ["old", "old/deep"])
+  const after = scan({ "new/x.txt": [3, 1, 1], "new/deep/z.txt": [4, 2, 2] }, ["new", "new/deep"])
+
+  assert.deepEqual(diffScans(before, after), [
+    { kind: "deleted", path: "old", isDirectory: true },
+    { kind: "created", path: "new", isDirectory: true },
+  ])
+})
@@ -0,0 +1,94 @@
+/**
+ * Exclude pattern matcher (shared/excludeMatcher.js)
+ *
+ * The server's scans, the UI's tree, exports and alert rules all decide what
+ * a pattern covers through this matcher, so its gitignore semantics are
+ * pinned down here: anchoring, "**", negation, directory-only patterns,
+ * escapes and excluded directories.
+ *
+ * Run with: npm test
+ */
+
+import { test } from "node:test"
+import assert from "node:assert/strict"
+import { createMatcher, compilePattern } from "../shared/excludeMatcher.js"
+
+// Helper: Whether `patterns` exclude the path
+function excluded(patterns, relPath, isDirectory = false) {
+  return createMatcher(patterns).match(relPath, isDirectory).excluded
+}
+
+test("comments and blank lines are not patterns", () => {
+  assert.equal(compilePattern(""), null)
+  assert.equal(compilePattern("   "), null)
+  assert.equal(compilePattern("# a comment"), null)
+  assert.equal(excluded(["# a.txt", ""], "a.txt"), false)
+})
+
+test("unanchored patterns match at any depth, anchored ones only at the root", () => {
+  assert.equal(excluded(["*.log"], "a.log"), true)
+  assert.equal(excluded(["*.log"], "deep/down/a.log"), true)
+  assert.equal(excluded(["*.log"], "a.log.txt"), false)
+
+  assert.equal(excluded(["/.env"], ".env"), true)
+  assert.equal(excluded(["/.env"], "sub/.env"), false)
+  // A slash in the middle anchors too
+  assert.equal(excluded(["src/*.ts"], "src/a.ts"), true)
+  assert.equal(excluded(["src/*.ts"], "lib/src/a.ts"), false)
+  // "*" and "?" stop at "/"
+  assert.equal(excluded(["src/*.ts"], "src/sub/a.ts"), false)
+  assert.equal(excluded(["a?c"], "abc"), true)
+  assert.equal(excluded(["a?c"], "a/c"), false)
+})
+
+test("** at the start, in the middle and at the end", () => {
+  assert.equal(excluded(["**/cache"], "cache", true), true)
+  assert.equal(excluded(["**/cache"], "a/b/cache", true), true)
+
+  assert.equal(excluded(["a/**/b"], "a/b"), true)
+  assert.equal(excluded(["a/**/b"], "a/x/y/b"), true)
+  assert.equal(excluded(["a/**/b"], "x/a/b"), false)
+
+  assert.equal(excluded(["logs/**"], "logs/today.log"), true)
+  assert.equal(excluded(["logs/**"], "logs/2026/today.log"), true)
+  assert.equal(excluded(["logs/**"], "other/logs/today.log"), false)
+})
+
+test("the last matching pattern wins, so a negation re-includes", () => {
+  assert.equal(excluded(["*.log", "!keep.log"], "keep.log"), false)
+  assert.equal(excluded(["*.log", "!keep.log"], "drop.log"), true)
+  // A later exclude overrides the negation again
+  assert.equal(excluded(["*.log", "!keep.log", "keep.log"], "keep.log"), true)
+
+  const matcher = createMatcher(["*.log", "!keep.log"])
+  assert.deepEqual(matcher.match("keep.log"), { excluded: false, pattern: "!keep.log" })
+  assert.deepEqual(matcher.match("a.txt"), { excluded: false, pattern: null })
+})
+
+test("a trailing slash matches directories only", () => {
+  assert.equal(excluded(["build/"], "build", true), true)
+  assert.equal(excluded(["build/"], "build", false), false)
+  assert.equal(excluded(["build/"], "sub/build", true), true)
+  // Files inside it are excluded along with the directory
+  assert.equal(excluded(["build/"], "build/out.js"), true)
+})
+
+test("escaped \\# and \\! are literal names", () => {
+  assert.equal(excluded(["\\#notes"], "#notes"), true)
+  assert.equal(excluded(["\\!important"], "!important"), true)
+  assert.equal(excluded(["\\!important"], "important"), false)
+  assert.equal(compilePattern("\\!important").negate, false)
+})
+
+test("nothing inside an excluded directory can be re-included", () => {
+  const matcher = createMatcher(["node_modules/", "!node_modules/keep.js"])
+  assert.deepEqual(matcher.match("node_modules/keep.js"), {
+    excluded: true,
+    pattern: "node_modules/",
+    excludedBy: "node_modules",
+  })
+  assert.equal(matcher.match("node_modules/a/b/c.js").excludedBy, "node_modules")
+
+  // Re-including the directory itself does work
+  assert.equal(excluded(["vendor/", "!vendor/"], "vendor/lib.js"), false)
+})
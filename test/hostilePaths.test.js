@@ -0,0 +1,325 @@
+/**
+ * Hostile directory paths through every API route
+ *
+ * Starts the backend against a temporary HOME and stand-in core module
+ * scripts that record the arguments they get, then sends directory names
+ * built to break out of a shell command line (quotes, $(), backticks, ;, |).
+ * No injected command may run, every external program must get the path as
+ * a single argument, and unusable paths (control characters, relative,
+ * malformed URL encoding, too long) must be rejected with 400. Directories
+ * outside the allowed roots - directly, through `..` or through a symlink -
+ * and unregistered ones must be refused with 403, and the directory browser
+ * must list hostile names as they are.
+ *
+ * Run with: npm test
+ */
+
+import { test, before, after } from "node:test"
+import assert from "node:assert/strict"
+import { spawn } from "node:child_process"
+import fs from "node:fs/promises"
+import net from "node:net"
+import os from "node:os"
+import path from "node:path"
+import { fileURLToPath } from "node:url"
+
+const SERVER = path.join(path.dirname(fileURLToPath(import.meta.url)), "../server/index.js")
+
+// Each payload tries to create "pwned" in the working directory of whatever runs it
+const HOSTILE_NAMES = [
+  'quote"; touch pwned; echo "',
+  "single'; touch pwned; echo '",
+  "subshell $(touch pwned)",
+  "backtick `touch pwned`",
+  "semicolon;touch pwned",
+  "pipe | touch pwned",
+  "and && touch pwned",
+  "regex .* (fswatch|inotifywait) [a-z]+",
+]
+
+let tmp
+let monitorDir
+let argsLog
+let hostileDirs
+let newDirs
+let outsideDirs
+let server
+let baseUrl
+
+// Every route that takes a directory: [method, url, body]
+const ROUTES = [
+  (dir) => ["POST", "/api/registry/add", { directory: dir }],
+  (dir) => ["PATCH", `/api/registry/${encodeURIComponent(dir)}`, { backend: "native" }],
+  (dir) => ["PATCH", `/api/registry/${encodeURIComponent(dir)}`, { backend: "script" }],
+  (dir) => ["GET", `/api/manifest/${encodeURIComponent(dir)}`],
+  (dir) => ["GET", `/api/manifest-children/${encodeURIComponent(dir)}?dir=`],
+  (dir) => ["GET", `/api/manifest-search/${encodeURIComponent(dir)}?q=a`],
+  (dir) => ["GET", `/api/manifest-usage/${encodeURIComponent(dir)}?dir=`],
+  (dir) => ["GET", `/api/snapshots/${encodeURIComponent(dir)}`],
+  (dir) => ["GET", `/api/snapshot-diff/${encodeURIComponent(dir)}?from=a&to=b`],
+  (dir) => ["GET", `/api/excludes/${encodeURIComponent(dir)}`],
+  (dir) => ["POST", `/api/excludes/${encodeURIComponent(dir)}`, { pattern: "*.log" }],
+  (dir) => ["PUT", `/api/excludes/${encodeURIComponent(dir)}`, { patterns: ["*.tmp"] }],
+  (dir) => ["DELETE", `/api/excludes/${encodeURIComponent(dir)}`, { index: 0 }],
+  (dir) => ["POST", `/api/excludes-init/${encodeURIComponent(dir)}`],
+  (dir) => ["POST", `/api/excludes-preview/${encodeURIComponent(dir)}`, { patterns: ["*"] }],
+  (dir) => ["GET", `/api/check-exclude/${encodeURIComponent(dir)}?path=a`],
+  (dir) => ["GET", `/api/status/${encodeURIComponent(dir)}`],
+  (dir) => ["POST", `/api/start/${encodeURIComponent(dir)}`],
+  (dir) => ["POST", `/api/stop/${encodeURIComponent(dir)}`],
+  (dir) => ["POST", `/api/refresh/${encodeURIComponent(dir)}`],
+  (dir) => ["POST", "/api/bulk/start", { directories: [dir] }],
+  (dir) => ["POST", "/api/bulk/stop", { directories: [dir] }],
+  (dir) => ["POST", "/api/bulk/refresh", { directories: [dir] }],
+  (dir) => ["GET", `/api/changes/${encodeURIComponent(dir)}`],
+  (dir) => ["GET", `/api/history/${encodeURIComponent(dir)}?path=a`],
+  (dir) => ["GET", `/api/manifest-export/${encodeURIComponent(dir)}?format=csv`],
+  (dir) => ["GET", `/api/history-export/${encodeURIComponent(dir)}?format=ndjson`],
+  (dir) => ["PATCH", `/api/registry/${encodeURIComponent(dir)}`, { alertRules: [{ kind: "created", path: "*.pem" }] }],
+  (dir) => ["GET", `/api/alerts/${encodeURIComponent(dir)}`],
+  (dir) => ["PATCH", `/api/alerts/${encodeURIComponent(dir)}`, { id: "a", state: "resolved" }],
+  (dir) => ["POST", "/api/start", { path: dir }],
+  (dir) => ["POST", "/api/stop", { path: dir }],
+  (dir) => ["POST", "/api/refresh", { path: dir }],
+  (dir) => ["POST", "/api/registry/remove", { directory: dir }],
+]
+
+// Helper: A port nothing is listening on
+function freePort() {
+  return new Promise((resolve, reject) => {
+    const probe = net.createServer()
+    probe.once("error", reject)
+    probe.listen(0, () => {
+      const { port } = probe.address()
+      probe.close(() => resolve(port))
+    })
+  })
+}
+
+// Helper: Send one request; returns { status, body }
+async function request(method, url, body) {
+  const response = await fetch(baseUrl + url, {
+    method,
+    headers: body ? { "Content-Type": "application/json" } : undefined,
+    body: body ? JSON.stringify(body) : undefined,
+  })
+  const text = await response.text()
+  return { status: response.status, body: text }
+}
+
+// Helper: Stand-in for a core module script - records its arguments (NUL-separated) and exits
+function recorderScript() {
+  return `printf '%s\\0' "$0" "$@" >> '${argsLog}'\n`
+}
+
+before(async () => {
+  tmp = await fs.mkdtemp(path.join(os.tmpdir(), "lhi-hostile-"))
+  monitorDir = path.join(tmp, "monitor")
+  argsLog = path.join(tmp, "args.log")
+  const home = path.join(tmp, "home")
+
+  await fs.mkdir(path.join(monitorDir, "src"), { recursive: true })
+  for (const script of [
+    "lhi_directory_monitor.sh",
+    "lhi_directory_monitor_daemon.sh",
+    "lhi_directory_monitor_registry.sh",
+  ]) {
+    await fs.writeFile(path.join(monitorDir, "src", script), recorderScript())
+  }
+
+  // Real directories with hostile names, each registered, under the one allowed root
+  hostileDirs = []
+  for (const name of HOSTILE_NAMES) {
+    const dir = path.join(tmp, "dirs", name)
+    await fs.mkdir(dir, { recursive: true })
+    await fs.writeFile(path.join(dir, ".gitignore"), "*.log\n")
+    hostileDirs.push(dir)
+  }
+
+  // The same names, not registered yet (registering an existing directory again is refused)
+  newDirs = []
+  for (const name of HOSTILE_NAMES) {
+    const dir = path.join(tmp, "dirs", "new", name)
+    await fs.mkdir(dir, { recursive: true })
+    newDirs.push(dir)
+  }
+
+  // Registered, but outside the allowed root: directly, via "..", and via a symlink
+  const outside = path.join(tmp, "outside")
+  await fs.mkdir(outside)
+  await fs.symlink(outside, path.join(tmp, "dirs", "link"))
+  outsideDirs = [outside, path.join(tmp, "dirs", "link")]
+
+  const registryFile = path.join(
+    home,
+    process.platform === "darwin"
+      ? "Library/Application Support/LHI/DirectoryMonitor/registry.json"
+      : ".config/lhi/directory-monitor/registry.json"
+  )
+  await fs.mkdir(path.dirname(registryFile), { recursive: true })
+  const monitors = Object.fromEntries(
+    [...hostileDirs, ...outsideDirs].map((dir) => [dir, { manifest: path.join(dir, ".lhi_manifest") }])
+  )
+  await fs.writeFile(registryFile, JSON.stringify({ monitors }))
+
+  const port = await freePort()
+  baseUrl = `http://127.0.0.1:${port}`
+  server = spawn(process.execPath, [SERVER], {
+    cwd: tmp,
+    env: {
+      ...process.env,
+      HOME: home,
+      PORT: String(port),
+      LHI_MONITOR_DIR: monitorDir,
+      LHI_ALLOWED_ROOTS: path.join(tmp, "dirs"),
+      LHI_API_TOKENS: "",
+    },
+    stdio: ["ignore", "pipe", "pipe"],
+  })
+  await new Promise((resolve, reject) => {
+    server.once("exit", (code) => reject(new Error(`Server exited with ${code}`)))
+    server.stdout.on("data", (chunk) => {
+      if (String(chunk).includes("running on port")) resolve()
+    })
+  })
+})
+
+after(async () => {
+  server?.kill()
+  if (tmp) await fs.rm(tmp, { recursive: true, force: true })
+})
+
+test("hostile directory names are handled as plain data by every route", async () => {
+  for (const route of ROUTES) {
+    // Same route for every directory at once - start and refresh wait on the monitor
+    await Promise.all(
+      hostileDirs.map(async (dir) => {
+        const [method, url, body] = route(dir)
+        const { status, body: text } = await request(method, url, body)
+        assert.ok(status < 500, `${method} ${url} -> ${status} ${text}`)
+      })
+    )
+  }
+
+  for (const dir of newDirs) {
+    const { status, body: text } = await request("POST", "/api/registry/add", { directory: dir })
+    assert.equal(status, 200, text)
+  }
+})
+
+test("no injected command ran", async () => {
+  for (const dir of [tmp, monitorDir, ...hostileDirs]) {
+    await assert.rejects(fs.access(path.join(dir, "pwned")), `pwned created in ${dir}`)
+  }
+})
+
+test("external programs get each path as a single argument", async () => {
+  const script = (name) => path.join(monitorDir, "src", name)
+  const scripts = new Set([
+    script("lhi_directory_monitor.sh"),
+    script("lhi_directory_monitor_daemon.sh"),
+    script("lhi_directory_monitor_registry.sh"),
+  ])
+
+  // Recorded calls: [script, ...args]
+  const calls = []
+  for (const arg of (await fs.readFile(argsLog, "utf-8")).split("\0").slice(0, -1)) {
+    if (scripts.has(arg)) calls.push([arg])
+    else calls.at(-1).push(arg)
+  }
+
+  const expected = [
+    (dir) => [script("lhi_directory_monitor_registry.sh"), "remove-direct", dir],
+    (dir) => [script("lhi_directory_monitor.sh"), "-d", dir, "--verbose"], // start (script backend)
+    (dir) => [script("lhi_directory_monitor.sh"), "-d", dir], // refresh
+  ]
+  const add = (dir) => [script("lhi_directory_monitor_registry.sh"), "add", dir]
+
+  const allowed = new Set([
+    ...hostileDirs.flatMap((dir) => expected.map((call) => JSON.stringify(call(dir)))),
+    ...newDirs.map((dir) => JSON.stringify(add(dir))),
+  ])
+  for (const call of calls) {
+    assert.ok(allowed.has(JSON.stringify(call)), `unexpected call ${JSON.stringify(call)}`)
+  }
+  const made = new Set(calls.map((call) => JSON.stringify(call)))
+  for (const dir of hostileDirs) {
+    for (const call of expected) {
+      assert.ok(made.has(JSON.stringify(call(dir))), `missing call ${JSON.stringify(call(dir))}`)
+    }
+  }
+  for (const dir of newDirs) {
+    assert.ok(made.has(JSON.stringify(add(dir))), `missing call ${JSON.stringify(add(dir))}`)
+  }
+})
+
+test("unusable paths are rejected with 400", async () => {
+  const lineBreak = path.join(tmp, "dirs", "line\nbreak")
+  await fs.mkdir(lineBreak, { recursive: true })
+
+  const invalid = [
+    lineBreak,
+    path.join(tmp, "dirs", "nul\0byte"),
+    path.join(tmp, "dirs", "x".repeat(5000)),
+  ]
+  for (const dir of invalid) {
+    for (const route of ROUTES) {
+      const [method, url, body] = route(dir)
+      const { status } = await request(method, url, body)
+      assert.equal(status, 400, `${method} ${JSON.stringify(url).slice(0, 80)}`)
+    }
+  }
+
+  // Body paths must be absolute; URL paths must decode
+  for (const [method, url, body] of [
+    ["POST", "/api/registry/add", { directory: "relative/dir" }],
+    ["POST", "/api/registry/remove", { directory: "relative/dir" }],
+    ["POST", "/api/start", { path: "relative/dir" }],
+    ["POST", "/api/stop", { path: "relative/dir" }],
+    ["POST", "/api/refresh", { path: "relative/dir" }],
+    ["POST", "/api/registry/add", { directory: ["/tmp"] }],
+    ["GET", "/api/manifest/%E0%A4%A"],
+    ["POST", "/api/start/%E0%A4%A"],
+  ]) {
+    const { status } = await request(method, url, body)
+    assert.equal(status, 400, `${method} ${url} ${JSON.stringify(body)}`)
+  }
+})
+
+test("directories outside the allowed roots or the registry are refused with 403", async () => {
+  const unregistered = path.join(tmp, "dirs", "unregistered")
+  await fs.mkdir(unregistered)
+  const refused = [...outsideDirs, path.join(tmp, "dirs", "..", "outside"), unregistered]
+
+  for (const dir of refused) {
+    for (const route of ROUTES) {
+      const [method, url, body] = route(dir)
+      // Dropping a directory from the registry needs no access to it
+      if (url === "/api/registry/remove") continue
+      // Routes taking the directory in the body only confine it to the roots
+      // (registering is how a directory inside them becomes usable)
+      if (dir === unregistered && body && !url.includes(encodeURIComponent(dir))) continue
+      const { status, body: text } = await request(method, url, body)
+      assert.equal(status, 403, `${method} ${url} -> ${text}`)
+      assert.match(JSON.parse(text).error, /^Access denied/)
+    }
+  }
+})
+
+test("the directory browser lists hostile names and stays inside the allowed roots", async () => {
+  const { status, body } = await request("GET", `/api/browse?path=${encodeURIComponent(path.join(tmp, "dirs"))}`)
+  assert.equal(status, 200, body)
+  const names = JSON.parse(body).entries.map((entry) => entry.name)
+  for (const name of HOSTILE_NAMES) {
+    assert.ok(names.includes(name), `${name} not listed`)
+  }
+
+  for (const dir of [...outsideDirs, path.join(tmp, "dirs", "..", "outside")]) {
+    const { status: refused } = await request("GET", `/api/browse?path=${encodeURIComponent(dir)}`)
+    assert.equal(refused, 403, dir)
+  }
+  for (const dir of ["relative/dir", path.join(tmp, "dirs", "line\nbreak")]) {
+    const { status: invalid } = await request("GET", `/api/browse?path=${encodeURIComponent(dir)}`)
+    assert.equal(invalid, 400, dir)
+  }
+})
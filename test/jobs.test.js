@@ -0,0 +1,136 @@
+/**
+ * Background jobs (server/jobs.js)
+ *
+ * A job's states from queued to succeeded / failed / timed-out / cancelled,
+ * one active job per key, the concurrency limit, the timeout aborting the
+ * job's signal, and cancelling queued and running jobs.
+ *
+ * Run with: npm test
+ */
+
+import { test } from "node:test"
+import assert from "node:assert/strict"
+import { createJobRunner } from "../server/jobs.js"
+
+// Helper: Wait until a job reaches `state` (fails after two seconds)
+async function waitForState(runner, id, state) {
+  const deadline = Date.now() + 2000
+  while (runner.get(id).state !== state) {
+    assert.ok(Date.now() < deadline, `job ${id} is ${runner.get(id).state}, not ${state}`)
+    await new Promise((resolve) => setTimeout(resolve, 10))
+  }
+  return runner.get(id)
+}
+
+// Helper: A job body that runs until its signal fires, then fails with "aborted"
+const untilAborted = ({ signal }) =>
+  new Promise((resolve, reject) => signal.addEventListener("abort", () => reject(new Error("aborted"))))
+
+// Helper: A job body that runs until release() is called
+function held() {
+  let release
+  const done = new Promise((resolve) => (release = resolve))
+  return { run: () => done, release }
+}
+
+test("a job runs to succeeded, reporting each state and its progress", async () => {
+  const updates = []
+  const runner = createJobRunner({ onUpdate: (job) => updates.push([job.state, job.progress]) })
+
+  const { job, existing } = runner.submit({
+    type: "refresh",
+    key: "/w",
+    run: async ({ progress }) => progress("Scanning"),
+  })
+  assert.equal(existing, false)
+  const done = await waitForState(runner, job.id, "succeeded")
+
+  assert.deepEqual(updates, [
+    ["queued", null],
+    ["running", null],
+    ["running", "Scanning"],
+    ["succeeded", null],
+  ])
+  assert.ok(done.startedAt <= done.finishedAt)
+  // Internals stay out of the public job
+  assert.equal("run" in done || "controller" in done, false)
+})
+
+test("a failing job keeps its error and the tail of its stderr", async () => {
+  const runner = createJobRunner()
+  const { job } = runner.submit({
+    type: "refresh",
+    key: "/w",
+    run: async ({ stderr }) => {
+      stderr("fswatch: not found\n")
+      throw new Error("Script exited with code 127")
+    },
+  })
+
+  const failed = await waitForState(runner, job.id, "failed")
+  assert.equal(failed.error, "Script exited with code 127")
+  assert.equal(failed.stderr, "fswatch: not found\n")
+})
+
+test("one active job per key; others wait for a free slot", async () => {
+  const runner = createJobRunner({ maxConcurrent: 1 })
+  const first = held()
+  const { job: a } = runner.submit({ type: "refresh", key: "/a", run: first.run })
+
+  // Same key while active: the running job comes back
+  const again = runner.submit({ type: "refresh", key: "/a", run: () => assert.fail("ran twice") })
+  assert.deepEqual([again.existing, again.job.id], [true, a.id])
+
+  const { job: b } = runner.submit({ type: "refresh", key: "/b", run: async () => {} })
+  assert.equal(runner.get(a.id).state, "running")
+  assert.equal(runner.get(b.id).state, "queued")
+
+  first.release()
+  await waitForState(runner, b.id, "succeeded")
+  assert.deepEqual(runner.list().map((job) => job.id), [b.id, a.id])
+  assert.deepEqual(runner.list({ key: "/b" }).map((job) => job.id), [b.id])
+
+  // Finished, so the key takes a new job
+  assert.equal(runner.submit({ type: "refresh", key: "/a", run: async () => {} }).existing, false)
+})
+
+test("a job past its timeout is aborted and timed out", async () => {
+  const runner = createJobRunner({ timeout: 50 })
+  let signal
+  const { job } = runner.submit({
+    type: "refresh",
+    key: "/w",
+    run: (context) => {
+      signal = context.signal
+      return untilAborted(context)
+    },
+  })
+
+  const timedOut = await waitForState(runner, job.id, "timed-out")
+  assert.equal(signal.aborted, true)
+  assert.match(timedOut.error, /^Timed out after/)
+})
+
+test("cancel ends queued jobs at once and aborts running ones", async () => {
+  const runner = createJobRunner({ maxConcurrent: 1 })
+  let signal
+  const { job: running } = runner.submit({
+    type: "refresh",
+    key: "/a",
+    run: (context) => {
+      signal = context.signal
+      return untilAborted(context)
+    },
+  })
+  const { job: queued } = runner.submit({ type: "refresh", key: "/b", run: () => assert.fail("ran") })
+
+  assert.equal(runner.cancel("/b"), 1)
+  assert.equal(runner.get(queued.id).state, "cancelled")
+
+  assert.equal(runner.cancel("/a"), 1)
+  assert.equal(signal.aborted, true)
+  const cancelled = await waitForState(runner, running.id, "cancelled")
+  assert.equal(cancelled.error, "Cancelled")
+
+  assert.equal(runner.cancel("/a"), 0)
+})
@@ -0,0 +1,115 @@
+/**
+ * .lhi_manifest formats (server/manifestFormat.js)
+ *
+ * The native watcher writes the versioned JSON format and the monitor script
+ * the text one; both must parse to the same shape. A JSON manifest of a
+ * version this backend doesn't know has to be rejected, not misread.
+ *
+ * Run with: npm test
+ */
+
+import { test } from "node:test"
+import assert from "node:assert/strict"
+import {
+  parseManifest,
+  formatJsonManifest,
+  formatLocalTime,
+  MANIFEST_SCHEMA,
+  MANIFEST_VERSION,
+} from "../server/manifestFormat.js"
+
+const GENERATED = new Date("2026-10-19T10:00:00.000Z")
+const MTIME = Date.parse("2026-10-01T08:30:15.000Z")
+
+// Helper: A scan as nativeWatcher.js scanDirectory returns it
+function sampleScan() {
+  return {
+    files: new Map([
+      ["src/a.ts", { size: 1234, mtimeMs: MTIME, mode: 0o100644, hash: "sha256:abc" }],
+      ['odd "quoted" name.txt', { size: 0, mtimeMs: MTIME, mode: 0o100755 }],
+    ]),
+    directories: new Set(["src", "empty"]),
+    directoryStats: new Map([
+      ["src", { mtimeMs: MTIME, mode: 0o40755 }],
+      ["empty", { mtimeMs: MTIME, mode: 0o40700 }],
+    ]),
+  }
+}
+
+// Helper: A JSON manifest with the header fields replaced
+function jsonManifest(fields) {
+  return JSON.stringify({ schema: MANIFEST_SCHEMA, version: MANIFEST_VERSION, entries: [], ...fields })
+}
+
+test("a JSON manifest written by formatJsonManifest parses back to the scan", () => {
+  const content = formatJsonManifest("/w/project", sampleScan(), GENERATED)
+  const parsed = parseManifest(content)
+
+  assert.equal(parsed.format, "json")
+  assert.equal(parsed.version, MANIFEST_VERSION)
+  assert.equal(parsed.directory, "/w/project")
+  assert.equal(parsed.timestamp, formatLocalTime(GENERATED))
+  assert.equal(parsed.total_files, 2)
+  assert.equal(parsed.total_directories, 2)
+
+  const modified = formatLocalTime(new Date(MTIME))
+  assert.deepEqual(parsed.files, [
+    { path: 'odd "quoted" name.txt', type: "file", modified, mode: "0755", size: 0 },
+    { path: "src/a.ts", type: "file", modified, mode: "0644", size: 1234, hash: "sha256:abc" },
+  ])
+  // Directories are listed, so an empty one isn't lost
+  assert.deepEqual(parsed.directories, [
+    { path: "empty", type: "directory", modified, mode: "0700" },
+    { path: "src", type: "directory", modified, mode: "0755" },
+  ])
+})
+
+test("the text format parses to the same shape", () => {
+  const content = [
+    "======================================================================",
+    "LHI Directory Monitor - MANIFEST",
+    "======================================================================",
+    "Timestamp: 2026-01-19 04:10:57 PM EST",
+    "Directory: /w/project",
+    "",
+    "File Listing:",
+    "-------------",
+    '"src/a.ts" (1234 bytes) - Modified: 2025-08-06 13:58:55',
+    '"say "hi" (twice).txt" (5 bytes) - Modified: 2025-08-06 14:00:00',
+    "",
+    "Summary:",
+    "--------",
+    "Total Files: 2",
+    "Total Directories: 1",
+  ].join("\n")
+  const parsed = parseManifest(content)
+
+  assert.equal(parsed.format, "text")
+  assert.equal(parsed.version, null)
+  assert.equal(parsed.directory, "/w/project")
+  assert.equal(parsed.timestamp, "2026-01-19 04:10:57 PM EST")
+  assert.equal(parsed.total_files, 2)
+  assert.equal(parsed.total_directories, 1)
+  assert.deepEqual(parsed.files, [
+    { path: "src/a.ts", type: "file", size: 1234, modified: "2025-08-06 13:58:55" },
+    { path: 'say "hi" (twice).txt', type: "file", size: 5, modified: "2025-08-06 14:00:00" },
+  ])
+  assert.deepEqual(parsed.directories, [])
+})
+
+test("text manifests without a summary count their files and directories", () => {
+  const parsed = parseManifest(
+    ["File Listing:", "-------------", '"a/b/c.txt" (1 bytes) - Modified: 2025-08-06 13:58:55'].join("\n")
+  )
+  assert.equal(parsed.total_files, 1)
+  assert.equal(parsed.total_directories, 2)
+})
+
+test("JSON manifests of an unknown or future version are rejected", () => {
+  for (const version of [0, 2, MANIFEST_VERSION + 1, "1", null, undefined]) {
+    assert.throws(() => parseManifest(jsonManifest({ version })), /Unsupported manifest version/, String(version))
+  }
+  assert.throws(() => parseManifest(jsonManifest({ schema: "something-else" })), /Not an LHI manifest/)
+  assert.throws(() => parseManifest(jsonManifest({ entries: undefined })), /no entries list/)
+  assert.throws(() => parseManifest("{ not json"), /not valid JSON/)
+})
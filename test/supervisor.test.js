@@ -0,0 +1,175 @@
+/**
+ * Process supervisor (server/supervisor.js)
+ *
+ * Real child processes (sh and sleep): status from the recorded PID and its
+ * start time, so a reused PID isn't taken for the monitor; stop escalating
+ * from SIGTERM to SIGKILL for a group that ignores SIGTERM; onExit for a
+ * monitor that exits by itself; and cleanup() of entries whose process is
+ * gone, without signalling a process that merely reuses the PID.
+ *
+ * Run with: npm test
+ */
+
+import { test, before, after } from "node:test"
+import assert from "node:assert/strict"
+import fs from "node:fs/promises"
+import os from "node:os"
+import path from "node:path"
+import { spawn } from "node:child_process"
+import { createSupervisor } from "../server/supervisor.js"
+
+let tmp
+// Process groups the tests started, ended in after()
+const groups = new Set()
+
+before(async () => {
+  tmp = await fs.mkdtemp(path.join(os.tmpdir(), "lhi-supervisor-"))
+})
+
+after(async () => {
+  for (const pgid of groups) {
+    try {
+      process.kill(-pgid, "SIGKILL")
+    } catch {
+      // Already gone
+    }
+  }
+  await fs.rm(tmp, { recursive: true, force: true })
+})
+
+// Helper: Whether any process of a group is left
+function groupAlive(pgid) {
+  try {
+    process.kill(-pgid, 0)
+    return true
+  } catch {
+    return false
+  }
+}
+
+// Helper: Whether the group is gone within a second (an exited process is reaped a moment later)
+async function groupGone(pgid) {
+  const deadline = Date.now() + 1000
+  while (groupAlive(pgid) && Date.now() < deadline) {
+    await new Promise((resolve) => setTimeout(resolve, 10))
+  }
+  return !groupAlive(pgid)
+}
+
+// Helper: A supervisor with its own state file
+let supervisors = 0
+function newSupervisor(options = {}) {
+  const stateFile = path.join(tmp, `supervisor-${++supervisors}.json`)
+  return { supervisor: createSupervisor({ stateFile, ...options }), stateFile }
+}
+
+// Helper: Start `script` under sh as the monitor for `key`
+async function startShell(supervisor, key, script) {
+  const entry = await supervisor.start(key, "sh", ["-c", script])
+  groups.add(entry.pgid)
+  return entry
+}
+
+// Helper: A detached process the supervisor didn't start (stands in for one that reused a PID)
+async function startStranger() {
+  const child = spawn("sleep", ["30"], { detached: true, stdio: "ignore" })
+  await new Promise((resolve, reject) => {
+    child.once("spawn", resolve)
+    child.once("error", reject)
+  })
+  child.unref()
+  groups.add(child.pid)
+  return child.pid
+}
+
+test("a started monitor is running until it is stopped", async () => {
+  const { supervisor, stateFile } = newSupervisor()
+  const entry = await startShell(supervisor, "/w", "sleep 30")
+
+  assert.equal(entry.pgid, entry.pid)
+  assert.equal(typeof entry.startTime, "string")
+  assert.deepEqual(JSON.parse(await fs.readFile(stateFile, "utf-8")).monitors["/w"], entry)
+
+  const statuses = await supervisor.statusAll(["/w", "/other"])
+  assert.deepEqual(statuses.get("/w"), { running: true, pid: entry.pid, startedAt: entry.startedAt })
+  assert.deepEqual(statuses.get("/other"), { running: false, pid: null, startedAt: null })
+
+  assert.equal(await supervisor.stop("/w"), true)
+  assert.equal(await groupGone(entry.pgid), true)
+  assert.equal((await supervisor.status("/w")).running, false)
+  assert.equal(await supervisor.stop("/w"), false)
+})
+
+test("stop sends SIGKILL to a group that ignores SIGTERM", async () => {
+  const { supervisor } = newSupervisor({ stopTimeout: 300 })
+  // exec keeps the process our child (so it is reaped here) and passes on the ignored SIGTERM
+  const entry = await startShell(supervisor, "/w", "trap '' TERM; exec sleep 30")
+
+  const started = Date.now()
+  await supervisor.stop("/w")
+  assert.ok(Date.now() - started >= 300, "killed before the stop timeout")
+
+  assert.equal(await groupGone(entry.pgid), true)
+})
+
+test("a monitor that exits by itself is forgotten and reported", async () => {
+  const exits = []
+  let reported
+  const done = new Promise((resolve) => (reported = resolve))
+  const { supervisor } = newSupervisor({
+    onExit: (key, status) => {
+      exits.push([key, status])
+      reported()
+    },
+  })
+  await startShell(supervisor, "/w", "sleep 0.3; exit 3")
+
+  // Monitors are unref'd - keep the test alive until the exit arrives
+  const keepAlive = setInterval(() => {}, 1000)
+  await done
+  clearInterval(keepAlive)
+  assert.deepEqual(exits, [["/w", { code: 3, signal: null }]])
+  assert.equal((await supervisor.status("/w")).running, false)
+  assert.deepEqual(await supervisor.cleanup(), [])
+})
+
+test("a PID in use by another process doesn't count as the monitor", async () => {
+  const pid = await startStranger()
+  const { supervisor, stateFile } = newSupervisor({ stopTimeout: 100 })
+  const entry = { pid, pgid: pid, command: "sh -c sleep 30", startedAt: Date.now() }
+
+  // Recorded with another start time: a reused PID
+  await fs.writeFile(stateFile, JSON.stringify({ monitors: { "/reused": { ...entry, startTime: "1" } } }))
+  assert.equal((await supervisor.status("/reused")).running, false)
+
+  assert.deepEqual(await supervisor.cleanup(), ["/reused"])
+  assert.equal(groupAlive(pid), true, "someone else's process was signalled")
+  assert.deepEqual(JSON.parse(await fs.readFile(stateFile, "utf-8")).monitors, {})
+
+  // stop() doesn't signal it either
+  await fs.writeFile(stateFile, JSON.stringify({ monitors: { "/reused": { ...entry, startTime: "1" } } }))
+  assert.equal(await supervisor.stop("/reused"), false)
+  assert.equal(groupAlive(pid), true, "someone else's process was signalled")
+
+  // Entries recorded without a start time are theirs while the PID is in use
+  await fs.writeFile(stateFile, JSON.stringify({ monitors: { "/old": entry } }))
+  assert.equal((await supervisor.status("/old")).running, true)
+})
+
+test("cleanup drops entries whose process has exited", async () => {
+  const { supervisor, stateFile } = newSupervisor()
+  const running = await startShell(supervisor, "/running", "sleep 30")
+
+  // A process that has come and gone
+  const gone = spawn("true")
+  await new Promise((resolve) => gone.once("exit", resolve))
+  const state = JSON.parse(await fs.readFile(stateFile, "utf-8"))
+  state.monitors["/gone"] = { pid: gone.pid, pgid: gone.pid, command: "true", startedAt: 0, startTime: "1" }
+  await fs.writeFile(stateFile, JSON.stringify(state))
+
+  assert.deepEqual(await supervisor.cleanup(), ["/gone"])
+  assert.deepEqual(Object.keys(JSON.parse(await fs.readFile(stateFile, "utf-8")).monitors), ["/running"])
+  assert.equal((await supervisor.status("/running")).pid, running.pid)
+
+  await supervisor.stop("/running")
+})
@@ -0,0 +1,163 @@
+/**
+ * Watchdog (server/watchdog.js)
+ *
+ * Restarts after an unexpected exit, the exponential backoff between them,
+ * giving up as crash-looping, and what stopping, starting by hand or a
+ * restart that fails or declines does to a directory's health. Delays are a
+ * few milliseconds so the restarts really run.
+ *
+ * Run with: npm test
+ */
+
+import { test, before, after } from "node:test"
+import assert from "node:assert/strict"
+import { createWatchdog } from "../server/watchdog.js"
+
+const sleep = (ms) => new Promise((resolve) => setTimeout(resolve, ms))
+
+// The watchdog reports exits and restarts on the console
+let consoleLog, consoleError
+before(() => {
+  ;({ log: consoleLog, error: consoleError } = console)
+  console.log = console.error = () => {}
+})
+after(() => {
+  Object.assign(console, { log: consoleLog, error: consoleError })
+})
+
+// Helper: A watchdog whose restart() is recorded; `restart` replaces what it does
+function newWatchdog({ restart = async () => {}, ...options } = {}) {
+  const restarts = []
+  const watchdog = createWatchdog({
+    initialDelay: 10,
+    maxDelay: 40,
+    ...options,
+    restart: (key) => {
+      restarts.push(key)
+      return restart(key)
+    },
+  })
+  return { watchdog, restarts }
+}
+
+// Helper: Report an exit and return the delay the restart was scheduled with (its bounds)
+function exit(watchdog, key, status = { code: 1 }) {
+  const before = Date.now()
+  watchdog.exited(key, status)
+  const after = Date.now()
+  const { nextRestartAt } = watchdog.health(key, false)
+  return [nextRestartAt - after, nextRestartAt - before]
+}
+
+// Helper: Wait until `condition()` holds (fails after a second)
+async function until(condition, message) {
+  const deadline = Date.now() + 1000
+  while (!condition()) {
+    assert.ok(Date.now() < deadline, message)
+    await sleep(5)
+  }
+}
+
+test("an unexpected exit is restarted and the directory is healthy again", async () => {
+  const { watchdog, restarts } = newWatchdog()
+  exit(watchdog, "/w", { code: 2, signal: null })
+
+  const restarting = watchdog.health("/w", false)
+  assert.equal(restarting.health, "restarting")
+  assert.deepEqual([restarting.lastExit.code, restarting.lastExit.signal], [2, null])
+
+  await until(() => restarts.length === 1, "not restarted")
+  await sleep(5)
+  assert.deepEqual(watchdog.health("/w", true), {
+    health: "healthy",
+    restarts: 1,
+    lastExit: restarting.lastExit,
+    nextRestartAt: null,
+  })
+})
+
+test("restarts back off exponentially up to maxDelay", async () => {
+  const { watchdog, restarts } = newWatchdog({ crashLimit: 10 })
+
+  const delays = []
+  for (let crash = 1; crash <= 4; crash++) {
+    delays.push(exit(watchdog, "/w"))
+    await until(() => restarts.length === crash, `restart ${crash} didn't run`)
+    await sleep(5)
+  }
+
+  const expected = [10, 20, 40, 40]
+  delays.forEach(([min, max], i) => {
+    assert.ok(min <= expected[i] && expected[i] <= max, `crash ${i + 1}: ${min}-${max} ms, expected ${expected[i]}`)
+  })
+})
+
+test("too many crashes in the window is crash-looping until started by hand", async () => {
+  const { watchdog, restarts } = newWatchdog({ crashLimit: 2 })
+
+  for (let crash = 1; crash <= 2; crash++) {
+    exit(watchdog, "/w")
+    await until(() => restarts.length === crash, `restart ${crash} didn't run`)
+    await sleep(5)
+  }
+  watchdog.exited("/w", { code: 1 })
+  assert.equal(watchdog.health("/w", false).health, "crash-looping")
+  assert.equal(watchdog.health("/w", false).nextRestartAt, null)
+
+  // Further exits change nothing, and nothing restarts it
+  watchdog.exited("/w", { code: 1 })
+  await sleep(60)
+  assert.equal(restarts.length, 2)
+  assert.equal(watchdog.health("/w", false).health, "crash-looping")
+
+  // Starting it by hand clears the crash history
+  watchdog.started("/w")
+  assert.deepEqual(
+    [watchdog.health("/w", true).health, watchdog.health("/w", true).restarts],
+    ["healthy", 0]
+  )
+  exit(watchdog, "/w")
+  assert.equal(watchdog.health("/w", false).health, "restarting")
+})
+
+test("stopping cancels a scheduled restart", async () => {
+  const { watchdog, restarts } = newWatchdog()
+  exit(watchdog, "/w")
+  watchdog.stopped("/w")
+
+  await sleep(40)
+  assert.equal(restarts.length, 0)
+  assert.equal(watchdog.health("/w", false).health, "stopped")
+})
+
+test("a failed restart counts as another crash; a declined one forgets the directory", async () => {
+  let attempts = 0
+  const { watchdog, restarts } = newWatchdog({
+    restart: async () => {
+      if (++attempts === 1) throw new Error("spawn bash ENOENT")
+    },
+  })
+  exit(watchdog, "/w")
+
+  await until(() => restarts.length === 1, "not restarted")
+  await sleep(5)
+  const retrying = watchdog.health("/w", false)
+  assert.equal(retrying.health, "restarting")
+  assert.equal(retrying.lastExit.error, "spawn bash ENOENT")
+
+  await until(() => restarts.length === 2, "not retried")
+  await sleep(5)
+  assert.equal(watchdog.health("/w", true).health, "healthy")
+
+  // restart() resolving false: unregistered meanwhile
+  const declining = newWatchdog({ restart: async () => false })
+  exit(declining.watchdog, "/gone")
+  await until(() => declining.restarts.length === 1, "not restarted")
+  await sleep(5)
+  assert.deepEqual(declining.watchdog.health("/gone", false), {
+    health: "stopped",
+    restarts: 0,
+    lastExit: null,
+    nextRestartAt: null,
+  })
+})